@@ -1,6 +1,164 @@
-import { useMemo, useRef, useState } from "react";
+import { useCallback, useEffect, useMemo, useRef, useState, type CSSProperties } from "react";
 import "./App.css";
-import { TransactionAnalyzer } from "transaction-analyzer";
+import {
+  guessBankProfile,
+  isBuiltInBank,
+  parseAmountValue,
+  parseDateValue,
+  readCsvLines,
+  splitCsvLine,
+  type BankDetection,
+  type BankProfile,
+  type CsvDelimiter,
+  type DateFormat,
+  type DecimalSeparator,
+  type ImportJob,
+  type ImportWorkerMessage,
+  type ThousandSeparator,
+  type Transaction as ParsedTransaction,
+} from "./csvImport.ts";
+import {
+  applyCategoryMerges,
+  applyCategoryRules,
+  applyMerchantNames,
+  applyTransactionSplits,
+  applyTransactionTags,
+  budgetFor,
+  buildAnalysisResult,
+  buildCashFlowChart,
+  buildCategoryColorMap,
+  buildCategoryMatrix,
+  buildCategoryPieChart,
+  buildCategoryTrendsChart,
+  buildDefaultTaxonomy,
+  buildMerchantHistoryChart,
+  buildMonthlyBarChart,
+  buildPeriodComparisonChart,
+  buildSpendingForecast,
+  buildTopMerchantsChart,
+  categoryLabel,
+  childCategories,
+  collectCategoryNames,
+  comparePeriodCategories,
+  compileCategoryRule,
+  computeBudgetProgress,
+  computeCashFlow,
+  computeIdenticalRecurringTransactions,
+  computeIncomeSources,
+  computeMerchantHistory,
+  computeMerchantTotals,
+  computeMonthChanges,
+  computeOwnerSplit,
+  computePeriodCategoryPercentages,
+  computeSettleUp,
+  computeTagReport,
+  computeTopRecurringTransactions,
+  convertBudgets,
+  convertTransactions,
+  countUntaggedTransferCandidates,
+  currencySymbol,
+  detectAnomalies,
+  detectInternalTransfers,
+  detectSubscriptions,
+  escapeRegExp,
+  filterLedgerTransactions,
+  findBiggestMovers,
+  findCategory,
+  findDuplicateTransactions,
+  FORECAST_HISTORY_MONTHS,
+  FORECAST_HORIZONS,
+  FORECAST_MIN_HISTORY,
+  formatMoney,
+  formatMonthLabel,
+  formatMonthShort,
+  groupSplitParts,
+  hslToHex,
+  humanizeCategoryKey,
+  isDateInRange,
+  JOINT_OWNER,
+  makeCategoryKey,
+  markInternalTransfers,
+  matchesAccountFilter,
+  matchesMerchant,
+  matchesTagFilter,
+  merchantName,
+  mergeCategories,
+  mergeExchangeRates,
+  monthsInRange,
+  normalizeMerchantName,
+  normalizePeriodAnchor,
+  orderedCategoryKeys,
+  parseExchangeRatesCsv,
+  parseTags,
+  PERIOD_PRESETS,
+  periodAnchorOptions,
+  periodDelta,
+  previousPeriod,
+  resolveMergedCategory,
+  resolvePeriod,
+  restrictToCategoryFamily,
+  ROLLING_AVERAGE_WINDOWS,
+  rollingAverageByMonth,
+  rollUpForecast,
+  rollUpMonthlyExpenses,
+  sortLedgerTransactions,
+  tagTransactions,
+  totalBudgetProgress,
+  TRANSFER_MAX_DAYS,
+  upsertCategory,
+  validateSplitParts,
+  withUniqueTransactionIds,
+  type AccountFilter,
+  type AmountChange,
+  type AnalysisResult,
+  type Anomaly,
+  type AnomalyKind,
+  type BudgetProgress,
+  type Budgets,
+  type CategoryRule,
+  type CategoryRuleMatch,
+  type CategoryTaxonomy,
+  type DateRange,
+  type ExchangeRate,
+  type ForecastPoint,
+  type HouseholdSplit,
+  type ImportRecord,
+  type LedgerFilters,
+  type LedgerFocus,
+  type LedgerSortKey,
+  type MerchantAlias,
+  type MonthBudget,
+  type MonthChangeRow,
+  type MonthlyExpense,
+  type MonthlyIncome,
+  type PendingFile,
+  type PendingImport,
+  type PeriodPreset,
+  type PeriodSelection,
+  type RecategorizeTarget,
+  type SpendingForecast,
+  type SplitPart,
+  type StoredSettings,
+  type SubscriptionCadence,
+  type TagRule,
+  type Transaction,
+  type TransactionAnnotation,
+  type TransferDecisions,
+  type TransferPair,
+} from "./analysis.ts";
+import {
+  buildWorkspaceFile,
+  clearImports,
+  defaultSettings,
+  deleteImport,
+  loadImports,
+  loadSettings,
+  parseWorkspaceFile,
+  replaceWorkspace,
+  saveImports,
+  saveSetting,
+  type WorkspaceFile,
+} from "./storage.ts";
 
 import {
   Chart as ChartJS,
@@ -10,10 +168,12 @@ import {
   LineElement,
   PointElement,
   ArcElement,
+  Filler,
   Title,
   Tooltip,
   Legend,
 } from "chart.js";
+import type { ChartConfiguration } from "chart.js";
 import { Chart, Pie } from "react-chartjs-2";
 
 ChartJS.register(
@@ -23,527 +183,483 @@ ChartJS.register(
   LineElement,
   PointElement,
   ArcElement,
+  Filler,
   Title,
   Tooltip,
   Legend
 );
 
 /**
- * Single-file MVP structure:
- * - Types: shape of analysis data consumed by the UI
- * - Helpers: pure transformations (data -> chart configs)
+ * UI structure. CSV parsing lives in `csvImport.ts` so the import worker can share it, the analysis
+ * types and pure helpers in `analysis.ts`, IndexedDB and the workspace file in `storage.ts`:
+ * - Export: file builders for the CSV/XLSX downloads and the printable report
  * - Components: small presentational pieces (still in one file for simplicity)
  * - App: state + orchestration (file upload -> analysis -> render)
  */
-// -------------------- Types --------------------
-type BankName = "Nordea" | "ING" | "Commerzbank";
-
-type MonthlyExpense = {
-  month: string;
-  sum: string;
-  categories?: Record<
-      string,
-      { amount: number; percentage: number; transactions?: Record<string, string> }
-  >;
-};
-
-type AnalysisResult = {
-  averageMonthExpenses?: string;
-  monthlyExpenses: MonthlyExpense[];
+// -------------------- Export (CSV / XLSX / printable report) --------------------
+type SheetCell = string | number | null;
+
+/** One worksheet; the first row is written as a bold header. */
+type Sheet = { name: string; rows: SheetCell[][] };
+
+/** Content of the printable report; charts are PNG data URLs. */
+type ReportContent = {
+  title: string;
+  period: string;
+  sourceFiles: string[];
+  summary: { label: string; value: string }[];
+  charts: { title: string; image: string }[];
+  tables: { title: string; head: string[]; rows: string[][] }[];
 };
 
-// -------------------- Helpers (pure) --------------------
-/** Infer bank type from the uploaded file name (MVP heuristic). */
-function detectBank(fileName: string): BankName {
-  const name = fileName.toLowerCase();
-  if (name.includes("commerz")) {
-    return "Commerzbank";
-  }
-  if (name.includes("ing")) {
-    return "ING";
-  }
-  return "Nordea";
-}
-
-/** Extract a numeric amount from strings like "1330.84 euros". */
-function parseEuroAmount(sum: string): number {
-  const match = /-?\d+(?:\.\d+)?/.exec(sum);
-  return match ? Number(match[0]) : 0;
+function csvCell(value: SheetCell): string {
+  const text = value === null ? "" : String(value);
+  return /[",\n\r]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
 }
 
-/** Format sortable month keys like `2025-04` into a human label like `April 2025`. */
-function formatMonthLabel(monthKey: string): string {
-  const m = /^(\d{4})-(\d{2})$/.exec(monthKey.trim());
-  if (!m) return monthKey;
-  const year = Number(m[1]);
-  const month = Number(m[2]);
-  const dt = new Date(year, month - 1, 1);
-  // Use the user's locale by default.
-  return new Intl.DateTimeFormat(undefined, { month: "long", year: "numeric" }).format(dt);
+/** Every transaction as one CSV row, with the booked amount next to the converted one. */
+function buildLedgerCsv(transactions: Transaction[], taxonomy: CategoryTaxonomy): string {
+  const head = [
+    "Date", "Amount", "Currency", "Original amount", "Original currency", "Merchant", "Raw merchant", "Description",
+    "Category", "Source file", "Account", "Owner", "Bank", "Reference", "Internal transfer", "Tags", "Note",
+  ];
+  const rows = [...transactions]
+    .sort((a, b) => a.date.localeCompare(b.date))
+    .map((t) => [
+      t.date,
+      t.amount.toFixed(2),
+      t.currency,
+      t.originalAmount?.toFixed(2) ?? "",
+      t.originalCurrency ?? "",
+      merchantName(t),
+      t.merchant,
+      t.description,
+      categoryLabel(t.category, taxonomy),
+      t.sourceFile,
+      t.account ?? "",
+      t.owner ?? "",
+      t.bank,
+      t.reference ?? "",
+      t.transferId ? "yes" : "",
+      (t.tags ?? []).join(", "),
+      t.note ?? "",
+    ]);
+  return [head, ...rows].map((row) => row.map(csvCell).join(",")).join("\r\n") + "\r\n";
 }
 
-/** Generate a distinct color per pie slice using HSL. */
-function makePieColors(n: number): string[] {
-  return Array.from({ length: n }, (_, i) => `hsl(${Math.round((360 * i) / n)}, 70%, 60%)`);
-}
-
-/** Build the Chart.js config for the monthly expenses bar chart. */
-function buildMonthlyBarChart(monthlyExpenses: MonthlyExpense[], avgOverride?: number) {
-  const ordered = [...monthlyExpenses].sort((a, b) => a.month.localeCompare(b.month));
-  const labels = ordered.map((m) => formatMonthLabel(m.month));
-  const values = ordered.map((m) => parseEuroAmount(m.sum));
-  const colors = values.map(() => "rgba(13, 110, 253, 0.4)");
-
-  const avg =
-    avgOverride ?? (values.length ? values.reduce((a, b) => a + b, 0) / values.length : 0);
-  const avgSeries = labels.map(() => avg);
-
+/** Per-category averages over the matrix rows, the same figures as the trends table's "Average" row. */
+function averageCategoryMatrixRow(rows: ReturnType<typeof buildCategoryMatrix>, categoryKeys: string[]) {
+  const n = rows.length;
+  const values: Record<string, number> = {};
+  for (const k of categoryKeys) {
+    values[k] = n ? rows.reduce((acc, row) => acc + (row.values[k] ?? 0), 0) / n : 0;
+  }
   return {
-    data: {
-      labels,
-      datasets: [
-        {
-          type: "bar" as const,
-          label: "Expenses per month (€)",
-          data: values,
-          backgroundColor: colors,
-        },
-        {
-          type: "line" as const,
-          label: "Average",
-          data: avgSeries,
-          borderColor: "rgba(255, 159, 64, 1)",
-          backgroundColor: "rgba(0, 0, 0, 0)",
-          borderDash: [6, 6],
-          borderWidth: 2,
-          pointRadius: 0,
-          tension: 0,
-          fill: false,
-          spanGaps: true,
-          pointStyle: "line",
-        },
-      ],
-    },
-    options: {
-      responsive: true,
-      plugins: {
-        legend: {
-          display: true,
-          labels: {
-            usePointStyle: true,
-          },
-        },
-        title: { display: true, text: "Monthly expenses" },
-      },
-    } as const,
+    label: "Average",
+    values,
+    sum: n ? rows.reduce((acc, row) => acc + (row.sum ?? 0), 0) / n : 0,
   };
 }
 
-/** Convert a month.categories map into a simple { category -> amount } object. */
-function extractMonthCategoryAmounts(m: MonthlyExpense): Record<string, number> {
-  const cats = m.categories ?? {};
-  const out: Record<string, number> = {};
-  for (const [catName, info] of Object.entries(cats)) out[catName] = Number(info.amount) || 0;
-  return out;
+/** The month × category matrix as a sheet: one row per month, then the average row. */
+function buildCategoryMatrixSheet(
+  name: string,
+  monthlyExpenses: MonthlyExpense[],
+  categoryKeys: string[],
+  labelFor: (key: string) => string
+): Sheet {
+  const matrix = buildCategoryMatrix(monthlyExpenses, categoryKeys);
+  const avg = averageCategoryMatrixRow(matrix, categoryKeys);
+  const round = (v: number) => Math.round(v * 100) / 100;
+  return {
+    name,
+    rows: [
+      ["Month", ...categoryKeys.map(labelFor), "Total"],
+      ...matrix.map((row) => [row.month, ...categoryKeys.map((k) => round(row.values[k] ?? 0)), round(row.sum)]),
+      [avg.label, ...categoryKeys.map((k) => round(avg.values[k])), round(avg.sum)],
+    ],
+  };
 }
 
+const CRC32_TABLE = Array.from({ length: 256 }, (_, n) => {
+  let c = n;
+  for (let k = 0; k < 8; k++) c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+  return c >>> 0;
+});
 
-/**
- * Build a month-by-category matrix for a fixed set of category columns.
- * Missing categories are treated as 0.
- */
-function buildCategoryMatrix(monthlyExpenses: MonthlyExpense[], categoryKeys: string[]) {
-  const ordered = [...monthlyExpenses].sort((a, b) => a.month.localeCompare(b.month));
-
-  return ordered.map((m) => {
-    const monthTotals = extractMonthCategoryAmounts(m);
-
-    const row: Record<string, number> = {};
-    for (const key of categoryKeys) {
-      row[key] = monthTotals[key] ?? 0;
-    }
-
-    return {
-      month: m.month,
-      label: formatMonthLabel(m.month),
-      values: row,
-      sum: parseEuroAmount(m.sum),
-    };
-  });
+function crc32(data: Uint8Array): number {
+  let crc = 0xffffffff;
+  for (const byte of data) crc = CRC32_TABLE[(crc ^ byte) & 0xff] ^ (crc >>> 8);
+  return (crc ^ 0xffffffff) >>> 0;
 }
 
-/**
- * Build the Chart.js config for category breakdown.
- *
- * - mode = "month": uses the selected month
- * - mode = "year": aggregates all months present in the analysis
- */
-function buildCategoryPieChart(args: {
-  monthlyExpenses: MonthlyExpense[];
-  breakdownMode: "month" | "year";
-  selectedMonth: string;
-}) {
-  const { monthlyExpenses, breakdownMode, selectedMonth } = args;
-  let totals: Record<string, number> = {};
-
-  if (breakdownMode === "month") {
-    const monthObj =
-        monthlyExpenses.find((m) => m.month === selectedMonth) ?? monthlyExpenses[0];
-    totals = extractMonthCategoryAmounts(monthObj);
-  } else {
-    for (const m of monthlyExpenses) {
-      const monthTotals = extractMonthCategoryAmounts(m);
-      for (const [cat, amount] of Object.entries(monthTotals)) {
-        totals[cat] = (totals[cat] ?? 0) + amount;
-      }
-    }
+/** Minimal zip archive without compression, which is all an XLSX container needs. */
+function buildZip(files: { name: string; content: string }[]): Uint8Array<ArrayBuffer> {
+  const encoder = new TextEncoder();
+  const local: Uint8Array[] = [];
+  const central: Uint8Array[] = [];
+  let offset = 0;
+
+  for (const file of files) {
+    const name = encoder.encode(file.name);
+    const data = encoder.encode(file.content);
+    const crc = crc32(data);
+
+    const header = new DataView(new ArrayBuffer(30));
+    header.setUint32(0, 0x04034b50, true);
+    header.setUint16(4, 20, true);
+    header.setUint16(12, 0x21, true); // 1980-01-01
+    header.setUint32(14, crc, true);
+    header.setUint32(18, data.length, true);
+    header.setUint32(22, data.length, true);
+    header.setUint16(26, name.length, true);
+    local.push(new Uint8Array(header.buffer), name, data);
+
+    const entry = new DataView(new ArrayBuffer(46));
+    entry.setUint32(0, 0x02014b50, true);
+    entry.setUint16(4, 20, true);
+    entry.setUint16(6, 20, true);
+    entry.setUint16(14, 0x21, true);
+    entry.setUint32(16, crc, true);
+    entry.setUint32(20, data.length, true);
+    entry.setUint32(24, data.length, true);
+    entry.setUint16(28, name.length, true);
+    entry.setUint32(42, offset, true);
+    central.push(new Uint8Array(entry.buffer), name);
+
+    offset += 30 + name.length + data.length;
   }
 
-  const entries = Object.entries(totals)
-      .filter(([, v]) => v > 0)
-      .sort((a, b) => b[1] - a[1]);
+  const centralSize = central.reduce((acc, part) => acc + part.length, 0);
+  const end = new DataView(new ArrayBuffer(22));
+  end.setUint32(0, 0x06054b50, true);
+  end.setUint16(8, files.length, true);
+  end.setUint16(10, files.length, true);
+  end.setUint32(12, centralSize, true);
+  end.setUint32(16, offset, true);
+
+  const parts = [...local, ...central, new Uint8Array(end.buffer)];
+  const out = new Uint8Array(parts.reduce((acc, part) => acc + part.length, 0));
+  let at = 0;
+  for (const part of parts) {
+    out.set(part, at);
+    at += part.length;
+  }
+  return out;
+}
 
-  if (!entries.length) return null;
+function escapeXml(text: string): string {
+  return text.replace(/[<>&"']/g, (c) => `&#${c.charCodeAt(0)};`);
+}
 
-  const labels = entries.map(([k]) => k);
-  const values = entries.map(([, v]) => v);
-  const colors = makePieColors(values.length);
+/** Spreadsheet column name for a 0-based index: A, B, …, Z, AA, … */
+function columnName(index: number): string {
+  let name = "";
+  for (let n = index + 1; n > 0; n = Math.floor((n - 1) / 26)) name = String.fromCharCode(65 + ((n - 1) % 26)) + name;
+  return name;
+}
 
-  const title =
-      breakdownMode === "month"
-          ? `Category breakdown — ${formatMonthLabel(selectedMonth || monthlyExpenses[0].month)}`
-          : "Category breakdown — All months (year)";
+function buildWorksheetXml(rows: SheetCell[][]): string {
+  const body = rows
+    .map((row, r) => {
+      const style = r === 0 ? ' s="1"' : "";
+      const cells = row
+        .map((value, c) => {
+          const ref = `${columnName(c)}${r + 1}`;
+          if (value === null) return "";
+          if (typeof value === "number") return `<c r="${ref}" s="${r === 0 ? 1 : 2}"><v>${value}</v></c>`;
+          return `<c r="${ref}" t="inlineStr"${style}><is><t>${escapeXml(value)}</t></is></c>`;
+        })
+        .join("");
+      return `<row r="${r + 1}">${cells}</row>`;
+    })
+    .join("");
+  return (
+    '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>' +
+    '<worksheet xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main">' +
+    '<sheetViews><sheetView workbookViewId="0"><pane ySplit="1" topLeftCell="A2" state="frozen"/></sheetView></sheetViews>' +
+    `<sheetData>${body}</sheetData></worksheet>`
+  );
+}
 
-  return {
-    data: {
-      labels,
-      datasets: [{ label: "€", data: values, backgroundColor: colors }],
+/** Build an .xlsx workbook (Office Open XML) with one worksheet per sheet. */
+function buildXlsx(sheets: Sheet[]): Uint8Array<ArrayBuffer> {
+  const sheetName = (name: string) => name.replace(/[[\]:*?/\\]/g, " ").slice(0, 31);
+  const ns = "http://schemas.openxmlformats.org";
+  return buildZip([
+    {
+      name: "[Content_Types].xml",
+      content:
+        '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>' +
+        `<Types xmlns="${ns}/package/2006/content-types">` +
+        `<Default Extension="rels" ContentType="application/vnd.openxmlformats-package.relationships+xml"/>` +
+        `<Default Extension="xml" ContentType="application/xml"/>` +
+        `<Override PartName="/xl/workbook.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.sheet.main+xml"/>` +
+        `<Override PartName="/xl/styles.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.styles+xml"/>` +
+        sheets
+          .map(
+            (_, i) =>
+              `<Override PartName="/xl/worksheets/sheet${i + 1}.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.worksheet+xml"/>`
+          )
+          .join("") +
+        "</Types>",
     },
-    options: {
-      responsive: true,
-      plugins: {
-        legend: { display: true, position: "bottom" as const },
-        title: { display: true, text: title },
-        tooltip: {
-          callbacks: {
-            label: (ctx: any) => {
-              const label = ctx.label ?? "";
-              const value = Number(ctx.raw ?? 0);
-              const data = ctx.dataset.data as number[];
-              const total = data.reduce((a, b) => a + b, 0);
-              const percent = total > 0 ? (value / total) * 100 : 0;
-
-              return `${label}: € ${value.toFixed(2)} (${percent.toFixed(1)}%)`;
-            },
-          },
-        },
-      },
-    } as const,
-  };
+    {
+      name: "_rels/.rels",
+      content:
+        '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>' +
+        `<Relationships xmlns="${ns}/package/2006/relationships">` +
+        `<Relationship Id="rId1" Type="${ns}/officeDocument/2006/relationships/officeDocument" Target="xl/workbook.xml"/>` +
+        "</Relationships>",
+    },
+    {
+      name: "xl/workbook.xml",
+      content:
+        '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>' +
+        `<workbook xmlns="${ns}/spreadsheetml/2006/main" xmlns:r="${ns}/officeDocument/2006/relationships"><sheets>` +
+        sheets.map((sheet, i) => `<sheet name="${escapeXml(sheetName(sheet.name))}" sheetId="${i + 1}" r:id="rId${i + 1}"/>`).join("") +
+        "</sheets></workbook>",
+    },
+    {
+      name: "xl/_rels/workbook.xml.rels",
+      content:
+        '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>' +
+        `<Relationships xmlns="${ns}/package/2006/relationships">` +
+        sheets
+          .map(
+            (_, i) =>
+              `<Relationship Id="rId${i + 1}" Type="${ns}/officeDocument/2006/relationships/worksheet" Target="worksheets/sheet${i + 1}.xml"/>`
+          )
+          .join("") +
+        `<Relationship Id="rId${sheets.length + 1}" Type="${ns}/officeDocument/2006/relationships/styles" Target="styles.xml"/>` +
+        "</Relationships>",
+    },
+    {
+      // Style 1: bold header, style 2: numbers with two decimals.
+      name: "xl/styles.xml",
+      content:
+        '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>' +
+        `<styleSheet xmlns="${ns}/spreadsheetml/2006/main">` +
+        '<fonts count="2"><font><sz val="11"/><name val="Calibri"/></font><font><b/><sz val="11"/><name val="Calibri"/></font></fonts>' +
+        '<fills count="2"><fill><patternFill patternType="none"/></fill><fill><patternFill patternType="gray125"/></fill></fills>' +
+        '<borders count="1"><border><left/><right/><top/><bottom/><diagonal/></border></borders>' +
+        '<cellStyleXfs count="1"><xf numFmtId="0" fontId="0" fillId="0" borderId="0"/></cellStyleXfs>' +
+        '<cellXfs count="3"><xf numFmtId="0" fontId="0" fillId="0" borderId="0" xfId="0"/>' +
+        '<xf numFmtId="0" fontId="1" fillId="0" borderId="0" xfId="0" applyFont="1"/>' +
+        '<xf numFmtId="4" fontId="0" fillId="0" borderId="0" xfId="0" applyNumberFormat="1"/></cellXfs>' +
+        "</styleSheet>",
+    },
+    ...sheets.map((sheet, i) => ({ name: `xl/worksheets/sheet${i + 1}.xml`, content: buildWorksheetXml(sheet.rows) })),
+  ]);
 }
 
-/** Compute category totals and percentages for the whole period (all months in the analysis). */
-function computePeriodCategoryPercentages(monthlyExpenses: MonthlyExpense[]) {
-  const totals: Record<string, number> = {};
-  for (const m of monthlyExpenses) {
-    const monthTotals = extractMonthCategoryAmounts(m);
-    for (const [cat, amount] of Object.entries(monthTotals)) {
-      totals[cat] = (totals[cat] ?? 0) + amount;
-    }
-  }
-
-  const entries = Object.entries(totals)
-    .filter(([, v]) => v > 0)
-    .sort((a, b) => b[1] - a[1]);
-
-  const grandTotal = entries.reduce((acc, [, v]) => acc + v, 0);
-
-  return entries.map(([category, total]) => ({
-    category,
-    total,
-    percent: grandTotal > 0 ? (total / grandTotal) * 100 : 0,
-  }));
+function escapeHtml(text: string): string {
+  return text.replace(/[<>&"]/g, (c) => ({ "<": "&lt;", ">": "&gt;", "&": "&amp;", '"': "&quot;" })[c] ?? c);
 }
 
-/** Compute category totals and percentages for a single month. */
-function computeMonthCategoryPercentages(monthlyExpenses: MonthlyExpense[], selectedMonth: string) {
-  const monthObj = monthlyExpenses.find((m) => m.month === selectedMonth) ?? monthlyExpenses[0];
-  const totals = extractMonthCategoryAmounts(monthObj);
-
-  const entries = Object.entries(totals)
-    .filter(([, v]) => v > 0)
-    .sort((a, b) => b[1] - a[1]);
-
-  const grandTotal = entries.reduce((acc, [, v]) => acc + v, 0);
-
-  return entries.map(([category, total]) => ({
-    category,
-    total,
-    percent: grandTotal > 0 ? (total / grandTotal) * 100 : 0,
-  }));
+/** A standalone HTML page for the report, laid out for A4 printing. */
+function buildReportHtml(report: ReportContent): string {
+  const table = (t: ReportContent["tables"][number]) => `
+    <h2>${escapeHtml(t.title)}</h2>
+    <table>
+      <thead><tr>${t.head.map((h, i) => `<th${i ? ' class="num"' : ""}>${escapeHtml(h)}</th>`).join("")}</tr></thead>
+      <tbody>${t.rows
+        .map((row) => `<tr>${row.map((c, i) => `<td${i ? ' class="num"' : ""}>${escapeHtml(c)}</td>`).join("")}</tr>`)
+        .join("")}</tbody>
+    </table>`;
+
+  return `<!doctype html>
+<html><head><meta charset="utf-8"><title>${escapeHtml(report.title)}</title>
+<style>
+  @page { size: A4; margin: 16mm; }
+  body { font-family: system-ui, sans-serif; color: #222; font-size: 12px; }
+  h1 { margin: 0 0 4px; font-size: 20px; }
+  h2 { margin: 18px 0 6px; font-size: 15px; }
+  .meta { color: #555; margin-bottom: 12px; }
+  .summary { display: flex; gap: 24px; margin: 8px 0 12px; }
+  img { width: 100%; page-break-inside: avoid; }
+  table { width: 100%; border-collapse: collapse; page-break-inside: auto; }
+  tr { page-break-inside: avoid; }
+  th, td { padding: 4px 6px; border-bottom: 1px solid #eee; text-align: left; }
+  .num { text-align: right; }
+</style></head>
+<body>
+  <h1>${escapeHtml(report.title)}</h1>
+  <div class="meta">
+    <div><strong>Period:</strong> ${escapeHtml(report.period)}</div>
+    <div><strong>Source files:</strong> ${escapeHtml(report.sourceFiles.join(", ") || "—")}</div>
+  </div>
+  <div class="summary">${report.summary
+    .map((s) => `<div><strong>${escapeHtml(s.label)}:</strong> ${escapeHtml(s.value)}</div>`)
+    .join("")}</div>
+  ${report.charts.map((c) => `<h2>${escapeHtml(c.title)}</h2><img src="${c.image}" alt="${escapeHtml(c.title)}">`).join("")}
+  ${report.tables.map(table).join("")}
+</body></html>`;
 }
 
-/**
- * Build the Chart.js config for category trends over time.
- * By default shows top N categories by total spend across all months.
- */
-function buildCategoryTrendsChart(monthlyExpenses: MonthlyExpense[], topN = 6) {
-  const ordered = [...monthlyExpenses].sort((a, b) => a.month.localeCompare(b.month));
-  const labels = ordered.map((m) => formatMonthLabel(m.month));
-
-  // Compute totals per category across all months
-  const totals: Record<string, number> = {};
-  const perMonth: Record<string, number[]> = {};
-
-  for (const m of ordered) {
-    const monthTotals = extractMonthCategoryAmounts(m);
-    for (const [cat, amount] of Object.entries(monthTotals)) {
-      totals[cat] = (totals[cat] ?? 0) + amount;
-    }
+/** Render a chart config off-screen at a fixed size and return it as a PNG data URL. */
+function renderChartImage(
+  type: "bar" | "line" | "pie",
+  chart: { data: unknown; options: object },
+  width = 900,
+  height = 420
+): string {
+  const canvas = document.createElement("canvas");
+  canvas.width = width;
+  canvas.height = height;
+  const instance = new ChartJS(canvas, {
+    type,
+    data: chart.data,
+    options: { ...chart.options, responsive: false, animation: false, devicePixelRatio: 2 },
+  } as ChartConfiguration);
+  try {
+    return instance.toBase64Image("image/png");
+  } finally {
+    instance.destroy();
   }
+}
 
-  const topCats = Object.entries(totals)
-    .sort((a, b) => b[1] - a[1])
-    .slice(0, topN)
-    .map(([cat]) => cat);
+/** Download name with today's date, e.g. "transactions-2025-06-30.csv". */
+function exportFileName(prefix: string, extension: string): string {
+  return `${prefix}-${new Date().toISOString().slice(0, 10)}.${extension}`;
+}
 
-  // Initialize series arrays
-  for (const cat of topCats) {
-    perMonth[cat] = new Array(labels.length).fill(0);
-  }
-  perMonth["Other"] = new Array(labels.length).fill(0);
+function downloadFile(content: BlobPart, fileName: string, type: string): void {
+  const url = URL.createObjectURL(new Blob([content], { type }));
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = fileName;
+  link.click();
+  setTimeout(() => URL.revokeObjectURL(url), 0);
+}
 
-  // Fill series
-  ordered.forEach((m, idx) => {
-    const monthTotals = extractMonthCategoryAmounts(m);
-    for (const [cat, amount] of Object.entries(monthTotals)) {
-      if (topCats.includes(cat)) {
-        perMonth[cat][idx] += amount;
-      } else {
-        perMonth["Other"][idx] += amount;
-      }
-    }
+/** Open the report in a new window and bring up the print dialog, where it can be saved as PDF. */
+function printReport(html: string): void {
+  const win = window.open("", "_blank");
+  if (!win) throw new Error("The report window was blocked. Allow pop-ups for this page to print the report.");
+  win.document.open();
+  win.document.write(html);
+  win.document.close();
+  // Wait for the chart images to decode before printing.
+  win.addEventListener("load", () => {
+    win.focus();
+    win.print();
   });
-
-  const seriesNames = [...topCats, "Other"].filter((n) => perMonth[n].some((v) => v > 0));
-  const colors = makePieColors(seriesNames.length);
-
-  return {
-    data: {
-      labels,
-      datasets: seriesNames.map((name, i) => ({
-        type: "line" as const,
-        label: name,
-        data: perMonth[name],
-        borderColor: colors[i],
-        backgroundColor: "rgba(0,0,0,0)",
-        pointRadius: 2,
-        tension: 0.2,
-      })),
-    },
-    options: {
-      responsive: true,
-      plugins: {
-        legend: { display: true, position: "bottom" as const },
-        title: { display: true, text: "Category trends (top categories)" },
-        tooltip: {
-          callbacks: {
-            label: (ctx: any) => {
-              const label = ctx.dataset?.label ?? "";
-              const value = Number(ctx.raw ?? 0);
-              return `${label}: € ${value.toFixed(2)}`;
-            },
-          },
-        },
-      },
-      scales: {
-        y: {
-          ticks: {
-            callback: (value: any) => `€ ${value}`,
-          },
-        },
-      },
-    } as const,
-  };
 }
 
-type RecurringTransaction = {
-  name: string;
-  category: string;
-  count: number;
-  avgAmount: number;
-  totalAmount: number;
+// -------------------- Import worker pool --------------------
+/** Result of one import job. Failures and cancellations are per file and never reject. */
+type ImportJobOutcome =
+  | { status: "detected"; detection: BankDetection }
+  | { status: "done"; bank: string; transactions: ParsedTransaction[] }
+  | { status: "error"; message: string }
+  | { status: "cancelled" };
+
+/** Per-file state shown while an upload is parsed. */
+type ImportProgress = {
+  jobId: number;
+  fileName: string;
+  status: "queued" | "parsing" | "done" | "error" | "cancelled";
+  /** In [0, 1]. */
+  progress: number;
+  error?: string;
 };
 
-type IdenticalRecurringTransaction = {
-  name: string;
-  category: string;
-  amount: number;
-  count: number;
-  totalAmount: number;
+type ImportWorkerPool = {
+  run: (job: ImportJob, onProgress: (progress: number) => void) => Promise<ImportJobOutcome>;
+  cancel: (jobId: number) => void;
+  /** Cancel everything and stop the workers; the pool starts new ones on the next `run`. */
+  dispose: () => void;
 };
 
+let nextImportJobId = 1;
+
 /**
- * Parse analyzer-generated transaction summary lines like:
- * "spent 28.33 euros in Paytrail Oyj DNA Oyj Mobiilipa on Tue Dec 09 2025"
+ * A small pool of import workers. Jobs queue up and run one per worker; workers are started on
+ * demand. Cancelling a running job terminates its worker, since parsing can't be interrupted.
  */
-function parseSummaryLine(line: string): { name: string; amount: number } | null {
-  const amountMatch = /spent\s+(-?\d+(?:\.\d+)?)\s+euros?/i.exec(line);
-  if (!amountMatch) return null;
-  const amount = Number(amountMatch[1]);
-
-  // Prefer extracting merchant between " in " and " on ". If " on " is missing, take the rest.
-  const inIdx = line.toLowerCase().indexOf(" in ");
-  if (inIdx === -1) return null;
-  const afterIn = line.slice(inIdx + 4);
-  const onIdx = afterIn.toLowerCase().lastIndexOf(" on ");
-  const name = (onIdx === -1 ? afterIn : afterIn.slice(0, onIdx)).trim();
-  if (!name) return null;
-
-  return { name, amount };
-}
-
-/** Compute total spend per category across all months (used for consistent color mapping). */
-function computeCategoryTotals(monthlyExpenses: MonthlyExpense[]): Record<string, number> {
-  const totals: Record<string, number> = {};
-  for (const m of monthlyExpenses) {
-    const cats = m.categories ?? {};
-    for (const [catName, info] of Object.entries(cats)) {
-      totals[catName] = (totals[catName] ?? 0) + (Number(info.amount) || 0);
-    }
+function createImportWorkerPool(size = Math.max(1, Math.min(4, (navigator.hardwareConcurrency || 2) - 1))): ImportWorkerPool {
+  type QueuedJob = { job: ImportJob; onProgress: (progress: number) => void; resolve: (outcome: ImportJobOutcome) => void };
+  type Slot = { worker: Worker; current: QueuedJob | null };
+
+  const queue: QueuedJob[] = [];
+  let slots: Slot[] = [];
+
+  /** `getSlot` is read lazily so a slot can be created together with its worker. */
+  function startWorker(getSlot: () => Slot): Worker {
+    const worker = new Worker(new URL("./importWorker.ts", import.meta.url), { type: "module" });
+    worker.onmessage = (event: MessageEvent<ImportWorkerMessage>) => {
+      const slot = getSlot();
+      const message = event.data;
+      if (slot.current?.job.jobId !== message.jobId) return;
+      if (message.type === "progress") slot.current.onProgress(message.progress);
+      else if (message.type === "detected") finish(slot, { status: "detected", detection: message.detection });
+      else if (message.type === "done") finish(slot, { status: "done", bank: message.bank, transactions: message.transactions });
+      else finish(slot, { status: "error", message: message.message });
+    };
+    // Uncaught worker errors (e.g. the worker script failed to load) fail the running job only.
+    worker.onerror = (event) => {
+      const slot = getSlot();
+      event.preventDefault();
+      restart(slot);
+      finish(slot, { status: "error", message: event.message || "The import worker crashed." });
+    };
+    return worker;
   }
-  return totals;
-}
-
-/** Build a stable category color map (sorted by total spend desc, then name). */
-function buildCategoryColorMap(monthlyExpenses: MonthlyExpense[]): Record<string, string> {
-  const totals = computeCategoryTotals(monthlyExpenses);
-  const names = Object.keys(totals).sort((a, b) => {
-    const diff = (totals[b] ?? 0) - (totals[a] ?? 0);
-    return diff !== 0 ? diff : a.localeCompare(b);
-  });
-  const colors = makePieColors(names.length || 1);
-  const map: Record<string, string> = {};
-  names.forEach((name, idx) => {
-    map[name] = colors[idx];
-  });
-  return map;
-}
 
-/** Compute top recurring transactions by merchant/name across all months/categories. */
-function computeTopRecurringTransactions(
-  monthlyExpenses: MonthlyExpense[],
-  topN = 10
-): RecurringTransaction[] {
-  const stats: Record<
-    string,
-    { count: number; sum: number; categoryCounts: Record<string, number> }
-  > = {};
-
-  for (const m of monthlyExpenses) {
-    const categories = m.categories ?? {};
-    for (const [categoryName, cat] of Object.entries(categories)) {
-      const tx = cat.transactions ?? {};
-      for (const [key, value] of Object.entries(tx)) {
-        // Skip synthesized rows
-        if (key === "on average") continue;
-        if (typeof value !== "string") continue;
-
-        const parsed = parseSummaryLine(value);
-        if (!parsed) continue;
-
-        const normalizedName = parsed.name.replace(/\s+/g, " ").trim();
-        const current = stats[normalizedName] ?? {
-          count: 0,
-          sum: 0,
-          categoryCounts: {},
-        };
-
-        current.count += 1;
-        current.sum += parsed.amount;
-        current.categoryCounts[categoryName] = (current.categoryCounts[categoryName] ?? 0) + 1;
-        stats[normalizedName] = current;
-      }
-    }
+  function restart(slot: Slot) {
+    slot.worker.terminate();
+    slot.worker = startWorker(() => slot);
   }
 
-  return Object.entries(stats)
-    .map(([name, s]) => {
-      const bestCategory = Object.entries(s.categoryCounts)
-        .sort((a, b) => b[1] - a[1])[0]?.[0] ?? "";
-
-      return {
-        name,
-        category: bestCategory,
-        count: s.count,
-        avgAmount: s.count ? s.sum / s.count : 0,
-        totalAmount: s.sum,
-      };
-    })
-    .sort((a, b) => (b.count - a.count) || (b.avgAmount - a.avgAmount))
-    .slice(0, topN);
-}
+  function finish(slot: Slot, outcome: ImportJobOutcome) {
+    const done = slot.current;
+    slot.current = null;
+    done?.resolve(outcome);
+    drain();
+  }
 
-/**
- * Compute transactions that repeat identically: same merchant/name AND same amount.
- * Useful for subscriptions (e.g., Netflix €12.99 every month).
- */
-function computeIdenticalRecurringTransactions(
-  monthlyExpenses: MonthlyExpense[],
-  topN = 10
-): IdenticalRecurringTransaction[] {
-  const stats: Record<
-    string,
-    { name: string; amount: number; count: number; categoryCounts: Record<string, number> }
-  > = {};
-
-  for (const m of monthlyExpenses) {
-    const categories = m.categories ?? {};
-    for (const [categoryName, cat] of Object.entries(categories)) {
-      const tx = cat.transactions ?? {};
-      for (const [key, value] of Object.entries(tx)) {
-        // Skip synthesized rows
-        if (key === "on average") continue;
-        if (typeof value !== "string") continue;
-
-        const parsed = parseSummaryLine(value);
-        if (!parsed) continue;
-
-        const normalizedName = parsed.name.replace(/\s+/g, " ").trim();
-
-        // Amount normalization: keep 2 decimals (EUR cents)
-        const amount = Math.round(parsed.amount * 100) / 100;
-
-        const groupKey = `${normalizedName}__${amount.toFixed(2)}`;
-        const current = stats[groupKey] ?? {
-          name: normalizedName,
-          amount,
-          count: 0,
-          categoryCounts: {},
-        };
-        current.count += 1;
-        current.categoryCounts[categoryName] = (current.categoryCounts[categoryName] ?? 0) + 1;
-        stats[groupKey] = current;
+  function drain() {
+    while (queue.length) {
+      let slot = slots.find((s) => !s.current);
+      if (!slot && slots.length < size) {
+        const added: Slot = { worker: startWorker(() => added), current: null };
+        slots.push(added);
+        slot = added;
       }
+      if (!slot) return;
+      slot.current = queue.shift() ?? null;
+      slot.worker.postMessage(slot.current?.job);
     }
   }
 
-  return Object.values(stats)
-    // Only keep truly recurring ones (2+ occurrences)
-    .filter((r) => r.count >= 2)
-    .map((r) => {
-      const bestCategory = Object.entries(r.categoryCounts)
-        .sort((a, b) => b[1] - a[1])[0]?.[0] ?? "";
-      return {
-        name: r.name,
-        category: bestCategory,
-        amount: r.amount,
-        count: r.count,
-        totalAmount: r.amount * r.count,
-      };
-    })
-    .sort((a, b) => (b.count - a.count) || (b.amount - a.amount))
-    .slice(0, topN);
+  return {
+    run(job, onProgress) {
+      return new Promise((resolve) => {
+        queue.push({ job, onProgress, resolve });
+        drain();
+      });
+    },
+    cancel(jobId) {
+      const queuedIndex = queue.findIndex((q) => q.job.jobId === jobId);
+      if (queuedIndex >= 0) {
+        queue.splice(queuedIndex, 1)[0].resolve({ status: "cancelled" });
+        return;
+      }
+      const slot = slots.find((s) => s.current?.job.jobId === jobId);
+      if (!slot) return;
+      restart(slot);
+      finish(slot, { status: "cancelled" });
+    },
+    dispose() {
+      for (const q of queue.splice(0)) q.resolve({ status: "cancelled" });
+      for (const slot of slots) {
+        slot.worker.terminate();
+        slot.current?.resolve({ status: "cancelled" });
+      }
+      slots = [];
+    },
+  };
 }
 
 // -------------------- Small components (same file) --------------------
@@ -553,9 +669,18 @@ function computeIdenticalRecurringTransactions(
  */
 function UploadButton(props: Readonly<{
   loading: boolean;
-  onFiles: (files: File[]) => void;
+  /** When transactions are already loaded, new files are appended to them. */
+  hasData?: boolean;
+  /** `review` asks to confirm the bank format of every file, also when detection is certain. */
+  onFiles: (files: File[], review: boolean) => void;
 }>) {
   const inputRef = useRef<HTMLInputElement | null>(null);
+  const reviewRef = useRef(false);
+
+  function pickFiles(review: boolean) {
+    reviewRef.current = review;
+    inputRef.current?.click();
+  }
 
   return (
       <>
@@ -566,229 +691,1039 @@ function UploadButton(props: Readonly<{
             accept=".csv,text/csv"
             onChange={(e) => {
               const files = Array.from(e.target.files ?? []);
-              if (files.length) props.onFiles(files);
+              if (files.length) props.onFiles(files, reviewRef.current);
               if (inputRef.current) inputRef.current.value = "";
             }}
             style={{ display: "none" }}
         />
         <button
-            onClick={() => inputRef.current?.click()}
+            onClick={() => pickFiles(false)}
             disabled={props.loading}
             style={{ padding: "10px 16px", cursor: props.loading ? "not-allowed" : "pointer" }}
         >
-          {props.loading ? "Analyzing…" : "Upload files"}
+          {props.loading ? "Analyzing…" : props.hasData ? "Add files" : "Upload files"}
+        </button>
+        <button
+            onClick={() => pickFiles(true)}
+            disabled={props.loading}
+            title="Choose the bank format or map the columns of each file yourself"
+            style={{ padding: "10px 16px", marginLeft: 8 }}
+        >
+          Map columns manually…
         </button>
       </>
   );
 }
 
-/** Presentational wrapper for the monthly expenses bar chart. */
-function MonthlyBarChart(
-  { monthlyExpenses, averageMonthExpenses }: Readonly<{ monthlyExpenses: MonthlyExpense[]; averageMonthExpenses?: string }>
-) {
-  const avgValue = averageMonthExpenses ? parseEuroAmount(averageMonthExpenses) : undefined;
-  const chart = useMemo(
-    () => buildMonthlyBarChart(monthlyExpenses, avgValue),
-    [monthlyExpenses, avgValue]
+/** Save the whole workspace to a JSON file, or replace it with one. */
+function WorkspaceButtons(props: Readonly<{
+  disabled: boolean;
+  canSave: boolean;
+  onSave: () => void;
+  onOpen: (file: File) => void;
+}>) {
+  const inputRef = useRef<HTMLInputElement | null>(null);
+
+  return (
+      <>
+        <input
+            ref={inputRef}
+            type="file"
+            accept=".json,application/json"
+            onChange={(e) => {
+              const file = e.target.files?.[0];
+              if (file) props.onOpen(file);
+              if (inputRef.current) inputRef.current.value = "";
+            }}
+            style={{ display: "none" }}
+        />
+        <button onClick={props.onSave} disabled={props.disabled || !props.canSave} style={{ padding: "10px 16px", marginLeft: 8 }}>
+          Save workspace
+        </button>
+        <button onClick={() => inputRef.current?.click()} disabled={props.disabled} style={{ padding: "10px 16px", marginLeft: 8 }}>
+          Open workspace…
+        </button>
+      </>
   );
+}
+
+/**
+ * Per-file bank confirmation shown when content-based detection is ambiguous or the user asked to
+ * map columns manually. Each dropdown is preselected with the best guess; the scores help decide.
+ */
+function BankConfirmation(props: Readonly<{
+  pendingFiles: PendingFile[];
+  onChangeFormat: (index: number, formatId: string) => void;
+  onMapColumns: (index: number) => void;
+  onConfirm: () => void;
+  onCancel: () => void;
+}>) {
   return (
-      <div style={{ border: "1px solid #eee", borderRadius: 8, padding: 12, marginTop: 12 }}>
-        <Chart type="bar" data={chart.data} options={chart.options} />
+      <div style={{ marginTop: 20, border: "1px solid #eee", borderRadius: 8, padding: 12 }}>
+        <h2 style={{ margin: "0 0 8px" }}>Confirm bank formats</h2>
+        <div style={{ color: "#555", marginBottom: 10 }}>
+          {props.pendingFiles.some((p) => p.detection.ambiguous)
+            ? "We couldn't reliably recognize every file. Please check the bank for each file before analyzing."
+            : "Check the bank for each file before analyzing."}{" "}
+          Use “Map columns…” for a bank we don't know or a file that was read with the wrong columns.
+        </div>
+
+        <table style={{ width: "100%", borderCollapse: "collapse" }}>
+          <tbody>
+            {props.pendingFiles.map((p, idx) => (
+                <tr key={`${p.file.name}_${idx}`}>
+                  <td style={{ padding: "8px 6px", borderBottom: "1px solid #f3f3f3" }}>
+                    {p.file.name}
+                    {p.detection.ambiguous && (
+                        <span style={{ marginLeft: 8, color: "#b26a00", fontSize: 12 }}>uncertain</span>
+                    )}
+                  </td>
+                  <td style={{ padding: "8px 6px", borderBottom: "1px solid #f3f3f3", textAlign: "right", whiteSpace: "nowrap" }}>
+                    <select value={p.formatId} onChange={(e) => props.onChangeFormat(idx, e.target.value)}>
+                      {p.detection.scores.map((s) => (
+                          <option key={s.id} value={s.id}>
+                            {s.label} ({Math.round(s.score * 100)}% match)
+                          </option>
+                      ))}
+                    </select>{" "}
+                    <button onClick={() => props.onMapColumns(idx)} style={{ padding: "4px 10px" }}>
+                      Map columns…
+                    </button>
+                  </td>
+                </tr>
+            ))}
+          </tbody>
+        </table>
+
+        <div style={{ marginTop: 12, display: "flex", gap: 10 }}>
+          <button onClick={props.onConfirm}>Analyze</button>
+          <button onClick={props.onCancel}>Cancel</button>
+        </div>
       </div>
   );
 }
 
+const DATE_FORMATS: DateFormat[] = ["YYYY-MM-DD", "YYYY/MM/DD", "DD.MM.YYYY", "DD/MM/YYYY", "MM/DD/YYYY"];
+
 /**
- * Controls + pie chart for category breakdown.
- * Keeps view state (month/year + selected month) in the parent, receives setters.
+ * Column-mapping wizard for banks without built-in support.
+ * Previews the first rows of a file and saves the chosen layout as a named bank profile; started
+ * from a saved `profile`, it edits that profile instead.
  */
-function CategoryBreakdown(props: Readonly<{
-  monthlyExpenses: MonthlyExpense[];
-  breakdownMode: "month" | "year";
-  selectedMonth: string;
-  setBreakdownMode: (v: "month" | "year") => void;
-  setSelectedMonth: (v: string) => void;
+function ColumnMappingWizard(props: Readonly<{
+  fileName: string;
+  text: string;
+  profile?: BankProfile;
+  onSave: (profile: BankProfile) => void;
+  onCancel: () => void;
 }>) {
-  const months = useMemo(
-    () => [...props.monthlyExpenses].map((m) => m.month).sort((a, b) => a.localeCompare(b)),
-    [props.monthlyExpenses]
-  );
+  const [draft, setDraft] = useState(() => props.profile ?? { ...guessBankProfile(props.text), name: "" });
 
-  const pie = useMemo(
-      () =>
-          buildCategoryPieChart({
-            monthlyExpenses: props.monthlyExpenses,
-            breakdownMode: props.breakdownMode,
-            selectedMonth: props.selectedMonth,
-          }),
-      [props.monthlyExpenses, props.breakdownMode, props.selectedMonth]
+  const lines = useMemo(() => readCsvLines(props.text), [props.text]);
+  const header = useMemo(
+    () => splitCsvLine(lines[draft.headerRowIndex] ?? "", draft.delimiter),
+    [lines, draft.headerRowIndex, draft.delimiter]
   );
-  const yearRows = useMemo(
-    () => computePeriodCategoryPercentages(props.monthlyExpenses),
-    [props.monthlyExpenses]
+  const previewRows = useMemo(
+    () => lines.slice(draft.headerRowIndex + 1, draft.headerRowIndex + 9).map((l) => splitCsvLine(l, draft.delimiter)),
+    [lines, draft.headerRowIndex, draft.delimiter]
   );
-  const monthRows = useMemo(
-    () => computeMonthCategoryPercentages(props.monthlyExpenses, props.selectedMonth),
-    [props.monthlyExpenses, props.selectedMonth]
-  );
-  const categoryColors = useMemo(
-    () => buildCategoryColorMap(props.monthlyExpenses),
-    [props.monthlyExpenses]
+  const parsedPreview = useMemo(
+    () =>
+      previewRows.map((cells) => ({
+        date: parseDateValue(cells[draft.dateColumn] ?? "", draft.dateFormat),
+        amount: parseAmountValue(cells[draft.amountColumn] ?? "", draft.decimalSeparator, draft.thousandSeparator),
+      })),
+    [previewRows, draft.dateColumn, draft.dateFormat, draft.amountColumn, draft.decimalSeparator, draft.thousandSeparator]
   );
+  const validRows = parsedPreview.filter((r) => r.date && r.amount !== null).length;
+  const canSave = draft.name.trim() !== "" && validRows > 0;
+
+  function update<K extends keyof typeof draft>(key: K, value: (typeof draft)[K]) {
+    setDraft((d) => ({ ...d, [key]: value }));
+  }
+
+  function columnSelect(
+    key: "dateColumn" | "amountColumn" | "counterpartyColumn" | "descriptionColumn" | "currencyColumn",
+    optional = false
+  ) {
+    return (
+        <select value={draft[key] ?? -1} onChange={(e) => update(key, Number(e.target.value))}>
+          {optional && <option value={-1}>(none)</option>}
+          {header.map((h, i) => (
+              <option key={i} value={i}>{h || `Column ${i + 1}`}</option>
+          ))}
+        </select>
+    );
+  }
+
+  const cellStyle = { padding: "6px", borderBottom: "1px solid #f3f3f3", whiteSpace: "nowrap" as const };
 
   return (
-      <div style={{ marginTop: 24, borderTop: "1px solid #eee", paddingTop: 16 }}>
-        <h2 style={{ margin: "0 0 12px" }}>Category breakdown</h2>
+      <div style={{ marginTop: 20, border: "1px solid #eee", borderRadius: 8, padding: 12 }}>
+        <h2 style={{ margin: "0 0 8px" }}>
+          {props.profile ? `Edit profile “${props.profile.name}”` : "Map columns"} — {props.fileName}
+        </h2>
 
         <div style={{ display: "flex", gap: 12, alignItems: "center", flexWrap: "wrap" }}>
           <label>
-            View:{" "}
-            <select
-              value={props.breakdownMode}
-              onChange={(e) => props.setBreakdownMode(e.target.value as "month" | "year")}
-            >
-              <option value="month">Month</option>
-              <option value="year">Year</option>
+            Profile name:{" "}
+            <input value={draft.name} onChange={(e) => update("name", e.target.value)} placeholder="e.g. My Bank" />
+          </label>
+          <label>
+            Delimiter:{" "}
+            <select value={draft.delimiter} onChange={(e) => update("delimiter", e.target.value as CsvDelimiter)}>
+              <option value=";">;</option>
+              <option value=",">,</option>
+              <option value={"\t"}>Tab</option>
             </select>
           </label>
+          <label>
+            Header row:{" "}
+            <input
+              type="number"
+              min={1}
+              max={Math.max(1, lines.length)}
+              value={draft.headerRowIndex + 1}
+              onChange={(e) => update("headerRowIndex", Math.max(0, Number(e.target.value) - 1))}
+              style={{ width: 60 }}
+            />
+          </label>
+        </div>
 
-          {props.breakdownMode === "month" && (
+        <div style={{ display: "flex", gap: 12, alignItems: "center", flexWrap: "wrap", marginTop: 10 }}>
+          <label>Date: {columnSelect("dateColumn")}</label>
+          <label>Amount: {columnSelect("amountColumn")}</label>
+          <label>Counterparty: {columnSelect("counterpartyColumn")}</label>
+          <label>Description: {columnSelect("descriptionColumn", true)}</label>
+          <label>Currency: {columnSelect("currencyColumn", true)}</label>
+          {(draft.currencyColumn ?? -1) < 0 && (
               <label>
-                Month:{" "}
-                <select value={props.selectedMonth} onChange={(e) => props.setSelectedMonth(e.target.value)}>
-                  {months.map((m) => (
-                      <option key={m} value={m}>{formatMonthLabel(m)}</option>
-                  ))}
-                </select>
+                Booked in:{" "}
+                <input
+                  value={draft.currency ?? "EUR"}
+                  onChange={(e) => update("currency", e.target.value.toUpperCase().slice(0, 3))}
+                  style={{ width: 50 }}
+                />
               </label>
           )}
         </div>
 
-        <div style={{ marginTop: 12 }}>
-          {pie ? (
-            <div style={{ border: "1px solid #eee", borderRadius: 8, padding: 12 }}>
-              <Pie data={pie.data} options={pie.options} />
-            </div>
-          ) : (
-            <div>No category data found for this selection.</div>
-          )}
+        <div style={{ display: "flex", gap: 12, alignItems: "center", flexWrap: "wrap", marginTop: 10 }}>
+          <label>
+            Date format:{" "}
+            <select value={draft.dateFormat} onChange={(e) => update("dateFormat", e.target.value as DateFormat)}>
+              {DATE_FORMATS.map((f) => (
+                  <option key={f} value={f}>{f}</option>
+              ))}
+            </select>
+          </label>
+          <label>
+            Decimal separator:{" "}
+            <select
+              value={draft.decimalSeparator}
+              onChange={(e) => update("decimalSeparator", e.target.value as DecimalSeparator)}
+            >
+              <option value=",">Comma (1,50)</option>
+              <option value=".">Dot (1.50)</option>
+            </select>
+          </label>
+          <label>
+            Thousand separator:{" "}
+            <select
+              value={draft.thousandSeparator}
+              onChange={(e) => update("thousandSeparator", e.target.value as ThousandSeparator)}
+            >
+              <option value="">None</option>
+              <option value=".">Dot (1.000)</option>
+              <option value=",">Comma (1,000)</option>
+              <option value=" ">Space (1 000)</option>
+            </select>
+          </label>
+        </div>
 
-          {(props.breakdownMode === "year" ? yearRows : monthRows).length > 0 && (
-            <div style={{ marginTop: 12 }}>
-              <div style={{ color: "#555", fontWeight: 600, marginBottom: 6 }}>
-                {props.breakdownMode === "year"
-                  ? "Percentages for the whole period"
-                  : `Percentages for ${formatMonthLabel(props.selectedMonth || props.monthlyExpenses[0]?.month || "")}`}
-              </div>
-              <div style={{ overflowX: "auto" }}>
-                <table style={{ width: "100%", borderCollapse: "collapse" }}>
-                  <thead>
-                    <tr>
-                      <th style={{ textAlign: "left", borderBottom: "1px solid #eee", padding: "8px 6px" }}>
-                        Category
-                      </th>
-                      <th style={{ textAlign: "right", borderBottom: "1px solid #eee", padding: "8px 6px", whiteSpace: "nowrap" }}>
-                        Total
-                      </th>
-                      <th style={{ textAlign: "right", borderBottom: "1px solid #eee", padding: "8px 6px", whiteSpace: "nowrap" }}>
-                        %
-                      </th>
-                    </tr>
-                  </thead>
-                  <tbody>
-                    {(props.breakdownMode === "year" ? yearRows : monthRows).map((r) => (
-                      <tr key={r.category}>
-                        <td style={{ padding: "8px 6px", borderBottom: "1px solid #f3f3f3" }}>
-                          <span style={{ color: categoryColors[r.category] ?? "#555", fontWeight: 600 }}>
-                            {r.category}
-                          </span>
-                        </td>
-                        <td style={{ padding: "8px 6px", borderBottom: "1px solid #f3f3f3", textAlign: "right" }}>
-                          € {r.total.toFixed(2)}
-                        </td>
-                        <td style={{ padding: "8px 6px", borderBottom: "1px solid #f3f3f3", textAlign: "right" }}>
-                          {r.percent.toFixed(1)}%
-                        </td>
-                      </tr>
+        <div style={{ overflowX: "auto", marginTop: 12 }}>
+          <table style={{ width: "100%", borderCollapse: "collapse", fontSize: 13 }}>
+            <thead>
+              <tr>
+                {header.map((h, i) => (
+                    <th key={i} style={{ ...cellStyle, textAlign: "left", borderBottom: "1px solid #eee" }}>
+                      {h || `Column ${i + 1}`}
+                    </th>
+                ))}
+                <th style={{ ...cellStyle, textAlign: "left", borderBottom: "1px solid #eee" }}>Parsed</th>
+              </tr>
+            </thead>
+            <tbody>
+              {previewRows.map((cells, rowIdx) => (
+                  <tr key={rowIdx}>
+                    {header.map((_, i) => (
+                        <td key={i} style={cellStyle}>{cells[i] ?? ""}</td>
                     ))}
-                  </tbody>
-                </table>
-              </div>
-            </div>
-          )}
+                    <td style={{ ...cellStyle, color: parsedPreview[rowIdx].date && parsedPreview[rowIdx].amount !== null ? "#2e7d32" : "#c62828" }}>
+                      {parsedPreview[rowIdx].date && parsedPreview[rowIdx].amount !== null
+                        ? `${parsedPreview[rowIdx].date} · ${parsedPreview[rowIdx].amount?.toFixed(2)}`
+                        : "not parsed"}
+                    </td>
+                  </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+
+        <div style={{ marginTop: 12, display: "flex", gap: 10, alignItems: "center" }}>
+          <button
+            disabled={!canSave}
+            onClick={() =>
+              props.onSave({
+                ...draft,
+                id: props.profile?.id ?? `profile:${crypto.randomUUID()}`,
+                name: draft.name.trim(),
+                header: header.map((h) => h.toLowerCase()),
+              })
+            }
+          >
+            Save profile
+          </button>
+          <button onClick={props.onCancel}>Cancel</button>
+          <span style={{ color: "#666", fontSize: 12 }}>
+            {validRows}/{previewRows.length} preview rows parsed.
+          </span>
         </div>
       </div>
   );
 }
 
-/** Line chart showing how category spending changes over time. */
-function CategoryTrends({ monthlyExpenses }: Readonly<{ monthlyExpenses: MonthlyExpense[] }>) {
-  const chart = useMemo(() => buildCategoryTrendsChart(monthlyExpenses, 6), [monthlyExpenses]);
-
-  const categoryKeys = useMemo(
-    () => [
-      "houseAndFurniture",
-      "food",
-      "carAndTransport",
-      "kids",
-      "insurance",
-      "travel",
-      "sportEatFun",
-      "health",
-      "other",
-    ],
-    []
-  );
+/**
+ * Saved bank profiles with their column layout, renaming and deletion. Columns are changed through
+ * “Map columns…” when importing a file with the profile.
+ */
+function BankProfilesPanel(props: Readonly<{
+  profiles: BankProfile[];
+  onChange: (profiles: BankProfile[]) => void;
+}>) {
+  const column = (p: BankProfile, index: number | undefined) =>
+    index !== undefined && index >= 0 ? p.header[index] || `column ${index + 1}` : "—";
+  const cellStyle = { padding: "8px 6px", borderBottom: "1px solid #f3f3f3" };
 
-  const tableRows = useMemo(
-    () => buildCategoryMatrix(monthlyExpenses, categoryKeys),
-    [monthlyExpenses, categoryKeys]
-  );
+  return (
+    <details style={{ marginTop: 20, borderTop: "1px solid #eee", paddingTop: 16 }}>
+      <summary style={{ cursor: "pointer" }}>Bank profiles ({props.profiles.length})</summary>
+      <table style={{ width: "100%", borderCollapse: "collapse", marginTop: 10, fontSize: 14 }}>
+        <tbody>
+          {props.profiles.map((p) => (
+              <tr key={p.id}>
+                <td style={cellStyle}>
+                  <input
+                    value={p.name}
+                    onChange={(e) => props.onChange(props.profiles.map((x) => (x.id === p.id ? { ...x, name: e.target.value } : x)))}
+                    aria-label="Profile name"
+                  />
+                </td>
+                <td style={{ ...cellStyle, color: "#555" }}>
+                  Date <code>{column(p, p.dateColumn)}</code> ({p.dateFormat}) · amount <code>{column(p, p.amountColumn)}</code> (
+                  {p.decimalSeparator === "," ? "1,50" : "1.50"}) · counterparty <code>{column(p, p.counterpartyColumn)}</code>
+                  {" "}· description <code>{column(p, p.descriptionColumn)}</code> · currency{" "}
+                  {(p.currencyColumn ?? -1) >= 0 ? <code>{column(p, p.currencyColumn)}</code> : p.currency ?? "EUR"}
+                </td>
+                <td style={{ ...cellStyle, textAlign: "right" }}>
+                  <button
+                    onClick={() => {
+                      if (window.confirm(`Delete the bank profile “${p.name}”? Files already imported with it stay.`)) {
+                        props.onChange(props.profiles.filter((x) => x.id !== p.id));
+                      }
+                    }}
+                    style={{ padding: "2px 10px" }}
+                  >
+                    Delete
+                  </button>
+                </td>
+              </tr>
+          ))}
+        </tbody>
+      </table>
+      <div style={{ marginTop: 8, color: "#666", fontSize: 12 }}>
+        To change a profile's columns, import a file with “Map columns manually…”, pick the profile and use “Map columns…”.
+      </div>
+    </details>
+  );
+}
 
-  const columnLabels: Record<string, string> = useMemo(
-    () => ({
-      houseAndFurniture: "houseAndFurniture",
-      food: "food",
-      carAndTransport: "carAndTransport",
-      kids: "kids",
-      insurance: "insurance",
-      travel: "travel",
-      sportEatFun: "sportEatFun",
-      health: "health",
-      other: "other",
-    }),
-    []
+/** Presentational wrapper for the monthly expenses bar chart. */
+function MonthlyBarChart(
+  { monthlyExpenses, history, averageMonthExpenses, budgetForMonth, forecast, currency }: Readonly<{
+    monthlyExpenses: MonthlyExpense[];
+    /** All months, so rolling averages at the start of the period include earlier months. */
+    history?: MonthlyExpense[];
+    averageMonthExpenses?: number;
+    budgetForMonth?: (month: string, expenses: MonthlyExpense | undefined) => MonthBudget | null;
+    forecast?: ForecastPoint[];
+    currency: string;
+  }>
+) {
+  const [rollingWindow, setRollingWindow] = useState(0);
+  const rolling = useMemo(
+    () =>
+      rollingWindow
+        ? { window: rollingWindow, values: rollingAverageByMonth(history ?? monthlyExpenses, rollingWindow) }
+        : undefined,
+    [rollingWindow, history, monthlyExpenses]
+  );
+  const chart = useMemo(
+    () => buildMonthlyBarChart(monthlyExpenses, averageMonthExpenses, budgetForMonth, currency, rolling, forecast),
+    [monthlyExpenses, averageMonthExpenses, budgetForMonth, currency, rolling, forecast]
+  );
+  return (
+      <div style={{ border: "1px solid #eee", borderRadius: 8, padding: 12, marginTop: 12 }}>
+        <Chart type="bar" data={chart.data} options={chart.options} />
+        <label style={{ display: "block", marginTop: 6, color: "#555", fontSize: 13 }}>
+          Rolling average:{" "}
+          <select value={rollingWindow} onChange={(e) => setRollingWindow(Number(e.target.value))}>
+            <option value={0}>None</option>
+            {ROLLING_AVERAGE_WINDOWS.map((w) => (
+                <option key={w} value={w}>
+                  {w} months
+                </option>
+            ))}
+          </select>
+        </label>
+      </div>
   );
+}
 
-  const avgRow = useMemo(() => {
-    const n = tableRows.length;
+/** End-of-month projection and the per-category forecast table; the horizon also drives the chart extensions. */
+function ForecastPanel(props: Readonly<{
+  forecast: SpendingForecast | null;
+  horizon: number;
+  onHorizonChange: (horizon: number) => void;
+  taxonomy: CategoryTaxonomy;
+  currency: string;
+}>) {
+  const { forecast, taxonomy, currency } = props;
+  const rows = useMemo(
+    () =>
+      Object.entries(forecast ? rollUpForecast(forecast.categories, taxonomy) : {}).sort(
+        (a, b) => b[1].reduce((acc, p) => acc + p.value, 0) - a[1].reduce((acc, p) => acc + p.value, 0)
+      ),
+    [forecast, taxonomy]
+  );
 
-    const sums: Record<string, number> = {};
-    const avgValues: Record<string, number> = {};
+  const cellStyle = { padding: "6px", borderBottom: "1px solid #f3f3f3", whiteSpace: "nowrap" as const };
+  const headStyle = { ...cellStyle, borderBottom: "1px solid #eee" };
+  const range = (p: ForecastPoint) =>
+    `${formatMoney(Math.max(0, p.value - p.spread), currency)} – ${formatMoney(p.value + p.spread, currency)}`;
 
-    for (const k of categoryKeys) {
-      sums[k] = 0;
-    }
+  return (
+    <div style={{ marginTop: 24, borderTop: "1px solid #eee", paddingTop: 16 }}>
+      <div style={{ display: "flex", gap: 12, alignItems: "center", flexWrap: "wrap", marginBottom: 12 }}>
+        <h2 style={{ margin: 0 }}>Forecast</h2>
+        <label style={{ color: "#555" }}>
+          Horizon:{" "}
+          <select value={props.horizon} onChange={(e) => props.onHorizonChange(Number(e.target.value))}>
+            <option value={0}>Off</option>
+            {FORECAST_HORIZONS.map((h) => (
+                <option key={h} value={h}>
+                  {h} months
+                </option>
+            ))}
+          </select>
+        </label>
+      </div>
 
-    let sumTotal = 0;
+      {!forecast ? (
+          <div style={{ color: "#666" }}>
+            {props.horizon
+              ? `A forecast needs at least ${FORECAST_MIN_HISTORY} complete months of history.`
+              : "Pick a horizon to forecast the coming months."}
+          </div>
+      ) : (
+          <>
+            {forecast.current && (
+                <div style={{ marginBottom: 12 }}>
+                  <strong>{formatMonthLabel(forecast.current.month)}:</strong>{" "}
+                  {formatMoney(forecast.current.spentSoFar, currency)} spent up to {forecast.asOf}, projected{" "}
+                  <strong>{formatMoney(forecast.current.projected.value, currency)}</strong> by the end of the month (
+                  {range(forecast.current.projected)}
+                  {forecast.current.recurringDue > 0 &&
+                    `, including ${formatMoney(forecast.current.recurringDue, currency)} of subscriptions still due`}
+                  ).
+                </div>
+            )}
+            <div style={{ overflowX: "auto" }}>
+              <table style={{ width: "100%", borderCollapse: "collapse", fontSize: 14 }}>
+                <thead>
+                  <tr>
+                    <th style={{ ...headStyle, textAlign: "left" }}>Category</th>
+                    {forecast.total.map((p) => (
+                        <th key={p.month} style={{ ...headStyle, textAlign: "right" }}>
+                          {formatMonthShort(p.month)}
+                        </th>
+                    ))}
+                  </tr>
+                </thead>
+                <tbody>
+                  {[...rows, ["", forecast.total] as const].map(([key, points]) => (
+                      <tr key={key || "total"} style={key ? undefined : { fontWeight: 600 }}>
+                        <td style={{ ...cellStyle, whiteSpace: "normal" }}>{key ? categoryLabel(key, taxonomy) : "Total"}</td>
+                        {points.map((p) => (
+                            <td key={p.month} title={range(p)} style={{ ...cellStyle, textAlign: "right" }}>
+                              {formatMoney(p.value, currency)}
+                            </td>
+                        ))}
+                      </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+            <div style={{ marginTop: 8, color: "#666", fontSize: 12 }}>
+              Subscriptions are placed on their predicted charge dates; other spend uses the average of the last{" "}
+              {FORECAST_HISTORY_MONTHS} complete months. Ranges cover about 80% of past variation.
+            </div>
+          </>
+      )}
+    </div>
+  );
+}
 
-    for (const row of tableRows) {
-      for (const k of categoryKeys) {
-        sums[k] += row.values[k] ?? 0;
-      }
-      sumTotal += row.sum ?? 0;
-    }
+/** Income vs expenses per month with net savings and savings rate, plus income per source. */
+function CashFlowChart(
+  { monthlyExpenses, monthlyIncome, currency }: Readonly<{
+    monthlyExpenses: MonthlyExpense[];
+    monthlyIncome: MonthlyIncome[];
+    currency: string;
+  }>
+) {
+  const cashFlow = useMemo(() => computeCashFlow(monthlyExpenses, monthlyIncome), [monthlyExpenses, monthlyIncome]);
+  const chart = useMemo(() => buildCashFlowChart(cashFlow.rows, currency), [cashFlow, currency]);
+  const sources = useMemo(() => computeIncomeSources(monthlyIncome), [monthlyIncome]);
+  const { total } = cashFlow;
 
-    for (const k of categoryKeys) {
-      avgValues[k] = n ? sums[k] / n : 0;
-    }
+  return (
+      <div style={{ border: "1px solid #eee", borderRadius: 8, padding: 12, marginTop: 12 }}>
+        <Chart type="bar" data={chart.data} options={chart.options} />
 
-    return {
-      label: "Average",
-      values: avgValues,
-      sum: n ? sumTotal / n : 0,
-    };
-  }, [tableRows, categoryKeys]);
+        <div style={{ marginTop: 8, color: "#555", display: "flex", gap: 16, flexWrap: "wrap" }}>
+          <span><strong>Income:</strong> {formatMoney(total.income, currency)}</span>
+          <span><strong>Expenses:</strong> {formatMoney(total.expenses, currency)}</span>
+          <span style={{ color: total.net < 0 ? "#c62828" : undefined }}>
+            <strong>Net savings:</strong> {formatMoney(total.net, currency)}
+          </span>
+          <span>
+            <strong>Savings rate:</strong> {total.savingsRate === null ? "—" : `${total.savingsRate.toFixed(1)}%`}
+          </span>
+        </div>
+
+        {sources.length > 0 && (
+            <details style={{ marginTop: 8 }}>
+              <summary style={{ cursor: "pointer", color: "#555" }}>Income by source</summary>
+              <table style={{ width: "100%", borderCollapse: "collapse", marginTop: 8, fontSize: 14 }}>
+                <thead>
+                  <tr>
+                    <th style={{ textAlign: "left", borderBottom: "1px solid #eee", padding: "6px" }}>Source</th>
+                    <th style={{ textAlign: "right", borderBottom: "1px solid #eee", padding: "6px" }}>Months</th>
+                    <th style={{ textAlign: "right", borderBottom: "1px solid #eee", padding: "6px" }}>Total</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {sources.map((s) => (
+                      <tr key={s.source}>
+                        <td style={{ padding: "6px", borderBottom: "1px solid #f3f3f3" }}>{s.source}</td>
+                        <td style={{ padding: "6px", borderBottom: "1px solid #f3f3f3", textAlign: "right" }}>{s.months}</td>
+                        <td style={{ padding: "6px", borderBottom: "1px solid #f3f3f3", textAlign: "right" }}>
+                          {formatMoney(s.amount, currency)}
+                        </td>
+                      </tr>
+                  ))}
+                </tbody>
+              </table>
+            </details>
+        )}
+      </div>
+  );
+}
+
+/** Preset, anchor and custom-range controls for one reporting period. */
+function PeriodPicker(props: Readonly<{
+  value: PeriodSelection;
+  months: string[];
+  onChange: (next: PeriodSelection) => void;
+}>) {
+  const { value } = props;
+  const anchor = normalizePeriodAnchor(value.preset, value.anchor || (props.months[props.months.length - 1] ?? ""));
+  const options = periodAnchorOptions(value.preset, props.months, anchor);
+
+  return (
+      <span style={{ display: "inline-flex", gap: 8, alignItems: "center", flexWrap: "wrap" }}>
+        <select
+          value={value.preset}
+          onChange={(e) => {
+            const preset = e.target.value as PeriodPreset;
+            props.onChange({ ...value, preset, anchor: normalizePeriodAnchor(preset, anchor) });
+          }}
+        >
+          {PERIOD_PRESETS.map((p) => (
+              <option key={p.value} value={p.value}>
+                {p.label}
+              </option>
+          ))}
+        </select>
+
+        {value.preset !== "all" && value.preset !== "custom" && (
+            <select value={anchor} onChange={(e) => props.onChange({ ...value, anchor: e.target.value })}>
+              {options.map((o) => (
+                  <option key={o.value} value={o.value}>
+                    {o.label}
+                  </option>
+              ))}
+            </select>
+        )}
+
+        {value.preset === "custom" && (
+            <>
+              <input type="date" value={value.from} onChange={(e) => props.onChange({ ...value, from: e.target.value })} />
+              –
+              <input type="date" value={value.to} onChange={(e) => props.onChange({ ...value, to: e.target.value })} />
+            </>
+        )}
+      </span>
+  );
+}
+
+/**
+ * Month-over-month and year-over-year change for the total and every category, plus the
+ * categories that moved the most. Works on the whole history so the comparisons reach outside the period.
+ */
+function ChangeAnalysis(props: Readonly<{
+  history: MonthlyExpense[];
+  defaultMonth: string;
+  taxonomy: CategoryTaxonomy;
+  currency: string;
+}>) {
+  const { history, taxonomy, currency } = props;
+  const [pickedMonth, setPickedMonth] = useState<string | null>(null);
+  const [level, setLevel] = useState<"top" | "sub">("top");
+  const [basis, setBasis] = useState<"mom" | "yoy">("mom");
+
+  const months = useMemo(() => history.map((m) => m.month).sort((a, b) => b.localeCompare(a)), [history]);
+  // Follow the period picker until a month is picked here.
+  const month = pickedMonth && months.includes(pickedMonth) ? pickedMonth : props.defaultMonth;
+
+  const changes = useMemo(() => {
+    const levelExpenses = level === "top" ? rollUpMonthlyExpenses(history, taxonomy) : history;
+    return computeMonthChanges(levelExpenses, month, orderedCategoryKeys(taxonomy, levelExpenses, level));
+  }, [history, taxonomy, level, month]);
+  const movers = useMemo(() => findBiggestMovers(changes.rows, basis), [changes, basis]);
+
+  const cellStyle = { padding: "6px", borderBottom: "1px solid #f3f3f3", whiteSpace: "nowrap" as const };
+  const headStyle = { ...cellStyle, borderBottom: "1px solid #eee" };
+  const amount = (v: number | null) => (v === null ? "—" : formatMoney(v, currency));
+  const basisLabel = basis === "mom" ? "previous month" : "same month last year";
+
+  function moverList(title: string, rows: MonthChangeRow[]) {
+    return (
+        <div style={{ flex: "1 1 240px" }}>
+          <div style={{ fontWeight: 600, color: "#555", marginBottom: 4 }}>{title}</div>
+          {rows.length ? (
+              <ol style={{ margin: 0, paddingLeft: 20 }}>
+                {rows.map((r) => (
+                    <li key={r.category}>
+                      {categoryLabel(r.category, taxonomy)}:{" "}
+                      <span style={{ color: (r[basis]?.delta ?? 0) > 0 ? "#b71c1c" : "#2e7d32" }}>
+                        {(r[basis]?.delta ?? 0) > 0 ? "+" : ""}
+                        {formatMoney(r[basis]?.delta ?? 0, currency)}
+                      </span>
+                    </li>
+                ))}
+              </ol>
+          ) : (
+              <div style={{ color: "#888" }}>None</div>
+          )}
+        </div>
+    );
+  }
+
+  if (!month) return null;
+
+  return (
+    <div style={{ marginTop: 24, borderTop: "1px solid #eee", paddingTop: 16 }}>
+      <h2 style={{ margin: "0 0 12px" }}>Change analysis</h2>
+
+      <div style={{ display: "flex", gap: 12, alignItems: "center", flexWrap: "wrap" }}>
+        <label>
+          Month:{" "}
+          <select value={month} onChange={(e) => setPickedMonth(e.target.value)}>
+            {months.map((m) => (
+                <option key={m} value={m}>
+                  {formatMonthLabel(m)}
+                </option>
+            ))}
+          </select>
+        </label>
+        <label>
+          Level:{" "}
+          <select value={level} onChange={(e) => setLevel(e.target.value as "top" | "sub")}>
+            <option value="top">Categories</option>
+            <option value="sub">Subcategories</option>
+          </select>
+        </label>
+        <label>
+          Movers vs:{" "}
+          <select value={basis} onChange={(e) => setBasis(e.target.value as "mom" | "yoy")}>
+            <option value="mom">Previous month</option>
+            <option value="yoy">Same month last year</option>
+          </select>
+        </label>
+      </div>
+
+      <div style={{ display: "flex", gap: 24, flexWrap: "wrap", marginTop: 12 }}>
+        {moverList(`Grew the most vs ${basisLabel}`, movers.up)}
+        {moverList(`Shrank the most vs ${basisLabel}`, movers.down)}
+      </div>
+
+      <div style={{ overflowX: "auto", marginTop: 12 }}>
+        <table style={{ width: "100%", borderCollapse: "collapse", fontSize: 14 }}>
+          <thead>
+            <tr>
+              <th style={{ ...headStyle, textAlign: "left" }}>Category</th>
+              <th style={{ ...headStyle, textAlign: "right" }}>{formatMonthLabel(month)}</th>
+              <th style={{ ...headStyle, textAlign: "right" }}>Previous month</th>
+              <th style={{ ...headStyle, textAlign: "right" }}>MoM</th>
+              <th style={{ ...headStyle, textAlign: "right" }}>%</th>
+              <th style={{ ...headStyle, textAlign: "right" }}>Last year</th>
+              <th style={{ ...headStyle, textAlign: "right" }}>YoY</th>
+              <th style={{ ...headStyle, textAlign: "right" }}>%</th>
+            </tr>
+          </thead>
+          <tbody>
+            {[...changes.rows, changes.total].map((r) => (
+                <tr key={r.category || "total"} style={r.category ? undefined : { fontWeight: 600 }}>
+                  <td style={{ ...cellStyle, whiteSpace: "normal" }}>{r.category ? categoryLabel(r.category, taxonomy) : "Total"}</td>
+                  <td style={{ ...cellStyle, textAlign: "right" }}>{amount(r.current)}</td>
+                  <td style={{ ...cellStyle, textAlign: "right" }}>{amount(r.previousMonth)}</td>
+                  <ChangeCells change={r.mom} currency={currency} cellStyle={cellStyle} />
+                  <td style={{ ...cellStyle, textAlign: "right" }}>{amount(r.lastYear)}</td>
+                  <ChangeCells change={r.yoy} currency={currency} cellStyle={cellStyle} />
+                </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+}
+
+/** Two table cells with an absolute and percentage change; red when spend grew, green when it shrank. */
+function ChangeCells(props: Readonly<{
+  change: AmountChange | null;
+  currency: string;
+  cellStyle: CSSProperties;
+  /** For income: growth is shown green. */
+  higherIsBetter?: boolean;
+}>) {
+  const { change, cellStyle } = props;
+  if (!change) {
+    return (
+        <>
+          <td style={{ ...cellStyle, textAlign: "right", color: "#aaa" }}>—</td>
+          <td style={{ ...cellStyle, textAlign: "right", color: "#aaa" }}>—</td>
+        </>
+    );
+  }
+  const { delta, percent } = change;
+  const color = delta === 0 ? undefined : (delta > 0) !== !!props.higherIsBetter ? "#b71c1c" : "#2e7d32";
+  const sign = delta > 0 ? "+" : "";
+  return (
+      <>
+        <td style={{ ...cellStyle, textAlign: "right", color }}>
+          {sign}
+          {formatMoney(delta, props.currency)}
+        </td>
+        <td style={{ ...cellStyle, textAlign: "right", color }}>
+          {percent === null ? "—" : `${sign}${percent.toFixed(1)}%`}
+        </td>
+      </>
+  );
+}
+
+/** Two periods side by side: spend per category with absolute and percentage change. */
+function PeriodComparison(props: Readonly<{
+  a: { label: string; result: AnalysisResult };
+  b: { label: string; result: AnalysisResult };
+  taxonomy: CategoryTaxonomy;
+  currency: string;
+}>) {
+  const { a, b, taxonomy, currency } = props;
+  const [level, setLevel] = useState<"top" | "sub">("top");
+
+  const rows = useMemo(() => {
+    const expensesA = level === "top" ? rollUpMonthlyExpenses(a.result.monthlyExpenses, taxonomy) : a.result.monthlyExpenses;
+    const expensesB = level === "top" ? rollUpMonthlyExpenses(b.result.monthlyExpenses, taxonomy) : b.result.monthlyExpenses;
+    const keys = orderedCategoryKeys(taxonomy, [...expensesA, ...expensesB], level);
+    return comparePeriodCategories(expensesA, expensesB, keys);
+  }, [a.result, b.result, taxonomy, level]);
+
+  const chart = useMemo(
+    () => buildPeriodComparisonChart(rows, { a: a.label, b: b.label }, (key) => categoryLabel(key, taxonomy), currency),
+    [rows, a.label, b.label, taxonomy, currency]
+  );
+
+  const sum = (values: number[]) => values.reduce((acc, v) => acc + v, 0);
+  const totals = [
+    { label: "Total expenses", expense: true, a: a.result.monthlyExpenses, b: b.result.monthlyExpenses },
+    { label: "Income", expense: false, a: a.result.monthlyIncome, b: b.result.monthlyIncome },
+  ].map((t) => {
+    const valueA = sum(t.a.map((m) => m.sum));
+    const valueB = sum(t.b.map((m) => m.sum));
+    return { label: t.label, expense: t.expense, a: valueA, b: valueB, ...periodDelta(valueA, valueB) };
+  });
+
+  const cellStyle = { padding: "6px", borderBottom: "1px solid #f3f3f3", whiteSpace: "nowrap" as const };
+
+  return (
+    <div style={{ marginTop: 24, borderTop: "1px solid #eee", paddingTop: 16 }}>
+      <h2 style={{ margin: "0 0 12px" }}>
+        Compare: {a.label} vs {b.label}
+      </h2>
+      <label>
+        Level:{" "}
+        <select value={level} onChange={(e) => setLevel(e.target.value as "top" | "sub")}>
+          <option value="top">Categories</option>
+          <option value="sub">Subcategories</option>
+        </select>
+      </label>
+
+      {rows.length > 0 && (
+          <div style={{ border: "1px solid #eee", borderRadius: 8, padding: 12, marginTop: 12 }}>
+            <Chart type="bar" data={chart.data} options={chart.options} />
+          </div>
+      )}
+
+      <div style={{ overflowX: "auto", marginTop: 12 }}>
+        <table style={{ width: "100%", borderCollapse: "collapse", fontSize: 14 }}>
+          <thead>
+            <tr>
+              <th style={{ ...cellStyle, textAlign: "left", borderBottom: "1px solid #eee" }}>Category</th>
+              <th style={{ ...cellStyle, textAlign: "right", borderBottom: "1px solid #eee" }}>{a.label}</th>
+              <th style={{ ...cellStyle, textAlign: "right", borderBottom: "1px solid #eee" }}>{b.label}</th>
+              <th style={{ ...cellStyle, textAlign: "right", borderBottom: "1px solid #eee" }}>Change</th>
+              <th style={{ ...cellStyle, textAlign: "right", borderBottom: "1px solid #eee" }}>%</th>
+            </tr>
+          </thead>
+          <tbody>
+            {rows.map((r) => (
+                <tr key={r.category}>
+                  <td style={{ ...cellStyle, whiteSpace: "normal" }}>{categoryLabel(r.category, taxonomy)}</td>
+                  <td style={{ ...cellStyle, textAlign: "right" }}>{formatMoney(r.a, currency)}</td>
+                  <td style={{ ...cellStyle, textAlign: "right" }}>{formatMoney(r.b, currency)}</td>
+                  <ChangeCells change={r} currency={currency} cellStyle={cellStyle} />
+                </tr>
+            ))}
+            {totals.map((t) => (
+                <tr key={t.label} style={{ fontWeight: 600 }}>
+                  <td style={cellStyle}>{t.label}</td>
+                  <td style={{ ...cellStyle, textAlign: "right" }}>{formatMoney(t.a, currency)}</td>
+                  <td style={{ ...cellStyle, textAlign: "right" }}>{formatMoney(t.b, currency)}</td>
+                  <ChangeCells change={t} currency={currency} cellStyle={cellStyle} higherIsBetter={!t.expense} />
+                </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+}
+
+/** Pie chart and percentages for the selected period, with drill-down into subcategories. */
+function CategoryBreakdown(props: Readonly<{
+  monthlyExpenses: MonthlyExpense[];
+  taxonomy: CategoryTaxonomy;
+  periodLabel: string;
+  currency: string;
+}>) {
+  const { taxonomy, currency } = props;
+  const [drillParent, setDrillParent] = useState<string | null>(null);
+  // Drop the drill-down when the parent lost its children (e.g. after a merge).
+  const activeParent = drillParent && childCategories(drillParent, taxonomy).length ? drillParent : null;
+
+  // Top level rolls subcategories into their parent; drilling in shows a parent and its children.
+  const viewExpenses = useMemo(
+    () =>
+      activeParent
+        ? restrictToCategoryFamily(props.monthlyExpenses, activeParent, taxonomy)
+        : rollUpMonthlyExpenses(props.monthlyExpenses, taxonomy),
+    [props.monthlyExpenses, activeParent, taxonomy]
+  );
+  const labelFor = useCallback(
+    (key: string) =>
+      key === activeParent ? `${categoryLabel(key, taxonomy)} (general)` : categoryLabel(key, taxonomy),
+    [activeParent, taxonomy]
+  );
+  const categoryColors = useMemo(
+    () => buildCategoryColorMap(props.monthlyExpenses, taxonomy),
+    [props.monthlyExpenses, taxonomy]
+  );
+
+  const pie = useMemo(
+      () =>
+          buildCategoryPieChart({
+            monthlyExpenses: viewExpenses,
+            periodLabel: props.periodLabel,
+            labelFor,
+            colors: categoryColors,
+            titleSuffix: activeParent ? ` — ${categoryLabel(activeParent, taxonomy)}` : "",
+            currency,
+          }),
+      [viewExpenses, props.periodLabel, labelFor, categoryColors, activeParent, taxonomy, currency]
+  );
+  const rows = useMemo(
+    () => computePeriodCategoryPercentages(viewExpenses),
+    [viewExpenses]
+  );
+
+  function drillInto(key: string) {
+    if (!activeParent && childCategories(key, taxonomy).length) setDrillParent(key);
+  }
+
+  return (
+      <div style={{ marginTop: 24, borderTop: "1px solid #eee", paddingTop: 16 }}>
+        <h2 style={{ margin: "0 0 12px" }}>Category breakdown</h2>
+
+        {activeParent && (
+            <button onClick={() => setDrillParent(null)} style={{ padding: "4px 10px" }}>
+              ← All categories
+            </button>
+        )}
+
+        <div style={{ marginTop: 12 }}>
+          {pie ? (
+            <div style={{ border: "1px solid #eee", borderRadius: 8, padding: 12 }}>
+              <Pie
+                data={pie.data}
+                options={{
+                  ...pie.options,
+                  onClick: (_event: unknown, elements: { index: number }[]) => {
+                    const key = elements[0] ? pie.keys[elements[0].index] : undefined;
+                    if (key) drillInto(key);
+                  },
+                }}
+              />
+              {!activeParent && (
+                  <div style={{ marginTop: 6, color: "#666", fontSize: 12 }}>
+                    Click a category with subcategories to drill down.
+                  </div>
+              )}
+            </div>
+          ) : (
+            <div>No category data found for this selection.</div>
+          )}
+
+          {rows.length > 0 && (
+            <div style={{ marginTop: 12 }}>
+              <div style={{ color: "#555", fontWeight: 600, marginBottom: 6 }}>
+                Percentages for {props.periodLabel}
+              </div>
+              <div style={{ overflowX: "auto" }}>
+                <table style={{ width: "100%", borderCollapse: "collapse" }}>
+                  <thead>
+                    <tr>
+                      <th style={{ textAlign: "left", borderBottom: "1px solid #eee", padding: "8px 6px" }}>
+                        Category
+                      </th>
+                      <th style={{ textAlign: "right", borderBottom: "1px solid #eee", padding: "8px 6px", whiteSpace: "nowrap" }}>
+                        Total
+                      </th>
+                      <th style={{ textAlign: "right", borderBottom: "1px solid #eee", padding: "8px 6px", whiteSpace: "nowrap" }}>
+                        %
+                      </th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {rows.map((r) => (
+                      <tr key={r.category}>
+                        <td style={{ padding: "8px 6px", borderBottom: "1px solid #f3f3f3" }}>
+                          <span
+                            onClick={() => drillInto(r.category)}
+                            style={{
+                              color: categoryColors[r.category] ?? "#555",
+                              fontWeight: 600,
+                              cursor: !activeParent && childCategories(r.category, taxonomy).length ? "pointer" : undefined,
+                            }}
+                          >
+                            {labelFor(r.category)}
+                            {!activeParent && childCategories(r.category, taxonomy).length > 0 && " ▸"}
+                          </span>
+                        </td>
+                        <td style={{ padding: "8px 6px", borderBottom: "1px solid #f3f3f3", textAlign: "right" }}>
+                          {formatMoney(r.total, currency)}
+                        </td>
+                        <td style={{ padding: "8px 6px", borderBottom: "1px solid #f3f3f3", textAlign: "right" }}>
+                          {r.percent.toFixed(1)}%
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            </div>
+          )}
+        </div>
+      </div>
+  );
+}
+
+/** Line chart showing how category spending changes over time. */
+function CategoryTrends(
+  { monthlyExpenses, taxonomy, budgets, forecast, currency }: Readonly<{
+    monthlyExpenses: MonthlyExpense[];
+    taxonomy: CategoryTaxonomy;
+    budgets: Budgets;
+    /** Forecast per subcategory, rolled up here for the "top" level. */
+    forecast?: Record<string, ForecastPoint[]>;
+    currency: string;
+  }>
+) {
+  const [level, setLevel] = useState<"top" | "sub">("top");
+  const levelExpenses = useMemo(
+    () => (level === "top" ? rollUpMonthlyExpenses(monthlyExpenses, taxonomy) : monthlyExpenses),
+    [level, monthlyExpenses, taxonomy]
+  );
+  const levelForecast = useMemo(
+    () => (forecast && level === "top" ? rollUpForecast(forecast, taxonomy) : forecast),
+    [level, forecast, taxonomy]
+  );
+
+  // A column shows a category's own spend at the "sub" level, so parent budgets only apply at the "top" level.
+  const columnBudget = useCallback(
+    (key: string, month: string) =>
+      level === "top" || !childCategories(key, taxonomy).length ? budgetFor(budgets, key, month) : null,
+    [level, budgets, taxonomy]
+  );
+
+  const chart = useMemo(
+    () =>
+      buildCategoryTrendsChart(levelExpenses, 6, (key) => categoryLabel(key, taxonomy), columnBudget, currency, levelForecast),
+    [levelExpenses, taxonomy, columnBudget, currency, levelForecast]
+  );
+
+  const categoryKeys = useMemo(
+    () => orderedCategoryKeys(taxonomy, levelExpenses, level),
+    [taxonomy, levelExpenses, level]
+  );
+
+  const tableRows = useMemo(
+    () => buildCategoryMatrix(levelExpenses, categoryKeys),
+    [levelExpenses, categoryKeys]
+  );
+
+  const columnLabels: Record<string, string> = useMemo(
+    () => Object.fromEntries(categoryKeys.map((k) => [k, categoryLabel(k, taxonomy)])),
+    [categoryKeys, taxonomy]
+  );
+
+  const avgRow = useMemo(
+    () => averageCategoryMatrixRow(tableRows, categoryKeys),
+    [tableRows, categoryKeys]
+  );
 
   return (
     <div style={{ marginTop: 24, borderTop: "1px solid #eee", paddingTop: 16 }}>
@@ -801,7 +1736,16 @@ function CategoryTrends({ monthlyExpenses }: Readonly<{ monthlyExpenses: Monthly
       </div>
 
       <div style={{ marginTop: 12 }}>
-        <h2 style={{ margin: "0 0 12px" }}>Monthly category totals</h2>
+        <div style={{ display: "flex", gap: 12, alignItems: "center", flexWrap: "wrap", marginBottom: 12 }}>
+          <h2 style={{ margin: 0 }}>Monthly category totals</h2>
+          <label style={{ color: "#555" }}>
+            Level:{" "}
+            <select value={level} onChange={(e) => setLevel(e.target.value as "top" | "sub")}>
+              <option value="top">Categories</option>
+              <option value="sub">Subcategories</option>
+            </select>
+          </label>
+        </div>
 
         <div style={{ overflowX: "auto" }}>
           <table
@@ -837,16 +1781,27 @@ function CategoryTrends({ monthlyExpenses }: Readonly<{ monthlyExpenses: Monthly
                   <td style={{ padding: "8px 6px", borderBottom: "1px solid #f3f3f3", whiteSpace: "nowrap" }}>
                     {r.label}
                   </td>
-                  {categoryKeys.map((k) => (
-                    <td
-                      key={k}
-                      style={{ padding: "8px 6px", borderBottom: "1px solid #f3f3f3", textAlign: "right", whiteSpace: "nowrap" }}
-                    >
-                      {"€\u00A0"}{(r.values[k] ?? 0).toFixed(2)}
-                    </td>
-                  ))}
+                  {categoryKeys.map((k) => {
+                    const budget = columnBudget(k, r.month);
+                    const over = budget !== null && (r.values[k] ?? 0) > budget;
+                    return (
+                      <td
+                        key={k}
+                        title={budget !== null ? `Budget ${formatMoney(budget, currency)}` : undefined}
+                        style={{
+                          padding: "8px 6px",
+                          borderBottom: "1px solid #f3f3f3",
+                          textAlign: "right",
+                          whiteSpace: "nowrap",
+                          ...(over ? { background: "rgba(220, 53, 69, 0.12)", color: "#c62828", fontWeight: 600 } : {}),
+                        }}
+                      >
+                        {formatMoney((r.values[k] ?? 0), currency)}
+                      </td>
+                    );
+                  })}
                   <td style={{ padding: "8px 6px", borderBottom: "1px solid #f3f3f3", textAlign: "right", whiteSpace: "nowrap" }}>
-                    {"€\u00A0"}{r.sum.toFixed(2)}
+                    {formatMoney(r.sum, currency)}
                   </td>
                 </tr>
               ))}
@@ -872,7 +1827,7 @@ function CategoryTrends({ monthlyExpenses }: Readonly<{ monthlyExpenses: Monthly
                       fontWeight: 700,
                     }}
                   >
-                    {"€\u00A0"}{(avgRow.values[k] ?? 0).toFixed(2)}
+                    {formatMoney((avgRow.values[k] ?? 0), currency)}
                   </td>
                 ))}
                 <td
@@ -884,7 +1839,7 @@ function CategoryTrends({ monthlyExpenses }: Readonly<{ monthlyExpenses: Monthly
                     fontWeight: 700,
                   }}
                 >
-                  {"€\u00A0"}{avgRow.sum.toFixed(2)}
+                  {formatMoney(avgRow.sum, currency)}
                 </td>
               </tr>
             </tbody>
@@ -895,29 +1850,248 @@ function CategoryTrends({ monthlyExpenses }: Readonly<{ monthlyExpenses: Monthly
   );
 }
 
-/** Table showing the most recurring transactions (by merchant/name) across the analyzed period. */
-function TopRecurringTransactions({ monthlyExpenses }: Readonly<{ monthlyExpenses: MonthlyExpense[] }>) {
+/**
+ * Ranked spend per canonical merchant over the selected period with visit frequency and average
+ * ticket. Picking a merchant opens its monthly history and transactions over all months.
+ */
+function TopMerchantsPanel(props: Readonly<{
+  /** Expenses of the selected period, for the ranking. */
+  monthlyExpenses: MonthlyExpense[];
+  /** Expenses of every month, for the merchant's history. */
+  history: MonthlyExpense[];
+  /** Transactions of every month, for the merchant's transaction list. */
+  historyTransactions: Transaction[];
+  range: DateRange;
+  taxonomy: CategoryTaxonomy;
+  currency: string;
+  onShowInLedger: (focus: Omit<LedgerFocus, "nonce">) => void;
+}>) {
+  const { taxonomy, currency } = props;
   const [limit, setLimit] = useState<number>(10);
-  const rawRows = useMemo(
-    () => computeTopRecurringTransactions(monthlyExpenses, limit),
-    [monthlyExpenses, limit]
+  const [selected, setSelected] = useState<string | null>(null);
+  const rows = useMemo(() => computeMerchantTotals(props.monthlyExpenses).slice(0, limit), [props.monthlyExpenses, limit]);
+  const categoryColors = useMemo(
+    () => buildCategoryColorMap(props.monthlyExpenses, taxonomy),
+    [props.monthlyExpenses, taxonomy]
   );
-  const [sortKey, setSortKey] = useState<"name" | "category" | "avgAmount" | "totalAmount" | "count">("count");
-  const [sortDir, setSortDir] = useState<"asc" | "desc">("desc");
+  const chart = useMemo(() => buildTopMerchantsChart(rows, categoryColors, currency), [rows, categoryColors, currency]);
+  // Visits per month are spread over every month of the period, also those without expenses.
+  const months = monthsInRange(props.range);
 
-  const rows = useMemo(() => {
-    const sorted = [...rawRows];
-    sorted.sort((a, b) => {
-      const dir = sortDir === "asc" ? 1 : -1;
-      switch (sortKey) {
-        case "name":
-          return dir * a.name.localeCompare(b.name);
-        case "category":
-          return dir * (a.category || "").localeCompare(b.category || "");
-        case "avgAmount":
-          return dir * (a.avgAmount - b.avgAmount);
-        case "totalAmount":
-          return dir * (a.totalAmount - b.totalAmount);
+  const history = useMemo(
+    () => (selected ? computeMerchantHistory(props.history, selected) : []),
+    [props.history, selected]
+  );
+  const historyChart = useMemo(
+    () => buildMerchantHistoryChart(history, props.range, currency),
+    [history, props.range, currency]
+  );
+  // Parts of a split transaction are listed as the one transaction they were booked as.
+  const merchantTransactions = useMemo(
+    () =>
+      selected
+        ? groupSplitParts(
+            props.historyTransactions.filter((t) => merchantName(t) === selected).sort((a, b) => b.date.localeCompare(a.date))
+          )
+        : [],
+    [props.historyTransactions, selected]
+  );
+
+  const cellStyle = { padding: "6px", borderBottom: "1px solid #f3f3f3", whiteSpace: "nowrap" as const };
+  const headStyle = { ...cellStyle, borderBottom: "1px solid #eee" };
+
+  if (selected) {
+    const total = history.reduce((acc, m) => acc + m.amount, 0);
+    const visits = history.reduce((acc, m) => acc + m.count, 0);
+    const activeMonths = history.filter((m) => m.count > 0).length;
+    return (
+      <div style={{ marginTop: 24, borderTop: "1px solid #eee", paddingTop: 16 }}>
+        <div style={{ display: "flex", gap: 12, alignItems: "center", flexWrap: "wrap", marginBottom: 12 }}>
+          <button onClick={() => setSelected(null)} style={{ padding: "2px 10px" }}>
+            ← All merchants
+          </button>
+          <h2 style={{ margin: 0 }}>{selected}</h2>
+          <button
+            onClick={() => props.onShowInLedger({ filters: { search: selected }, highlightIds: [] })}
+            style={{ padding: "2px 10px" }}
+          >
+            Show in ledger
+          </button>
+        </div>
+
+        <div style={{ marginBottom: 8, color: "#555", display: "flex", gap: 16, flexWrap: "wrap" }}>
+          <span><strong>Total:</strong> {formatMoney(total, currency)}</span>
+          <span><strong>Visits:</strong> {visits}</span>
+          <span>
+            <strong>Average ticket:</strong> {visits ? formatMoney(total / visits, currency) : "—"}
+          </span>
+          <span>
+            <strong>Active months:</strong> {activeMonths} of {history.length}
+          </span>
+        </div>
+
+        {history.length > 0 && (
+            <div style={{ border: "1px solid #eee", borderRadius: 8, padding: 12 }}>
+              <Chart type="bar" data={historyChart.data} options={historyChart.options} />
+            </div>
+        )}
+
+        {merchantTransactions.length ? (
+            <div style={{ overflowX: "auto", maxHeight: 360, overflowY: "auto", marginTop: 12 }}>
+              <table style={{ width: "100%", borderCollapse: "collapse", fontSize: 14 }}>
+                <thead>
+                  <tr>
+                    <th style={{ ...headStyle, textAlign: "left" }}>Date</th>
+                    <th style={{ ...headStyle, textAlign: "left" }}>Name on statement</th>
+                    <th style={{ ...headStyle, textAlign: "left" }}>Category</th>
+                    <th style={{ ...headStyle, textAlign: "left" }}>Account</th>
+                    <th style={{ ...headStyle, textAlign: "right" }}>Amount</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {merchantTransactions.map(({ id, parts }) => {
+                    const [t] = parts;
+                    const amount = parts.reduce((acc, p) => acc + p.amount, 0);
+                    return (
+                        <tr key={id} style={{ color: t.transferId ? "#999" : undefined }}>
+                          <td style={cellStyle}>{t.date}</td>
+                          <td style={{ ...cellStyle, whiteSpace: "normal" }} title={t.description}>{t.merchant}</td>
+                          <td style={cellStyle} title={parts.length > 1 ? `Split into ${parts.length} parts` : undefined}>
+                            {parts.map((p) => categoryLabel(p.category, taxonomy)).join(" + ")}
+                          </td>
+                          <td style={cellStyle}>{t.account ?? t.sourceFile}</td>
+                          <td style={{ ...cellStyle, textAlign: "right", color: amount > 0 ? "#2e7d32" : undefined }}>
+                            {formatMoney(amount, currency)}
+                          </td>
+                        </tr>
+                    );
+                  })}
+                </tbody>
+              </table>
+            </div>
+        ) : (
+            <div style={{ marginTop: 12 }}>No transactions from this merchant with the current filters.</div>
+        )}
+      </div>
+    );
+  }
+
+  return (
+    <div style={{ marginTop: 24, borderTop: "1px solid #eee", paddingTop: 16 }}>
+      <div style={{ display: "flex", gap: 12, alignItems: "center", flexWrap: "wrap", marginBottom: 12 }}>
+        <h2 style={{ margin: 0 }}>Top merchants</h2>
+        <label style={{ color: "#555" }}>
+          Show:{" "}
+          <select value={limit} onChange={(e) => setLimit(Number(e.target.value))}>
+            <option value={5}>5</option>
+            <option value={10}>10</option>
+            <option value={20}>20</option>
+            <option value={50}>50</option>
+          </select>
+        </label>
+      </div>
+
+      {rows.length ? (
+          <>
+            {/* One bar per row, so the chart grows with the list instead of squeezing the bars. */}
+            <div style={{ border: "1px solid #eee", borderRadius: 8, padding: 12, height: 80 + rows.length * 26 }}>
+              <Chart
+                type="bar"
+                data={chart.data}
+                options={{
+                  ...chart.options,
+                  maintainAspectRatio: false,
+                  onClick: (_event, elements) => {
+                    const row = elements.length ? rows[elements[0].index] : undefined;
+                    if (row) setSelected(row.merchant);
+                  },
+                }}
+              />
+            </div>
+
+            <div style={{ overflowX: "auto", marginTop: 12 }}>
+              <table style={{ width: "100%", borderCollapse: "collapse", fontSize: 14 }}>
+                <thead>
+                  <tr>
+                    <th style={{ ...headStyle, textAlign: "left" }}>#</th>
+                    <th style={{ ...headStyle, textAlign: "left" }}>Merchant</th>
+                    <th style={{ ...headStyle, textAlign: "left" }}>Category</th>
+                    <th style={{ ...headStyle, textAlign: "right" }}>Visits</th>
+                    <th style={{ ...headStyle, textAlign: "right" }}>Per month</th>
+                    <th style={{ ...headStyle, textAlign: "right" }}>Avg ticket</th>
+                    <th style={{ ...headStyle, textAlign: "right" }}>Total</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {rows.map((r, idx) => (
+                      <tr key={r.merchant}>
+                        <td style={{ ...cellStyle, color: "#888" }}>{idx + 1}</td>
+                        <td style={cellStyle}>
+                          <button
+                            onClick={() => setSelected(r.merchant)}
+                            title="Show monthly history and transactions"
+                            style={{ padding: "0 6px" }}
+                          >
+                            {r.merchant}
+                          </button>
+                        </td>
+                        <td style={cellStyle}>
+                          <span style={{ color: categoryColors[r.category] ?? "#555", fontWeight: 600 }}>
+                            {r.category ? categoryLabel(r.category, taxonomy) : "—"}
+                          </span>
+                        </td>
+                        <td style={{ ...cellStyle, textAlign: "right" }}>{r.count}</td>
+                        <td style={{ ...cellStyle, textAlign: "right" }}>{(r.count / months).toFixed(1)}</td>
+                        <td style={{ ...cellStyle, textAlign: "right" }}>{formatMoney(r.avgAmount, currency)}</td>
+                        <td style={{ ...cellStyle, textAlign: "right", fontWeight: 600 }}>{formatMoney(r.totalAmount, currency)}</td>
+                      </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          </>
+      ) : (
+          <div>No expenses in this period.</div>
+      )}
+
+      <div style={{ marginTop: 8, color: "#666", fontSize: 12 }}>
+        Grouped by merchant after normalization and your merchant aliases. Click a bar or name for its history.
+      </div>
+    </div>
+  );
+}
+
+/** Table showing the most recurring transactions (by merchant/name) across the analyzed period. */
+function TopRecurringTransactions(
+  { monthlyExpenses, transactions, taxonomy, currency, onRecategorize }: Readonly<{
+    monthlyExpenses: MonthlyExpense[];
+    transactions: Transaction[];
+    taxonomy: CategoryTaxonomy;
+    currency: string;
+    onRecategorize?: (target: RecategorizeTarget) => void;
+  }>
+) {
+  const [limit, setLimit] = useState<number>(10);
+  const rawRows = useMemo(
+    () => computeTopRecurringTransactions(transactions, limit),
+    [transactions, limit]
+  );
+  const [sortKey, setSortKey] = useState<"name" | "category" | "avgAmount" | "totalAmount" | "count">("count");
+  const [sortDir, setSortDir] = useState<"asc" | "desc">("desc");
+
+  const rows = useMemo(() => {
+    const sorted = [...rawRows];
+    sorted.sort((a, b) => {
+      const dir = sortDir === "asc" ? 1 : -1;
+      switch (sortKey) {
+        case "name":
+          return dir * a.name.localeCompare(b.name);
+        case "category":
+          return dir * (a.category || "").localeCompare(b.category || "");
+        case "avgAmount":
+          return dir * (a.avgAmount - b.avgAmount);
+        case "totalAmount":
+          return dir * (a.totalAmount - b.totalAmount);
         case "count":
         default:
           return dir * (a.count - b.count);
@@ -935,7 +2109,7 @@ function TopRecurringTransactions({ monthlyExpenses }: Readonly<{ monthlyExpense
     }
   }
 
-  const categoryColors = useMemo(() => buildCategoryColorMap(monthlyExpenses), [monthlyExpenses]);
+  const categoryColors = useMemo(() => buildCategoryColorMap(monthlyExpenses, taxonomy), [monthlyExpenses, taxonomy]);
 
   return (
     <div style={{ marginTop: 24, borderTop: "1px solid #eee", paddingTop: 16 }}>
@@ -1000,15 +2174,24 @@ function TopRecurringTransactions({ monthlyExpenses }: Readonly<{ monthlyExpense
                         fontWeight: 600,
                       }}
                     >
-                      {r.category || "—"}
+                      {r.category ? categoryLabel(r.category, taxonomy) : "—"}
                     </span>
+                    {onRecategorize && (
+                        <button
+                          onClick={() => onRecategorize({ merchant: r.name, category: r.category })}
+                          title="Change category for this merchant"
+                          style={{ marginLeft: 6, padding: "0 6px", fontSize: 12 }}
+                        >
+                          ✎
+                        </button>
+                    )}
                   </td>
                   <td style={{ padding: "8px 6px", borderBottom: "1px solid #f3f3f3", textAlign: "right" }}>
-                    € {r.avgAmount.toFixed(2)}
+                    {formatMoney(r.avgAmount, currency)}
                   </td>
                   <td style={{ padding: "8px 6px", borderBottom: "1px solid #f3f3f3", textAlign: "right" }}>{r.count}</td>
                   <td style={{ padding: "8px 6px", borderBottom: "1px solid #f3f3f3", textAlign: "right" }}>
-                    € {r.totalAmount.toFixed(2)}
+                    {formatMoney(r.totalAmount, currency)}
                   </td>
                 </tr>
               ))}
@@ -1020,7 +2203,7 @@ function TopRecurringTransactions({ monthlyExpenses }: Readonly<{ monthlyExpense
       )}
 
       <div style={{ marginTop: 8, color: "#666", fontSize: 12 }}>
-        Based on transaction summary lines emitted by the analyzer per category/month. (MVP approximation.)
+        Grouped by merchant (after normalization and aliases) across all expenses in the analyzed period.
       </div>
     </div>
   );
@@ -1030,11 +2213,19 @@ function TopRecurringTransactions({ monthlyExpenses }: Readonly<{ monthlyExpense
  * Table showing "identical" recurring payments: same merchant/name AND same amount.
  * This is a good proxy for subscriptions.
  */
-function IdenticalRecurringTransactions({ monthlyExpenses }: Readonly<{ monthlyExpenses: MonthlyExpense[] }>) {
+function IdenticalRecurringTransactions(
+  { monthlyExpenses, transactions, taxonomy, currency, onRecategorize }: Readonly<{
+    monthlyExpenses: MonthlyExpense[];
+    transactions: Transaction[];
+    taxonomy: CategoryTaxonomy;
+    currency: string;
+    onRecategorize?: (target: RecategorizeTarget) => void;
+  }>
+) {
   const [limit, setLimit] = useState<number>(10);
   const rawRows = useMemo(
-    () => computeIdenticalRecurringTransactions(monthlyExpenses, limit),
-    [monthlyExpenses, limit]
+    () => computeIdenticalRecurringTransactions(transactions, limit),
+    [transactions, limit]
   );
   const [sortKey, setSortKey] = useState<"name" | "category" | "amount" | "totalAmount" | "count">("count");
   const [sortDir, setSortDir] = useState<"asc" | "desc">("desc");
@@ -1069,7 +2260,7 @@ function IdenticalRecurringTransactions({ monthlyExpenses }: Readonly<{ monthlyE
     }
   }
 
-  const categoryColors = useMemo(() => buildCategoryColorMap(monthlyExpenses), [monthlyExpenses]);
+  const categoryColors = useMemo(() => buildCategoryColorMap(monthlyExpenses, taxonomy), [monthlyExpenses, taxonomy]);
 
   return (
     <div style={{ marginTop: 24, borderTop: "1px solid #eee", paddingTop: 16 }}>
@@ -1134,15 +2325,24 @@ function IdenticalRecurringTransactions({ monthlyExpenses }: Readonly<{ monthlyE
                         fontWeight: 600,
                       }}
                     >
-                      {r.category || "—"}
+                      {r.category ? categoryLabel(r.category, taxonomy) : "—"}
                     </span>
+                    {onRecategorize && (
+                        <button
+                          onClick={() => onRecategorize({ merchant: r.name, category: r.category })}
+                          title="Change category for this merchant"
+                          style={{ marginLeft: 6, padding: "0 6px", fontSize: 12 }}
+                        >
+                          ✎
+                        </button>
+                    )}
                   </td>
                   <td style={{ padding: "8px 6px", borderBottom: "1px solid #f3f3f3", textAlign: "right" }}>
-                    € {r.amount.toFixed(2)}
+                    {formatMoney(r.amount, currency)}
                   </td>
                   <td style={{ padding: "8px 6px", borderBottom: "1px solid #f3f3f3", textAlign: "right" }}>{r.count}</td>
                   <td style={{ padding: "8px 6px", borderBottom: "1px solid #f3f3f3", textAlign: "right" }}>
-                    € {r.totalAmount.toFixed(2)}
+                    {formatMoney(r.totalAmount, currency)}
                   </td>
                 </tr>
               ))}
@@ -1160,164 +2360,3026 @@ function IdenticalRecurringTransactions({ monthlyExpenses }: Readonly<{ monthlyE
   );
 }
 
-// -------------------- App (state + orchestration) --------------------
 /**
- * Merge multiple analysis results into one combined view.
- * MVP approach: sums monthly/category amounts and recomputes percentages.
+ * Subscriptions inferred from charge dates: cadence, price changes, predicted next charge and
+ * annualized cost. Stopped subscriptions are hidden unless asked for.
  */
-function mergeAnalysisResults(results: AnalysisResult[]): AnalysisResult {
-  const byMonth: Record<string, MonthlyExpense> = {};
-
-  for (const res of results) {
-    for (const m of res.monthlyExpenses ?? []) {
-      const existing = byMonth[m.month] ?? { month: m.month, sum: "0 euros", categories: {} };
-
-      // Sum month totals
-      const monthSum = parseEuroAmount(existing.sum) + parseEuroAmount(m.sum);
-      existing.sum = `${monthSum} euros`;
-
-      // Merge categories
-      const srcCats = m.categories ?? {};
-      const dstCats = existing.categories ?? {};
-
-      for (const [catName, catInfo] of Object.entries(srcCats)) {
-        const prev = dstCats[catName] ?? {
-          amount: 0,
-          percentage: 0,
-          transactions: {} as Record<string, string>,
-        };
-
-        prev.amount = (Number(prev.amount) || 0) + (Number(catInfo.amount) || 0);
-
-        // Merge transactions maps (best-effort)
-        const prevTx = prev.transactions ?? {};
-        const srcTx = catInfo.transactions ?? {};
-        for (const [k, v] of Object.entries(srcTx)) {
-          if (prevTx[k] === undefined) {
-            prevTx[k] = v;
-          } else {
-            let i = 2;
-            while (prevTx[`${k} (${i})`] !== undefined) i += 1;
-            prevTx[`${k} (${i})`] = v;
-          }
-        }
-        prev.transactions = prevTx;
-
-        dstCats[catName] = prev;
-      }
+function SubscriptionsPanel(
+  { monthlyExpenses, transactions, taxonomy, currency, onRecategorize }: Readonly<{
+    monthlyExpenses: MonthlyExpense[];
+    transactions: Transaction[];
+    taxonomy: CategoryTaxonomy;
+    currency: string;
+    onRecategorize?: (target: RecategorizeTarget) => void;
+  }>
+) {
+  const [showStopped, setShowStopped] = useState(false);
+  const asOf = useMemo(() => transactions.reduce((latest, t) => (t.date > latest ? t.date : latest), ""), [transactions]);
+  const subscriptions = useMemo(() => detectSubscriptions(transactions, asOf), [transactions, asOf]);
+  const categoryColors = useMemo(() => buildCategoryColorMap(monthlyExpenses, taxonomy), [monthlyExpenses, taxonomy]);
+
+  const active = subscriptions.filter((s) => s.status === "active");
+  const rows = showStopped ? subscriptions : active;
+  const annualTotal = active.reduce((acc, s) => acc + s.annualCost, 0);
+  const cadenceLabels: Record<SubscriptionCadence, string> = {
+    weekly: "Weekly",
+    monthly: "Monthly",
+    quarterly: "Quarterly",
+    yearly: "Yearly",
+  };
+  const cellStyle = { padding: "8px 6px", borderBottom: "1px solid #f3f3f3", whiteSpace: "nowrap" as const };
+  const headStyle = { ...cellStyle, borderBottom: "1px solid #eee" };
 
-      existing.categories = dstCats;
-      byMonth[m.month] = existing;
-    }
-  }
+  return (
+    <div style={{ marginTop: 24, borderTop: "1px solid #eee", paddingTop: 16 }}>
+      <h2 style={{ margin: "0 0 12px" }}>Subscriptions</h2>
+      <div style={{ marginBottom: 10, display: "flex", gap: 16, alignItems: "center", flexWrap: "wrap", color: "#555" }}>
+        <span>
+          <strong>{active.length}</strong> active · <strong>{formatMoney(annualTotal, currency)}</strong> per year
+          ({formatMoney((annualTotal / 12), currency)} per month)
+        </span>
+        <label>
+          <input type="checkbox" checked={showStopped} onChange={(e) => setShowStopped(e.target.checked)} /> Show stopped (
+          {subscriptions.length - active.length})
+        </label>
+      </div>
+
+      {rows.length ? (
+        <div style={{ overflowX: "auto" }}>
+          <table style={{ width: "100%", borderCollapse: "collapse" }}>
+            <thead>
+              <tr>
+                <th style={{ ...headStyle, textAlign: "left" }}>Merchant</th>
+                <th style={{ ...headStyle, textAlign: "left" }}>Category</th>
+                <th style={{ ...headStyle, textAlign: "left" }}>Cadence</th>
+                <th style={{ ...headStyle, textAlign: "right" }}>Amount</th>
+                <th style={{ ...headStyle, textAlign: "left" }}>Last charge</th>
+                <th style={{ ...headStyle, textAlign: "left" }}>Next charge</th>
+                <th style={{ ...headStyle, textAlign: "right" }}>Per year</th>
+              </tr>
+            </thead>
+            <tbody>
+              {rows.map((s) => (
+                <tr key={`${s.merchant}__${s.charges[0].id}`} style={{ color: s.status === "stopped" ? "#999" : undefined }}>
+                  <td style={{ ...cellStyle, whiteSpace: "normal" }}>
+                    {s.merchant}
+                    {s.status === "stopped" && <span style={{ marginLeft: 6, fontSize: 12 }}>stopped</span>}
+                  </td>
+                  <td style={cellStyle}>
+                    <span style={{ color: categoryColors[s.category] ?? "#555", fontWeight: 600 }}>
+                      {categoryLabel(s.category, taxonomy)}
+                    </span>
+                    {onRecategorize && (
+                        <button
+                          onClick={() => onRecategorize({ merchant: s.merchant, category: s.category })}
+                          title="Change category for this merchant"
+                          style={{ marginLeft: 6, padding: "0 6px", fontSize: 12 }}
+                        >
+                          ✎
+                        </button>
+                    )}
+                  </td>
+                  <td style={cellStyle}>
+                    {cadenceLabels[s.cadence]} <span style={{ color: "#888", fontSize: 12 }}>×{s.charges.length}</span>
+                  </td>
+                  <td style={{ ...cellStyle, textAlign: "right" }}>
+                    {formatMoney(s.lastAmount, currency)}
+                    {s.priceChange && (
+                        <div
+                          title={`Changed on ${s.priceChange.date}`}
+                          style={{ fontSize: 12, color: s.priceChange.to > s.priceChange.from ? "#c62828" : "#2e7d32" }}
+                        >
+                          {s.priceChange.to > s.priceChange.from ? "▲" : "▼"} from {formatMoney(s.priceChange.from, currency)}
+                        </div>
+                    )}
+                  </td>
+                  <td style={cellStyle}>{s.lastDate}</td>
+                  <td style={cellStyle}>
+                    {s.nextDate ? (
+                        <>
+                          {s.nextDate} <span style={{ color: "#888", fontSize: 12 }}>~{formatMoney(s.lastAmount, currency)}</span>
+                        </>
+                    ) : (
+                        "—"
+                    )}
+                  </td>
+                  <td style={{ ...cellStyle, textAlign: "right" }}>{formatMoney(s.annualCost, currency)}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      ) : (
+        <div>No subscriptions detected (needs 3+ regular charges, or 2 a year apart).</div>
+      )}
+
+      <div style={{ marginTop: 8, color: "#666", fontSize: 12 }}>
+        Cadence is inferred from charge dates; small price changes are tolerated. Status is relative to the last
+        transaction date ({asOf || "—"}).
+      </div>
+    </div>
+  );
+}
+
+const ANOMALY_KIND_LABELS: Record<AnomalyKind, string> = {
+  merchantSpike: "Unusually large charge",
+  newMerchant: "Large charge from a new merchant",
+  categoryMonth: "Unusual category month",
+  duplicateCharge: "Possible duplicate charge",
+};
 
-  const mergedMonths = Object.values(byMonth).sort((a, b) => a.month.localeCompare(b.month));
+/** Findings of `detectAnomalies` for the selected period, each with a link into the ledger. */
+function InsightsPanel(props: Readonly<{
+  transactions: Transaction[];
+  monthlyExpenses: MonthlyExpense[];
+  range: DateRange;
+  taxonomy: CategoryTaxonomy;
+  currency: string;
+  onShowInLedger: (focus: Omit<LedgerFocus, "nonce">) => void;
+}>) {
+  const { taxonomy, currency } = props;
+  const [sigma, setSigma] = useState(2);
+  const [kind, setKind] = useState<AnomalyKind | "">("");
 
-  // Recompute category percentages per month
-  for (const m of mergedMonths) {
-    const cats = m.categories ?? {};
-    const total = Object.values(cats).reduce((acc, c) => acc + (Number(c.amount) || 0), 0);
-    for (const c of Object.values(cats)) {
-      const amt = Number(c.amount) || 0;
-      c.percentage = total > 0 ? (amt / total) * 100 : 0;
+  const anomalies = useMemo(
+    () => detectAnomalies(props.transactions, props.monthlyExpenses, props.range, sigma),
+    [props.transactions, props.monthlyExpenses, props.range, sigma]
+  );
+  const shown = kind ? anomalies.filter((a) => a.kind === kind) : anomalies;
+  const money = (v: number) => formatMoney(v, currency);
+
+  function describe(a: Anomaly): string {
+    switch (a.kind) {
+      case "merchantSpike":
+        return `${a.merchant}: ${money(a.amount)} on ${a.date}, usually ${money(a.expected ?? 0)} (${a.score.toFixed(1)}×)`;
+      case "newMerchant":
+        return `${a.merchant}: first charge of ${money(a.amount)} on ${a.date}`;
+      case "duplicateCharge":
+        return `${a.merchant}: ${a.transactionIds.length}× ${money(a.amount)} on ${a.date}`;
+      case "categoryMonth":
+        return `${categoryLabel(a.category ?? "", taxonomy)} in ${formatMonthLabel(a.date)}: ${money(a.amount)} vs ${money(
+          a.expected ?? 0
+        )} on average (${a.score > 0 ? "+" : ""}${a.score.toFixed(1)}σ)`;
     }
   }
 
-  // Average monthly expenses across merged months
-  const monthValues = mergedMonths.map((m) => parseEuroAmount(m.sum));
-  const avg = monthValues.length ? monthValues.reduce((a, b) => a + b, 0) / monthValues.length : 0;
+  function focusFor(a: Anomaly): Omit<LedgerFocus, "nonce"> {
+    if (a.kind === "categoryMonth") return { filters: { category: a.category, month: a.date }, highlightIds: [] };
+    return { filters: { search: a.merchant ?? "", month: a.date.slice(0, 7) }, highlightIds: a.transactionIds };
+  }
 
-  return {
-    averageMonthExpenses: `${avg} euros`,
-    monthlyExpenses: mergedMonths,
-  };
+  return (
+    <details open={anomalies.length > 0} style={{ marginTop: 24, borderTop: "1px solid #eee", paddingTop: 16 }}>
+      <summary style={{ cursor: "pointer" }}>
+        <strong>Insights</strong> ({anomalies.length} {anomalies.length === 1 ? "finding" : "findings"} in {props.range.label})
+      </summary>
+
+      <div style={{ display: "flex", gap: 12, alignItems: "center", flexWrap: "wrap", marginTop: 10 }}>
+        <select value={kind} onChange={(e) => setKind(e.target.value as AnomalyKind | "")}>
+          <option value="">All findings</option>
+          {(Object.keys(ANOMALY_KIND_LABELS) as AnomalyKind[]).map((k) => (
+              <option key={k} value={k}>
+                {ANOMALY_KIND_LABELS[k]} ({anomalies.filter((a) => a.kind === k).length})
+              </option>
+          ))}
+        </select>
+        <label>
+          Category months beyond{" "}
+          <select value={sigma} onChange={(e) => setSigma(Number(e.target.value))}>
+            {[1.5, 2, 2.5, 3].map((n) => (
+                <option key={n} value={n}>
+                  {n}
+                </option>
+            ))}
+          </select>{" "}
+          standard deviations
+        </label>
+      </div>
+
+      {shown.length ? (
+          <ul style={{ margin: "10px 0 0", paddingLeft: 20 }}>
+            {shown.map((a) => (
+                <li key={a.id} style={{ marginBottom: 6 }}>
+                  <span style={{ color: "#888", fontSize: 12, marginRight: 6 }}>{ANOMALY_KIND_LABELS[a.kind]}</span>
+                  {describe(a)}{" "}
+                  <button onClick={() => props.onShowInLedger(focusFor(a))} style={{ padding: "0 8px", fontSize: 13 }}>
+                    Show in ledger
+                  </button>
+                </li>
+            ))}
+          </ul>
+      ) : (
+          <div style={{ marginTop: 10 }}>Nothing unusual found in this period.</div>
+      )}
+    </details>
+  );
 }
 
+const LEDGER_ROW_HEIGHT = 36;
+const LEDGER_VIEWPORT_HEIGHT = 480;
+const LEDGER_OVERSCAN = 8;
+
 /**
- * Page-level component: owns state and orchestrates file upload -> analysis -> charts.
+ * Ledger of every transaction in the analysis with search, filters and sortable columns.
+ * Only the rows in view are rendered (fixed row height + spacer rows), so multi-year histories stay fast.
  */
-export default function App() {
-  const analyzer = useMemo(() => new TransactionAnalyzer(), []);
+function TransactionLedger(
+  { transactions, taxonomy, currency, focus, onRecategorize, onAnnotate, onSplit }: Readonly<{
+    transactions: Transaction[];
+    taxonomy: CategoryTaxonomy;
+    currency: string;
+    /** Initial filters and highlighted rows; re-mount the ledger (via `key`) to apply a new focus. */
+    focus?: LedgerFocus | null;
+    onRecategorize?: (target: RecategorizeTarget) => void;
+    onAnnotate?: (transaction: Transaction) => void;
+    /** Open the split editor for an expense (or the transaction a part belongs to). */
+    onSplit?: (transaction: Transaction) => void;
+  }>
+) {
+  const [filters, setFilters] = useState<LedgerFilters>(() => ({
+    search: "",
+    category: "",
+    month: "",
+    sourceFile: "",
+    minAmount: "",
+    maxAmount: "",
+    ...focus?.filters,
+  }));
+  const highlighted = useMemo(() => new Set(focus?.highlightIds ?? []), [focus]);
+  const [sortKey, setSortKey] = useState<LedgerSortKey>("date");
+  const [sortDir, setSortDir] = useState<"asc" | "desc">("desc");
+  const [scrollTop, setScrollTop] = useState(0);
 
-  const [loading, setLoading] = useState(false);
-  const [error, setError] = useState<string | null>(null);
-  const [result, setResult] = useState<AnalysisResult | null>(null);
-  const [fileNames, setFileNames] = useState<string[]>([]);
+  const options = useMemo(() => {
+    const unique = (values: string[]) => [...new Set(values)].sort((a, b) => a.localeCompare(b));
+    return {
+      categories: unique(transactions.map((t) => t.category)),
+      months: unique(transactions.map((t) => t.date.slice(0, 7))),
+      sourceFiles: unique(transactions.map((t) => t.sourceFile)),
+    };
+  }, [transactions]);
 
-  const [breakdownMode, setBreakdownMode] = useState<"month" | "year">("month");
-  const [selectedMonth, setSelectedMonth] = useState<string>("");
+  const rows = useMemo(
+    () => sortLedgerTransactions(filterLedgerTransactions(transactions, filters), sortKey, sortDir),
+    [transactions, filters, sortKey, sortDir]
+  );
 
-  async function analyzeFiles(files: File[]) {
-    const limited = files.slice(0, 5);
+  const firstRow = Math.max(0, Math.floor(scrollTop / LEDGER_ROW_HEIGHT) - LEDGER_OVERSCAN);
+  const lastRow = Math.min(
+    rows.length,
+    Math.ceil((scrollTop + LEDGER_VIEWPORT_HEIGHT) / LEDGER_ROW_HEIGHT) + LEDGER_OVERSCAN
+  );
+  const visibleRows = rows.slice(firstRow, lastRow);
+  const total = rows.reduce((acc, t) => acc + t.amount, 0);
 
-    setLoading(true);
-    setError(null);
-    setResult(null);
-    setFileNames(limited.map((f) => f.name));
+  function updateFilter<K extends keyof LedgerFilters>(key: K, value: LedgerFilters[K]) {
+    setFilters((f) => ({ ...f, [key]: value }));
+  }
 
-    try {
-      const analyses: AnalysisResult[] = [];
+  function toggleSort(nextKey: LedgerSortKey) {
+    if (nextKey === sortKey) {
+      setSortDir((d) => (d === "asc" ? "desc" : "asc"));
+    } else {
+      setSortKey(nextKey);
+      setSortDir(nextKey === "date" || nextKey === "amount" ? "desc" : "asc");
+    }
+  }
 
-      for (const file of limited) {
-        const csvText = await file.text();
-        const bank = detectBank(file.name);
-        const analysis = (await analyzer.analyzeCsvContent(csvText, bank)) as AnalysisResult;
-        analyses.push(analysis);
-      }
+  const headerCell = (key: LedgerSortKey, label: string, align: "left" | "right", width?: number) => (
+      <th
+        onClick={() => toggleSort(key)}
+        style={{
+          textAlign: align,
+          borderBottom: "1px solid #eee",
+          padding: "8px 6px",
+          cursor: "pointer",
+          whiteSpace: "nowrap",
+          position: "sticky",
+          top: 0,
+          background: "Canvas",
+          width,
+        }}
+      >
+        {label}
+        {sortKey === key ? (sortDir === "asc" ? " ▲" : " ▼") : ""}
+      </th>
+  );
+  const cellStyle = {
+    padding: "0 6px",
+    height: LEDGER_ROW_HEIGHT,
+    borderBottom: "1px solid #f3f3f3",
+    whiteSpace: "nowrap" as const,
+    overflow: "hidden",
+    textOverflow: "ellipsis",
+  };
 
-      const merged = mergeAnalysisResults(analyses);
-      setResult(merged);
-      setSelectedMonth(merged.monthlyExpenses?.[0]?.month ?? "");
-      setBreakdownMode("month");
+  return (
+    <div style={{ marginTop: 24, borderTop: "1px solid #eee", paddingTop: 16 }}>
+      <h2 style={{ margin: "0 0 12px" }}>Transactions</h2>
 
-      if (files.length > 5) {
-        setError(`You selected ${files.length} files. Only the first 5 were analyzed in this MVP.`);
-      }
-    } catch (err) {
-      setError(err instanceof Error ? err.message : String(err));
-    } finally {
-      setLoading(false);
+      <div style={{ marginBottom: 10, display: "flex", gap: 10, alignItems: "center", flexWrap: "wrap" }}>
+        <input
+          type="search"
+          placeholder="Search merchant, description, note or tag"
+          value={filters.search}
+          onChange={(e) => updateFilter("search", e.target.value)}
+          style={{ minWidth: 220 }}
+        />
+        <select value={filters.category} onChange={(e) => updateFilter("category", e.target.value)}>
+          <option value="">All categories</option>
+          {options.categories.map((c) => (
+              <option key={c} value={c}>{categoryLabel(c, taxonomy)}</option>
+          ))}
+        </select>
+        <select value={filters.month} onChange={(e) => updateFilter("month", e.target.value)}>
+          <option value="">All months</option>
+          {options.months.map((m) => (
+              <option key={m} value={m}>{formatMonthLabel(m)}</option>
+          ))}
+        </select>
+        <select value={filters.sourceFile} onChange={(e) => updateFilter("sourceFile", e.target.value)}>
+          <option value="">All files</option>
+          {options.sourceFiles.map((f) => (
+              <option key={f} value={f}>{f}</option>
+          ))}
+        </select>
+        <label style={{ color: "#555" }}>
+          Amount {currencySymbol(currency)}{" "}
+          <input
+            type="number"
+            min={0}
+            placeholder="min"
+            value={filters.minAmount}
+            onChange={(e) => updateFilter("minAmount", e.target.value)}
+            style={{ width: 80 }}
+          />
+          {" – "}
+          <input
+            type="number"
+            min={0}
+            placeholder="max"
+            value={filters.maxAmount}
+            onChange={(e) => updateFilter("maxAmount", e.target.value)}
+            style={{ width: 80 }}
+          />
+        </label>
+      </div>
+
+      <div
+        style={{ height: LEDGER_VIEWPORT_HEIGHT, overflowY: "auto", border: "1px solid #eee", borderRadius: 8 }}
+        onScroll={(e) => setScrollTop(e.currentTarget.scrollTop)}
+      >
+        <table style={{ width: "100%", borderCollapse: "collapse", tableLayout: "fixed", fontSize: 14 }}>
+          <thead>
+            <tr>
+              {headerCell("date", "Date", "left", 100)}
+              {headerCell("merchant", "Merchant", "left")}
+              {headerCell("category", "Category", "left", 150)}
+              {headerCell("amount", "Amount", "right", 110)}
+              <th
+                style={{
+                  textAlign: "left",
+                  borderBottom: "1px solid #eee",
+                  padding: "8px 6px",
+                  position: "sticky",
+                  top: 0,
+                  background: "Canvas",
+                  width: 170,
+                }}
+              >
+                Tags
+              </th>
+              {headerCell("sourceFile", "File", "left", 160)}
+            </tr>
+          </thead>
+          <tbody>
+            {firstRow > 0 && <tr style={{ height: firstRow * LEDGER_ROW_HEIGHT }} />}
+            {visibleRows.map((t) => (
+                <tr key={t.id} title={t.description} style={highlighted.has(t.id) ? { background: "#fff3cd" } : undefined}>
+                  <td style={cellStyle}>{t.date}</td>
+                  <td style={cellStyle}>
+                    {t.transferId && (
+                        <span title="Internal transfer, excluded from totals" style={{ color: "#888", marginRight: 6 }}>⇄</span>
+                    )}
+                    {t.splitOf && (
+                        <span title="Part of a split transaction" style={{ color: "#888", marginRight: 6 }}>⑂</span>
+                    )}
+                    <span title={t.canonicalMerchant ? t.merchant : undefined}>{merchantName(t)}</span>
+                  </td>
+                  <td style={cellStyle}>
+                    {onRecategorize ? (
+                        <button
+                          onClick={() => onRecategorize({ merchant: merchantName(t), category: t.category, transaction: t })}
+                          title="Change category"
+                          style={{ padding: "0 6px", fontSize: 13, maxWidth: "100%", overflow: "hidden", textOverflow: "ellipsis" }}
+                        >
+                          {categoryLabel(t.category, taxonomy)} ✎
+                        </button>
+                    ) : (
+                        categoryLabel(t.category, taxonomy)
+                    )}
+                  </td>
+                  <td
+                    style={{ ...cellStyle, textAlign: "right", color: t.amount < 0 ? undefined : "#2e7d32" }}
+                    title={
+                      t.originalCurrency !== undefined && t.originalAmount !== undefined
+                        ? `Booked as ${formatMoney(t.originalAmount, t.originalCurrency)}`
+                        : undefined
+                    }
+                  >
+                    {onSplit && t.amount < 0 && !t.transferId && (
+                        <button
+                          onClick={() => onSplit(t)}
+                          title="Split across categories"
+                          style={{ padding: "0 4px", fontSize: 11, marginRight: 4 }}
+                        >
+                          ⑂
+                        </button>
+                    )}
+                    {t.originalCurrency && <span style={{ color: "#888", fontSize: 11, marginRight: 4 }}>{t.originalCurrency}</span>}
+                    {formatMoney(t.amount, t.currency)}
+                  </td>
+                  <td style={cellStyle} title={t.note}>
+                    {onAnnotate ? (
+                        <button
+                          onClick={() => onAnnotate(t)}
+                          title={t.note ?? "Add tags or a note"}
+                          style={{ padding: "0 6px", fontSize: 13, maxWidth: "100%", overflow: "hidden", textOverflow: "ellipsis" }}
+                        >
+                          {t.tags?.map((tag) => `#${tag}`).join(" ")}
+                          {t.note && " 📝"} ✎
+                        </button>
+                    ) : (
+                        t.tags?.map((tag) => `#${tag}`).join(" ")
+                    )}
+                  </td>
+                  <td style={cellStyle}>{t.sourceFile}</td>
+                </tr>
+            ))}
+            {lastRow < rows.length && <tr style={{ height: (rows.length - lastRow) * LEDGER_ROW_HEIGHT }} />}
+          </tbody>
+        </table>
+        {!rows.length && <div style={{ padding: 12 }}>No transactions match the current filters.</div>}
+      </div>
+
+      <div style={{ marginTop: 8, color: "#666", fontSize: 12 }}>
+        {rows.length} of {transactions.length} transactions · net {formatMoney(total, currency)}
+      </div>
+    </div>
+  );
+}
+
+/**
+ * Inline editor for re-categorizing a transaction or a whole merchant.
+ * Merchant-wide changes are saved as rules (exact, substring or regex) that also apply to future uploads.
+ */
+function RecategorizeDialog(props: Readonly<{
+  target: RecategorizeTarget;
+  categories: string[];
+  taxonomy: CategoryTaxonomy;
+  transactions: Transaction[];
+  /** `category` is an existing key, or the label of a new category when `isNew` is set. */
+  onSaveRule: (rule: CategoryRule, isNew: boolean) => void;
+  onSaveOverride: (transactionId: string, category: string, isNew: boolean) => void;
+  onCancel: () => void;
+}>) {
+  const { target } = props;
+  const [scope, setScope] = useState<"transaction" | CategoryRuleMatch>(target.transaction ? "transaction" : "exact");
+  const [pattern, setPattern] = useState(target.merchant);
+  const [category, setCategory] = useState(target.category);
+  const [newCategory, setNewCategory] = useState("");
+
+  const chosenCategory = category === "__new__" ? newCategory.trim() : category;
+  const matchCount = useMemo(() => {
+    if (scope === "transaction") return 1;
+    const test = compileCategoryRule({ match: scope, pattern });
+    return props.transactions.filter((t) => matchesMerchant(test, t)).length;
+  }, [scope, pattern, props.transactions]);
+
+  function changeScope(next: typeof scope) {
+    setScope(next);
+    if (next === "regex") setPattern(`^${escapeRegExp(target.merchant)}$`);
+    else if (next !== "transaction") setPattern(target.merchant);
+  }
+
+  function save() {
+    if (!chosenCategory) return;
+    const isNew = category === "__new__";
+    if (scope === "transaction" && target.transaction) {
+      props.onSaveOverride(target.transaction.id, chosenCategory, isNew);
+    } else if (scope !== "transaction") {
+      props.onSaveRule({ id: crypto.randomUUID(), match: scope, pattern: pattern.trim(), category: chosenCategory }, isNew);
     }
   }
 
   return (
-      <div style={{ padding: 32, maxWidth: 900, margin: "0 auto" }}>
-        <h1>Transaction Analyzer</h1>
+      <div
+        style={{
+          position: "fixed",
+          inset: 0,
+          background: "rgba(0, 0, 0, 0.35)",
+          display: "flex",
+          alignItems: "center",
+          justifyContent: "center",
+          zIndex: 10,
+        }}
+      >
+        <div style={{ background: "Canvas", borderRadius: 8, padding: 16, width: 460, maxWidth: "90vw" }}>
+          <h2 style={{ margin: "0 0 8px" }}>Change category</h2>
+          <div style={{ color: "#555", marginBottom: 10 }}>
+            <strong>{target.merchant}</strong>
+            {target.transaction && (
+                <span>
+                  {" "}· {target.transaction.date} · {formatMoney(target.transaction.amount, target.transaction.currency)}
+                </span>
+            )}
+          </div>
+
+          <div style={{ display: "grid", gap: 6 }}>
+            {target.transaction && (
+                <label>
+                  <input type="radio" checked={scope === "transaction"} onChange={() => changeScope("transaction")} />{" "}
+                  Only this transaction
+                </label>
+            )}
+            <label>
+              <input type="radio" checked={scope === "exact"} onChange={() => changeScope("exact")} /> Merchant is exactly
+            </label>
+            <label>
+              <input type="radio" checked={scope === "substring"} onChange={() => changeScope("substring")} /> Merchant
+              contains
+            </label>
+            <label>
+              <input type="radio" checked={scope === "regex"} onChange={() => changeScope("regex")} /> Merchant matches
+              regex
+            </label>
+          </div>
+
+          {scope !== "transaction" && (
+              <div style={{ marginTop: 10 }}>
+                <input value={pattern} onChange={(e) => setPattern(e.target.value)} style={{ width: "100%" }} />
+                <div style={{ marginTop: 4, color: "#666", fontSize: 12 }}>
+                  Matches {matchCount} transaction{matchCount === 1 ? "" : "s"} in the current data.
+                </div>
+              </div>
+          )}
 
-        <UploadButton loading={loading} onFiles={analyzeFiles} />
+          <div style={{ marginTop: 10, display: "flex", gap: 8, flexWrap: "wrap" }}>
+            <select value={category} onChange={(e) => setCategory(e.target.value)}>
+              {props.categories.map((c) => (
+                  <option key={c} value={c}>{categoryLabel(c, props.taxonomy)}</option>
+              ))}
+              <option value="__new__">New category…</option>
+            </select>
+            {category === "__new__" && (
+                <input
+                  value={newCategory}
+                  onChange={(e) => setNewCategory(e.target.value)}
+                  placeholder="Category name"
+                />
+            )}
+          </div>
+
+          <div style={{ marginTop: 14, display: "flex", gap: 10 }}>
+            <button onClick={save} disabled={!chosenCategory || (scope !== "transaction" && !pattern.trim())}>
+              Save
+            </button>
+            <button onClick={props.onCancel}>Cancel</button>
+          </div>
+        </div>
+      </div>
+  );
+}
 
-        {error && <pre style={{ marginTop: 20, color: "red", whiteSpace: "pre-wrap" }}>{error}</pre>}
+/**
+ * Editor for the tags and note of one transaction. Tags can instead be saved as rules for the
+ * merchant, so later uploads are tagged too.
+ */
+function AnnotationDialog(props: Readonly<{
+  transaction: Transaction;
+  annotation?: TransactionAnnotation;
+  knownTags: string[];
+  onSave: (annotation: TransactionAnnotation, rules: TagRule[]) => void;
+  onCancel: () => void;
+}>) {
+  const { transaction } = props;
+  const ownTags = props.annotation?.tags ?? [];
+  const ruleTags = (transaction.tags ?? []).filter((tag) => !ownTags.includes(tag));
+  const [tagsText, setTagsText] = useState(ownTags.join(", "));
+  const [note, setNote] = useState(props.annotation?.note ?? "");
+  const [asRule, setAsRule] = useState(false);
+
+  function save() {
+    const tags = parseTags(tagsText);
+    const rules = asRule
+      ? tags
+          .filter((tag) => !ruleTags.includes(tag))
+          .map((tag) => ({ id: crypto.randomUUID(), match: "exact" as const, pattern: merchantName(transaction), tag }))
+      : [];
+    props.onSave({ tags: asRule ? [] : tags, note: note.trim() }, rules);
+  }
 
-        {result && (
-            <div style={{ marginTop: 20 }}>
-              {fileNames.length > 0 && (
-                <div style={{ marginBottom: 8, color: "#555" }}>
-                  <strong>Files:</strong> {fileNames.join(", ")}
-                </div>
-              )}
+  return (
+      <div
+        style={{
+          position: "fixed",
+          inset: 0,
+          background: "rgba(0, 0, 0, 0.35)",
+          display: "flex",
+          alignItems: "center",
+          justifyContent: "center",
+          zIndex: 10,
+        }}
+      >
+        <div style={{ background: "Canvas", borderRadius: 8, padding: 16, width: 460, maxWidth: "90vw" }}>
+          <h2 style={{ margin: "0 0 8px" }}>Tags and note</h2>
+          <div style={{ color: "#555", marginBottom: 10 }}>
+            <strong>{merchantName(transaction)}</strong> · {transaction.date} · {formatMoney(transaction.amount, transaction.currency)}
+          </div>
+
+          <label style={{ display: "block" }}>
+            Tags (comma-separated)
+            <input
+              value={tagsText}
+              onChange={(e) => setTagsText(e.target.value)}
+              placeholder="vacation-2025, reimbursable"
+              list="known-tags"
+              style={{ width: "100%" }}
+            />
+          </label>
+          <datalist id="known-tags">
+            {props.knownTags.map((tag) => (
+                <option key={tag} value={tag} />
+            ))}
+          </datalist>
+          {ruleTags.length > 0 && (
+              <div style={{ marginTop: 4, color: "#666", fontSize: 12 }}>
+                From rules: {ruleTags.map((tag) => `#${tag}`).join(" ")}
+              </div>
+          )}
+          <label style={{ display: "block", marginTop: 8 }}>
+            <input type="checkbox" checked={asRule} onChange={(e) => setAsRule(e.target.checked)} /> Tag every
+            transaction from this merchant (saved as a rule)
+          </label>
 
-              {result.averageMonthExpenses && (
-                <div style={{ marginTop: 8, marginBottom: 8, color: "#555" }}>
-                  <strong>Average monthly expenses:</strong> {result.averageMonthExpenses}
+          <label style={{ display: "block", marginTop: 10 }}>
+            Note
+            <textarea value={note} onChange={(e) => setNote(e.target.value)} rows={3} style={{ width: "100%" }} />
+          </label>
+
+          <div style={{ marginTop: 14, display: "flex", gap: 10 }}>
+            <button onClick={save}>Save</button>
+            <button onClick={props.onCancel}>Cancel</button>
+          </div>
+        </div>
+      </div>
+  );
+}
+
+/** Editor for splitting one expense into parts with their own category; the parts must add up to it. */
+function SplitDialog(props: Readonly<{
+  transaction: Transaction;
+  parts?: SplitPart[];
+  categories: string[];
+  taxonomy: CategoryTaxonomy;
+  /** Null removes the split. */
+  onSave: (parts: SplitPart[] | null) => void;
+  onCancel: () => void;
+}>) {
+  const { transaction, taxonomy } = props;
+  const bookedCurrency = transaction.originalCurrency ?? transaction.currency;
+  const total = Math.abs(transaction.originalAmount ?? transaction.amount);
+  const category = resolveMergedCategory(transaction.category, taxonomy);
+  const [rows, setRows] = useState(() =>
+    props.parts
+      ? props.parts.map((p) => ({ amount: String(p.amount), category: p.category }))
+      : [
+          { amount: total.toFixed(2), category },
+          { amount: "", category },
+        ]
+  );
+
+  // Amounts are rounded to cents before validating, so what passes here is exactly what gets saved.
+  const parts = rows.map((r) => ({ amount: Math.round(Number(r.amount) * 100) / 100, category: r.category }));
+  const remaining = total - parts.reduce((acc, p) => acc + (Number.isFinite(p.amount) ? p.amount : 0), 0);
+  const problem = validateSplitParts(parts, total);
+
+  function updateRow(index: number, patch: Partial<(typeof rows)[number]>) {
+    setRows((prev) => prev.map((r, i) => (i === index ? { ...r, ...patch } : r)));
+  }
+
+  return (
+      <div
+        style={{
+          position: "fixed",
+          inset: 0,
+          background: "rgba(0, 0, 0, 0.35)",
+          display: "flex",
+          alignItems: "center",
+          justifyContent: "center",
+          zIndex: 10,
+        }}
+      >
+        <div style={{ background: "Canvas", borderRadius: 8, padding: 16, width: 480, maxWidth: "90vw" }}>
+          <h2 style={{ margin: "0 0 8px" }}>Split transaction</h2>
+          <div style={{ color: "#555", marginBottom: 10 }}>
+            <strong>{merchantName(transaction)}</strong> · {transaction.date} · {formatMoney(-total, bookedCurrency)}
+          </div>
+
+          <div style={{ display: "grid", gap: 6 }}>
+            {rows.map((r, i) => (
+                <div key={i} style={{ display: "flex", gap: 8, alignItems: "center" }}>
+                  <input
+                    type="number"
+                    min={0}
+                    step={0.01}
+                    value={r.amount}
+                    onChange={(e) => updateRow(i, { amount: e.target.value })}
+                    style={{ width: 100 }}
+                  />
+                  <select value={r.category} onChange={(e) => updateRow(i, { category: e.target.value })}>
+                    {props.categories.map((c) => (
+                        <option key={c} value={c}>{categoryLabel(c, taxonomy)}</option>
+                    ))}
+                  </select>
+                  {Math.abs(remaining) >= 0.005 && (
+                      <button
+                        onClick={() => updateRow(i, { amount: Math.max(0, (Number(r.amount) || 0) + remaining).toFixed(2) })}
+                        title="Put the unassigned amount into this part"
+                        style={{ padding: "0 8px" }}
+                      >
+                        = rest
+                      </button>
+                  )}
+                  {rows.length > 2 && (
+                      <button onClick={() => setRows((prev) => prev.filter((_, j) => j !== i))} style={{ padding: "0 8px" }}>
+                        ✕
+                      </button>
+                  )}
                 </div>
-              )}
-              <MonthlyBarChart
-                monthlyExpenses={result.monthlyExpenses}
-                averageMonthExpenses={result.averageMonthExpenses}
-              />
+            ))}
+          </div>
+          <button onClick={() => setRows((prev) => [...prev, { amount: "", category }])} style={{ marginTop: 8 }}>
+            Add part
+          </button>
+
+          <div style={{ marginTop: 8, fontSize: 13, color: problem ? "#b71c1c" : "#2e7d32" }}>
+            {problem ?? "The parts add up to the full amount."}
+            {Math.abs(remaining) >= 0.005 && ` Unassigned: ${formatMoney(remaining, bookedCurrency)}.`}
+          </div>
+
+          <div style={{ marginTop: 14, display: "flex", gap: 10 }}>
+            <button onClick={() => props.onSave(parts)} disabled={problem !== null}>
+              Save
+            </button>
+            {props.parts && <button onClick={() => props.onSave(null)}>Remove split</button>}
+            <button onClick={props.onCancel}>Cancel</button>
+          </div>
+        </div>
+      </div>
+  );
+}
 
-              <CategoryBreakdown
-                  monthlyExpenses={result.monthlyExpenses}
-                  breakdownMode={breakdownMode}
-                  selectedMonth={selectedMonth}
-                  setBreakdownMode={setBreakdownMode}
-                  setSelectedMonth={setSelectedMonth}
-              />
+/** List of saved categorization rules and single-transaction overrides, with delete actions. */
+function CategoryRulesPanel(props: Readonly<{
+  rules: CategoryRule[];
+  taxonomy: CategoryTaxonomy;
+  overrideCount: number;
+  onDeleteRule: (id: string) => void;
+  onClearOverrides: () => void;
+}>) {
+  const matchLabels: Record<CategoryRuleMatch, string> = {
+    exact: "is exactly",
+    substring: "contains",
+    regex: "matches regex",
+  };
+
+  return (
+    <details style={{ marginTop: 24, borderTop: "1px solid #eee", paddingTop: 16 }}>
+      <summary style={{ cursor: "pointer" }}>
+        Categorization rules ({props.rules.length}) · single-transaction changes ({props.overrideCount})
+      </summary>
+
+      {props.rules.length ? (
+          <table style={{ width: "100%", borderCollapse: "collapse", marginTop: 10 }}>
+            <tbody>
+              {props.rules.map((r) => (
+                  <tr key={r.id}>
+                    <td style={{ padding: "8px 6px", borderBottom: "1px solid #f3f3f3" }}>
+                      Merchant {matchLabels[r.match]} <code>{r.pattern}</code> → <strong>{categoryLabel(r.category, props.taxonomy)}</strong>
+                    </td>
+                    <td style={{ padding: "8px 6px", borderBottom: "1px solid #f3f3f3", textAlign: "right" }}>
+                      <button onClick={() => props.onDeleteRule(r.id)} style={{ padding: "2px 10px" }}>
+                        Delete
+                      </button>
+                    </td>
+                  </tr>
+              ))}
+            </tbody>
+          </table>
+      ) : (
+          <div style={{ marginTop: 10 }}>No rules yet. Use ✎ in the tables above to change a category.</div>
+      )}
 
-              <CategoryTrends monthlyExpenses={result.monthlyExpenses} />
+      {props.overrideCount > 0 && (
+          <button onClick={props.onClearOverrides} style={{ marginTop: 10 }}>
+            Reset single-transaction changes
+          </button>
+      )}
+    </details>
+  );
+}
 
-              <TopRecurringTransactions monthlyExpenses={result.monthlyExpenses} />
-              <IdenticalRecurringTransactions monthlyExpenses={result.monthlyExpenses} />
+/**
+ * Alias table mapping raw merchant names to a canonical merchant, with a preview of the raw names
+ * a new alias would group.
+ */
+function MerchantAliasesPanel(props: Readonly<{
+  aliases: MerchantAlias[];
+  transactions: Transaction[];
+  onChange: (aliases: MerchantAlias[]) => void;
+}>) {
+  const [match, setMatch] = useState<CategoryRuleMatch>("substring");
+  const [pattern, setPattern] = useState("");
+  const [merchant, setMerchant] = useState("");
+
+  const rawNames = useMemo(
+    () => [...new Set(props.transactions.map((t) => t.merchant.replace(/\s+/g, " ").trim()))].sort((a, b) => a.localeCompare(b)),
+    [props.transactions]
+  );
+  const canonicalNames = useMemo(
+    () => [...new Set(props.transactions.map(merchantName))].sort((a, b) => a.localeCompare(b)),
+    [props.transactions]
+  );
+  const regexError = useMemo(() => {
+    if (match !== "regex") return null;
+    try {
+      new RegExp(pattern, "i");
+      return null;
+    } catch (err) {
+      return err instanceof Error ? err.message : String(err);
+    }
+  }, [match, pattern]);
+  const matched = useMemo(() => {
+    if (!pattern.trim() || regexError) return [];
+    const test = compileCategoryRule({ match, pattern });
+    return rawNames.filter((name) => test(name) || test(normalizeMerchantName(name)));
+  }, [rawNames, match, pattern, regexError]);
+
+  function addAlias() {
+    if (!pattern.trim() || !merchant.trim() || regexError) return;
+    props.onChange([{ id: crypto.randomUUID(), match, pattern: pattern.trim(), merchant: merchant.trim() }, ...props.aliases]);
+    setPattern("");
+    setMerchant("");
+  }
+
+  const matchLabels: Record<CategoryRuleMatch, string> = {
+    exact: "is exactly",
+    substring: "contains",
+    regex: "matches regex",
+  };
+  const cellStyle = { padding: "8px 6px", borderBottom: "1px solid #f3f3f3" };
+
+  return (
+    <details style={{ marginTop: 24, borderTop: "1px solid #eee", paddingTop: 16 }}>
+      <summary style={{ cursor: "pointer" }}>Merchant aliases ({props.aliases.length})</summary>
+      <div style={{ marginTop: 8, color: "#666", fontSize: 13 }}>
+        Names are normalized first: payment-processor prefixes, marked store numbers (“#12”, “nr 12”) and card
+        suffixes are removed, and branches of well-known chains are grouped under the chain. Other branches need an
+        alias, which groups every merchant whose raw or normalized name matches under one name; the newest match wins.
+      </div>
+
+      {props.aliases.length > 0 && (
+          <table style={{ width: "100%", borderCollapse: "collapse", marginTop: 10 }}>
+            <tbody>
+              {props.aliases.map((a) => (
+                  <tr key={a.id}>
+                    <td style={cellStyle}>
+                      Merchant {matchLabels[a.match]} <code>{a.pattern}</code> → <strong>{a.merchant}</strong>
+                    </td>
+                    <td style={{ ...cellStyle, textAlign: "right" }}>
+                      <button
+                        onClick={() => props.onChange(props.aliases.filter((x) => x.id !== a.id))}
+                        style={{ padding: "2px 10px" }}
+                      >
+                        Delete
+                      </button>
+                    </td>
+                  </tr>
+              ))}
+            </tbody>
+          </table>
+      )}
+
+      <div style={{ marginTop: 12, display: "flex", gap: 8, alignItems: "center", flexWrap: "wrap" }}>
+        <span>Merchant</span>
+        <select value={match} onChange={(e) => setMatch(e.target.value as CategoryRuleMatch)}>
+          <option value="exact">is exactly</option>
+          <option value="substring">contains</option>
+          <option value="regex">matches regex</option>
+        </select>
+        <input value={pattern} onChange={(e) => setPattern(e.target.value)} placeholder="e.g. k-market" />
+        <span>→</span>
+        <input
+          value={merchant}
+          onChange={(e) => setMerchant(e.target.value)}
+          placeholder="Canonical name"
+          list="merchant-alias-names"
+        />
+        <datalist id="merchant-alias-names">
+          {canonicalNames.map((name) => (
+              <option key={name} value={name} />
+          ))}
+        </datalist>
+        <button onClick={addAlias} disabled={!pattern.trim() || !merchant.trim() || !!regexError}>
+          Add alias
+        </button>
+      </div>
+      {regexError ? (
+          <div style={{ marginTop: 6, color: "#c62828", fontSize: 13 }}>Invalid regex: {regexError}</div>
+      ) : pattern.trim() ? (
+          <div style={{ marginTop: 6, color: "#555", fontSize: 13 }}>
+            Matches {matched.length} merchant name{matched.length === 1 ? "" : "s"}
+            {matched.length > 0 && `: ${matched.slice(0, 8).join(", ")}${matched.length > 8 ? ", …" : ""}`}
+          </div>
+      ) : null}
+    </details>
+  );
+}
+
+/**
+ * Budget vs actual progress bars for one month, with an editor for monthly budgets and
+ * single-month overrides.
+ */
+function BudgetPanel(props: Readonly<{
+  monthlyExpenses: MonthlyExpense[];
+  month: string;
+  taxonomy: CategoryTaxonomy;
+  categoryKeys: string[];
+  budgets: Budgets;
+  currency: string;
+  onChange: (next: Budgets) => void;
+}>) {
+  const { budgets, taxonomy, month, currency } = props;
+  const [draftCategory, setDraftCategory] = useState("");
+  const [draftAmount, setDraftAmount] = useState("");
+  const [draftScope, setDraftScope] = useState<"monthly" | "month">("monthly");
+
+  const progress = useMemo(
+    () => computeBudgetProgress(budgets, props.monthlyExpenses, month, taxonomy),
+    [budgets, props.monthlyExpenses, month, taxonomy]
+  );
+  const draftValue = Number(draftAmount);
+  const canSave = !!draftCategory && draftAmount.trim() !== "" && Number.isFinite(draftValue) && draftValue >= 0;
+
+  function saveDraft() {
+    if (!canSave) return;
+    const current = budgets[draftCategory] ?? { monthly: null, months: {} };
+    const next =
+      draftScope === "monthly"
+        ? { ...current, monthly: draftValue }
+        : { ...current, months: { ...current.months, [month]: draftValue } };
+    props.onChange({ ...budgets, [draftCategory]: next });
+    setDraftAmount("");
+  }
+
+  function removeBudget(category: string) {
+    const next = { ...budgets };
+    delete next[category];
+    props.onChange(next);
+  }
+
+  function removeOverride(category: string, overrideMonth: string) {
+    const months = { ...budgets[category].months };
+    delete months[overrideMonth];
+    if (budgets[category].monthly === null && !Object.keys(months).length) removeBudget(category);
+    else props.onChange({ ...budgets, [category]: { ...budgets[category], months } });
+  }
+
+  const bar = (row: BudgetProgress, bold = false) => {
+    const ratio = row.budget > 0 ? row.spent / row.budget : row.spent > 0 ? Infinity : 0;
+    const color = ratio > 1 ? "#c62828" : ratio >= 0.9 ? "#ef6c00" : "#2e7d32";
+    return (
+        <div key={row.category} style={{ marginBottom: 8, fontWeight: bold ? 700 : undefined }}>
+          <div style={{ display: "flex", justifyContent: "space-between", fontSize: 14 }}>
+            <span>{row.category === "total" ? "Total budgeted" : categoryLabel(row.category, taxonomy)}</span>
+            <span style={{ color: ratio > 1 ? color : "#555" }}>
+              {formatMoney(row.spent, currency)} / {formatMoney(row.budget, currency)}
+              {ratio > 1 && ` · ${formatMoney((row.spent - row.budget), currency)} over`}
+            </span>
+          </div>
+          <div style={{ height: 8, background: "#f0f0f0", borderRadius: 4, overflow: "hidden", marginTop: 2 }}>
+            <div style={{ width: `${Math.min(100, ratio * 100)}%`, height: "100%", background: color }} />
+          </div>
+        </div>
+    );
+  };
+
+  return (
+    <div style={{ marginTop: 24, borderTop: "1px solid #eee", paddingTop: 16 }}>
+      <h2 style={{ margin: "0 0 12px" }}>Budgets{month && ` — ${formatMonthLabel(month)}`}</h2>
+
+      {progress.rows.length ? (
+          <>
+            {progress.rows.map((row) => bar(row))}
+            {progress.total && progress.rows.length > 1 && bar(progress.total, true)}
+          </>
+      ) : (
+          <div style={{ color: "#555" }}>No budgets for this month yet.</div>
+      )}
+
+      <details style={{ marginTop: 8 }}>
+        <summary style={{ cursor: "pointer", color: "#555" }}>Edit budgets</summary>
+
+        <div style={{ marginTop: 10, display: "flex", gap: 8, alignItems: "center", flexWrap: "wrap" }}>
+          <select value={draftCategory} onChange={(e) => setDraftCategory(e.target.value)}>
+            <option value="">Category…</option>
+            {props.categoryKeys.map((k) => (
+                <option key={k} value={k}>
+                  {findCategory(taxonomy, k)?.parent ? "\u00A0\u00A0" : ""}
+                  {categoryLabel(k, taxonomy)}
+                </option>
+            ))}
+          </select>
+          <label style={{ color: "#555" }}>
+            {currencySymbol(currency)}{" "}
+            <input
+              type="number"
+              min={0}
+              value={draftAmount}
+              onChange={(e) => setDraftAmount(e.target.value)}
+              style={{ width: 100 }}
+            />
+          </label>
+          <select value={draftScope} onChange={(e) => setDraftScope(e.target.value as "monthly" | "month")}>
+            <option value="monthly">every month</option>
+            {month && <option value="month">only {formatMonthLabel(month)}</option>}
+          </select>
+          <button onClick={saveDraft} disabled={!canSave}>
+            Set budget
+          </button>
+        </div>
+
+        {Object.keys(budgets).length > 0 && (
+            <table style={{ width: "100%", borderCollapse: "collapse", marginTop: 10, fontSize: 14 }}>
+              <tbody>
+                {Object.entries(budgets).map(([category, budget]) => (
+                    <tr key={category}>
+                      <td style={{ padding: "6px", borderBottom: "1px solid #f3f3f3" }}>
+                        <strong>{categoryLabel(category, taxonomy)}</strong>
+                      </td>
+                      <td style={{ padding: "6px", borderBottom: "1px solid #f3f3f3" }}>
+                        {budget.monthly !== null ? `${formatMoney(budget.monthly, currency)} / month` : "—"}
+                        {Object.entries(budget.months)
+                          .sort(([a], [b]) => a.localeCompare(b))
+                          .map(([m, amount]) => (
+                              <span key={m} style={{ marginLeft: 10, color: "#555", whiteSpace: "nowrap" }}>
+                                {formatMonthLabel(m)}: {formatMoney(amount, currency)}
+                                <button
+                                  onClick={() => removeOverride(category, m)}
+                                  title="Remove this month's budget"
+                                  style={{ marginLeft: 4, padding: "0 6px", fontSize: 12 }}
+                                >
+                                  ×
+                                </button>
+                              </span>
+                          ))}
+                      </td>
+                      <td style={{ padding: "6px", borderBottom: "1px solid #f3f3f3", textAlign: "right" }}>
+                        <button onClick={() => removeBudget(category)} style={{ padding: "2px 10px" }}>
+                          Delete
+                        </button>
+                      </td>
+                    </tr>
+                ))}
+              </tbody>
+            </table>
+        )}
+      </details>
+    </div>
+  );
+}
+
+/**
+ * Internal transfers between our own accounts. Detected pairs are excluded from income and expenses
+ * until unlinked; confirming a pair keeps it even if the detection rules would no longer pick it.
+ */
+function InternalTransfersPanel(props: Readonly<{
+  pairs: TransferPair[];
+  /** Possible transfers between untagged imports of one bank, which are never paired. */
+  untaggedCandidates: number;
+  unlinkedCount: number;
+  onConfirm: (id: string) => void;
+  onUnlink: (id: string) => void;
+  onResetUnlinked: () => void;
+  currency: string;
+}>) {
+  const { currency } = props;
+  const cellStyle = { padding: "6px", borderBottom: "1px solid #f3f3f3", whiteSpace: "nowrap" as const };
+  const total = props.pairs.reduce((acc, p) => acc + p.incoming.amount, 0);
+
+  return (
+    <details style={{ marginTop: 24, borderTop: "1px solid #eee", paddingTop: 16 }}>
+      <summary style={{ cursor: "pointer" }}>
+        Internal transfers ({props.pairs.length}) · {formatMoney(total, currency)} excluded from totals
+        {props.untaggedCandidates > 0 && <span style={{ color: "#b26a00" }}> · {props.untaggedCandidates} not paired</span>}
+      </summary>
+
+      {props.untaggedCandidates > 0 && (
+          <div style={{ marginTop: 10, color: "#b26a00" }}>
+            {props.untaggedCandidates} possible {props.untaggedCandidates === 1 ? "transfer" : "transfers"} between
+            imports from the same bank {props.untaggedCandidates === 1 ? "was" : "were"} not paired: without an account
+            tag, two files from one bank may be exports of the same account. Tag those imports with their account under
+            “Stored imports” to pair them.
+          </div>
+      )}
+
+      {props.pairs.length ? (
+          <div style={{ overflowX: "auto" }}>
+            <table style={{ width: "100%", borderCollapse: "collapse", marginTop: 10, fontSize: 14 }}>
+              <thead>
+                <tr>
+                  <th style={{ ...cellStyle, textAlign: "left", borderBottom: "1px solid #eee" }}>Date</th>
+                  <th style={{ ...cellStyle, textAlign: "left", borderBottom: "1px solid #eee" }}>From</th>
+                  <th style={{ ...cellStyle, textAlign: "left", borderBottom: "1px solid #eee" }}>To</th>
+                  <th style={{ ...cellStyle, textAlign: "right", borderBottom: "1px solid #eee" }}>Amount</th>
+                  <th style={{ ...cellStyle, borderBottom: "1px solid #eee" }} />
+                </tr>
+              </thead>
+              <tbody>
+                {props.pairs.map((p) => (
+                    <tr key={p.id}>
+                      <td style={cellStyle}>
+                        {p.outgoing.date}
+                        {p.days > 0 && <span style={{ color: "#888", fontSize: 12 }}> (+{p.days}d)</span>}
+                      </td>
+                      <td style={{ ...cellStyle, whiteSpace: "normal" }} title={p.outgoing.description}>
+                        {p.outgoing.account ?? p.outgoing.sourceFile}
+                        <div style={{ color: "#888", fontSize: 12 }}>{p.outgoing.merchant}</div>
+                      </td>
+                      <td style={{ ...cellStyle, whiteSpace: "normal" }} title={p.incoming.description}>
+                        {p.incoming.account ?? p.incoming.sourceFile}
+                        <div style={{ color: "#888", fontSize: 12 }}>{p.incoming.merchant}</div>
+                      </td>
+                      <td style={{ ...cellStyle, textAlign: "right" }}>{formatMoney(p.incoming.amount, p.incoming.currency)}</td>
+                      <td style={{ ...cellStyle, textAlign: "right" }}>
+                        {p.confirmed ? (
+                            <span style={{ color: "#2e7d32", marginRight: 8 }}>confirmed</span>
+                        ) : (
+                            <button onClick={() => props.onConfirm(p.id)} style={{ padding: "2px 10px", marginRight: 6 }}>
+                              Confirm
+                            </button>
+                        )}
+                        <button onClick={() => props.onUnlink(p.id)} style={{ padding: "2px 10px" }}>
+                          Unlink
+                        </button>
+                      </td>
+                    </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+      ) : (
+          <div style={{ marginTop: 10 }}>
+            No transfers found. Transfers are matched across accounts by equal amount within {TRANSFER_MAX_DAYS} days.
+          </div>
+      )}
+
+      {props.unlinkedCount > 0 && (
+          <button onClick={props.onResetUnlinked} style={{ marginTop: 10 }}>
+            Restore unlinked pairs ({props.unlinkedCount})
+          </button>
+      )}
+    </details>
+  );
+}
+
+/** Each member's share of every category, and the settle-up of shared expenses between members. */
+function HouseholdPanel(props: Readonly<{
+  transactions: Transaction[];
+  taxonomy: CategoryTaxonomy;
+  split: HouseholdSplit;
+  onChange: (next: HouseholdSplit) => void;
+  currency: string;
+}>) {
+  const { taxonomy, split, currency } = props;
+  const ownerSplit = useMemo(() => computeOwnerSplit(props.transactions, taxonomy), [props.transactions, taxonomy]);
+  const settleUp = useMemo(() => computeSettleUp(props.transactions, split, taxonomy), [props.transactions, split, taxonomy]);
+
+  const cellStyle = { padding: "6px", borderBottom: "1px solid #f3f3f3", whiteSpace: "nowrap" as const };
+  const headStyle = { ...cellStyle, borderBottom: "1px solid #eee" };
+
+  function toggleShared(category: string, shared: boolean) {
+    const rest = split.sharedCategories.filter((c) => c !== category);
+    props.onChange({ ...split, sharedCategories: shared ? [...rest, category] : rest });
+  }
+
+  if (ownerSplit.owners.length < 2) return null;
+
+  return (
+    <div style={{ marginTop: 24, borderTop: "1px solid #eee", paddingTop: 16 }}>
+      <h2 style={{ margin: "0 0 12px" }}>Household</h2>
+      <div style={{ overflowX: "auto" }}>
+        <table style={{ width: "100%", borderCollapse: "collapse", fontSize: 14 }}>
+          <thead>
+            <tr>
+              <th style={{ ...headStyle, textAlign: "left" }}>Category</th>
+              {ownerSplit.owners.map((o) => (
+                  <th key={o} style={{ ...headStyle, textAlign: "right" }}>
+                    {o}
+                  </th>
+              ))}
+              <th style={{ ...headStyle, textAlign: "right" }}>Total</th>
+              <th style={{ ...headStyle, textAlign: "center" }} title="Counted in the settle-up">
+                Shared
+              </th>
+            </tr>
+          </thead>
+          <tbody>
+            {ownerSplit.rows.map((r) => (
+                <tr key={r.category}>
+                  <td style={{ ...cellStyle, whiteSpace: "normal" }}>{categoryLabel(r.category, taxonomy)}</td>
+                  {ownerSplit.owners.map((o) => (
+                      <td key={o} style={{ ...cellStyle, textAlign: "right" }}>
+                        {r.byOwner[o] ? (
+                            <>
+                              {formatMoney(r.byOwner[o], currency)}{" "}
+                              <span style={{ color: "#888", fontSize: 12 }}>{((r.byOwner[o] / r.total) * 100).toFixed(0)}%</span>
+                            </>
+                        ) : (
+                            "—"
+                        )}
+                      </td>
+                  ))}
+                  <td style={{ ...cellStyle, textAlign: "right", fontWeight: 600 }}>{formatMoney(r.total, currency)}</td>
+                  <td style={{ ...cellStyle, textAlign: "center" }}>
+                    <input
+                      type="checkbox"
+                      checked={split.sharedCategories.includes(r.category)}
+                      onChange={(e) => toggleShared(r.category, e.target.checked)}
+                    />
+                  </td>
+                </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+
+      <h3 style={{ margin: "16px 0 8px" }}>Settle up</h3>
+      {settleUp.rows.length < 2 ? (
+          <div style={{ color: "#666" }}>Tag the accounts of at least two members to settle up between them.</div>
+      ) : (
+          <>
+            <table style={{ borderCollapse: "collapse", fontSize: 14 }}>
+              <thead>
+                <tr>
+                  <th style={{ ...headStyle, textAlign: "left" }}>Member</th>
+                  <th style={{ ...headStyle, textAlign: "right" }}>Weight</th>
+                  <th style={{ ...headStyle, textAlign: "right" }}>Paid</th>
+                  <th style={{ ...headStyle, textAlign: "right" }}>Share</th>
+                  <th style={{ ...headStyle, textAlign: "right" }}>Balance</th>
+                </tr>
+              </thead>
+              <tbody>
+                {settleUp.rows.map((r) => (
+                    <tr key={r.owner}>
+                      <td style={cellStyle}>{r.owner}</td>
+                      <td style={{ ...cellStyle, textAlign: "right" }}>
+                        <input
+                          type="number"
+                          min={0}
+                          step={0.5}
+                          value={split.weights[r.owner] ?? 1}
+                          onChange={(e) =>
+                            props.onChange({ ...split, weights: { ...split.weights, [r.owner]: Math.max(0, Number(e.target.value) || 0) } })
+                          }
+                          style={{ width: 60 }}
+                        />
+                      </td>
+                      <td style={{ ...cellStyle, textAlign: "right" }}>{formatMoney(r.paid, currency)}</td>
+                      <td style={{ ...cellStyle, textAlign: "right" }}>{formatMoney(r.share, currency)}</td>
+                      <td style={{ ...cellStyle, textAlign: "right", color: r.balance < -0.005 ? "#b71c1c" : "#2e7d32" }}>
+                        {formatMoney(r.balance, currency)}
+                      </td>
+                    </tr>
+                ))}
+              </tbody>
+            </table>
+            <div style={{ marginTop: 8 }}>
+              {!split.sharedCategories.length ? (
+                  <span style={{ color: "#666" }}>Tick the shared categories above to settle up their expenses.</span>
+              ) : settleUp.transfers.length ? (
+                  settleUp.transfers.map((t) => (
+                      <div key={`${t.from}->${t.to}`}>
+                        <strong>{t.from}</strong> pays <strong>{t.to}</strong> {formatMoney(t.amount, currency)}
+                      </div>
+                  ))
+              ) : (
+                  <span style={{ color: "#2e7d32" }}>All settled.</span>
+              )}
+            </div>
+            <div style={{ marginTop: 8, color: "#666", fontSize: 12 }}>
+              {formatMoney(settleUp.total, currency)} of shared expenses paid from personal accounts, divided by weight.
+              Joint accounts are already shared and stay out of the settle-up.
+            </div>
+          </>
+      )}
+    </div>
+  );
+}
+
+/** Spend per tag split by category or month, plus the saved tag rules. */
+function TagReport(props: Readonly<{
+  transactions: Transaction[];
+  taxonomy: CategoryTaxonomy;
+  rules: TagRule[];
+  tagFilter: string;
+  onFilter: (tag: string) => void;
+  onDeleteRule: (id: string) => void;
+  currency: string;
+}>) {
+  const { taxonomy, currency } = props;
+  const [columns, setColumns] = useState<"category" | "month">("category");
+  const rows = useMemo(() => computeTagReport(props.transactions, taxonomy), [props.transactions, taxonomy]);
+  const keys = useMemo(() => {
+    if (columns === "month") return [...new Set(rows.flatMap((r) => Object.keys(r.byMonth)))].sort();
+    const totals: Record<string, number> = {};
+    for (const r of rows) for (const [k, v] of Object.entries(r.byCategory)) totals[k] = (totals[k] ?? 0) + v;
+    return Object.keys(totals).sort((a, b) => totals[b] - totals[a]);
+  }, [rows, columns]);
+
+  const cellStyle = { padding: "6px", borderBottom: "1px solid #f3f3f3", whiteSpace: "nowrap" as const };
+  const headStyle = { ...cellStyle, borderBottom: "1px solid #eee" };
+  const matchLabels: Record<CategoryRuleMatch, string> = {
+    exact: "is exactly",
+    substring: "contains",
+    regex: "matches regex",
+  };
+
+  return (
+    <div style={{ marginTop: 24, borderTop: "1px solid #eee", paddingTop: 16 }}>
+      <div style={{ display: "flex", gap: 12, alignItems: "center", flexWrap: "wrap", marginBottom: 12 }}>
+        <h2 style={{ margin: 0 }}>Tags</h2>
+        <label style={{ color: "#555" }}>
+          Split by:{" "}
+          <select value={columns} onChange={(e) => setColumns(e.target.value as "category" | "month")}>
+            <option value="category">Category</option>
+            <option value="month">Month</option>
+          </select>
+        </label>
+      </div>
+
+      {rows.length ? (
+          <div style={{ overflowX: "auto" }}>
+            <table style={{ width: "100%", borderCollapse: "collapse", fontSize: 14 }}>
+              <thead>
+                <tr>
+                  <th style={{ ...headStyle, textAlign: "left" }}>Tag</th>
+                  <th style={{ ...headStyle, textAlign: "right" }}>Transactions</th>
+                  <th style={{ ...headStyle, textAlign: "right" }}>Total</th>
+                  {keys.map((k) => (
+                      <th key={k} style={{ ...headStyle, textAlign: "right" }}>
+                        {columns === "month" ? formatMonthShort(k) : categoryLabel(k, taxonomy)}
+                      </th>
+                  ))}
+                </tr>
+              </thead>
+              <tbody>
+                {rows.map((r) => (
+                    <tr key={r.tag}>
+                      <td style={cellStyle}>
+                        <button
+                          onClick={() => props.onFilter(props.tagFilter === r.tag ? "" : r.tag)}
+                          title={props.tagFilter === r.tag ? "Show all transactions again" : "Limit every view to this tag"}
+                          style={{ padding: "0 6px", fontWeight: props.tagFilter === r.tag ? 700 : undefined }}
+                        >
+                          #{r.tag}
+                        </button>
+                      </td>
+                      <td style={{ ...cellStyle, textAlign: "right" }}>{r.count}</td>
+                      <td style={{ ...cellStyle, textAlign: "right", fontWeight: 600 }}>{formatMoney(r.total, currency)}</td>
+                      {keys.map((k) => {
+                        const value = (columns === "month" ? r.byMonth : r.byCategory)[k];
+                        return (
+                            <td key={k} style={{ ...cellStyle, textAlign: "right" }}>
+                              {value ? formatMoney(value, currency) : "—"}
+                            </td>
+                        );
+                      })}
+                    </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+      ) : (
+          <div style={{ color: "#666" }}>No tagged expenses in this period. Use the Tags column in the ledger to add tags.</div>
+      )}
+
+      <details style={{ marginTop: 12 }}>
+        <summary style={{ cursor: "pointer", color: "#555" }}>Tag rules ({props.rules.length})</summary>
+        {props.rules.length ? (
+            <table style={{ width: "100%", borderCollapse: "collapse", marginTop: 8 }}>
+              <tbody>
+                {props.rules.map((r) => (
+                    <tr key={r.id}>
+                      <td style={{ padding: "8px 6px", borderBottom: "1px solid #f3f3f3" }}>
+                        Merchant {matchLabels[r.match]} <code>{r.pattern}</code> → <strong>#{r.tag}</strong>
+                      </td>
+                      <td style={{ padding: "8px 6px", borderBottom: "1px solid #f3f3f3", textAlign: "right" }}>
+                        <button onClick={() => props.onDeleteRule(r.id)} style={{ padding: "2px 10px" }}>
+                          Delete
+                        </button>
+                      </td>
+                    </tr>
+                ))}
+              </tbody>
+            </table>
+        ) : (
+            <div style={{ marginTop: 8 }}>No tag rules yet.</div>
+        )}
+      </details>
+    </div>
+  );
+}
+
+/** Common reporting currencies offered next to the ones found in the data. */
+const COMMON_CURRENCIES = ["EUR", "USD", "GBP", "SEK", "NOK", "DKK", "CHF", "PLN", "JPY"];
+
+/**
+ * Reporting currency picker and the local exchange-rate table: manual entries, CSV import of daily
+ * rates and a list of currencies that still lack a rate.
+ */
+function ExchangeRatesPanel(props: Readonly<{
+  reportingCurrency: string;
+  dataCurrencies: string[];
+  rates: ExchangeRate[];
+  missing: Record<string, number>;
+  onChangeCurrency: (currency: string) => void;
+  onChangeRates: (rates: ExchangeRate[]) => void;
+}>) {
+  const { reportingCurrency, rates, missing } = props;
+  const [date, setDate] = useState("");
+  const [base, setBase] = useState("");
+  const [rate, setRate] = useState("");
+  const [importError, setImportError] = useState<string | null>(null);
+  const fileInputRef = useRef<HTMLInputElement | null>(null);
+
+  const currencies = [...new Set([...props.dataCurrencies, ...COMMON_CURRENCIES, reportingCurrency])];
+  const missingEntries = Object.entries(missing);
+  const rateValue = Number(rate.replace(",", "."));
+  const canAdd = /^[A-Z]{3}$/.test(base) && base !== reportingCurrency && rateValue > 0;
+  const cellStyle = { padding: "6px", borderBottom: "1px solid #f3f3f3", whiteSpace: "nowrap" as const };
+
+  function addRate() {
+    props.onChangeRates(mergeExchangeRates(rates, [{ date, base, quote: reportingCurrency, rate: rateValue }]));
+    setRate("");
+  }
+
+  async function importCsv(file: File) {
+    setImportError(null);
+    try {
+      const added = parseExchangeRatesCsv(await file.text(), reportingCurrency);
+      if (!added.length) throw new Error(`No valid rates found in ${file.name}.`);
+      props.onChangeRates(mergeExchangeRates(rates, added));
+    } catch (err) {
+      setImportError(err instanceof Error ? err.message : String(err));
+    }
+  }
+
+  return (
+    <details open={missingEntries.length > 0} style={{ marginTop: 24, borderTop: "1px solid #eee", paddingTop: 16 }}>
+      <summary style={{ cursor: "pointer" }}>
+        Currency & exchange rates ({reportingCurrency}, {rates.length} {rates.length === 1 ? "rate" : "rates"})
+      </summary>
+
+      <label style={{ display: "block", marginTop: 10 }}>
+        Reporting currency:{" "}
+        <select value={reportingCurrency} onChange={(e) => props.onChangeCurrency(e.target.value)}>
+          {currencies.map((c) => (
+              <option key={c} value={c}>
+                {c}
+              </option>
+          ))}
+        </select>
+      </label>
+
+      {missingEntries.length > 0 && (
+          <div style={{ marginTop: 10, color: "#b71c1c" }}>
+            No rate to {reportingCurrency} for{" "}
+            {missingEntries.map(([c, count]) => `${c} (${count} ${count === 1 ? "transaction" : "transactions"})`).join(", ")}.
+            These transactions are left out of totals and lists until a rate is added.
+          </div>
+      )}
+
+      <div style={{ display: "flex", gap: 8, flexWrap: "wrap", alignItems: "center", marginTop: 12 }}>
+        <input type="date" value={date} onChange={(e) => setDate(e.target.value)} title="Leave empty for a fallback rate" />
+        1
+        <input
+          value={base}
+          onChange={(e) => setBase(e.target.value.toUpperCase().slice(0, 3))}
+          placeholder="USD"
+          style={{ width: 50 }}
+        />
+        =
+        <input value={rate} onChange={(e) => setRate(e.target.value)} placeholder="0.92" style={{ width: 80 }} />
+        {reportingCurrency}
+        <button onClick={addRate} disabled={!canAdd}>
+          Add rate
+        </button>
+        <button onClick={() => fileInputRef.current?.click()}>Import CSV…</button>
+        <input
+          ref={fileInputRef}
+          type="file"
+          accept=".csv,text/csv"
+          style={{ display: "none" }}
+          onChange={(e) => {
+            const file = e.target.files?.[0];
+            e.target.value = "";
+            if (file) void importCsv(file);
+          }}
+        />
+      </div>
+      <div style={{ marginTop: 6, color: "#888", fontSize: 12 }}>
+        CSV columns: date, currency, rate (quoted in {reportingCurrency}) or date, base, quote, rate.
+      </div>
+      {importError && <div style={{ marginTop: 6, color: "red" }}>{importError}</div>}
+
+      {rates.length > 0 && (
+          <div style={{ overflowX: "auto", maxHeight: 300, overflowY: "auto", marginTop: 10 }}>
+            <table style={{ width: "100%", borderCollapse: "collapse", fontSize: 14 }}>
+              <thead>
+                <tr>
+                  <th style={{ ...cellStyle, textAlign: "left", borderBottom: "1px solid #eee" }}>Date</th>
+                  <th style={{ ...cellStyle, textAlign: "left", borderBottom: "1px solid #eee" }}>Pair</th>
+                  <th style={{ ...cellStyle, textAlign: "right", borderBottom: "1px solid #eee" }}>Rate</th>
+                  <th style={{ ...cellStyle, borderBottom: "1px solid #eee" }} />
+                </tr>
+              </thead>
+              <tbody>
+                {rates.map((r) => (
+                    <tr key={`${r.date}|${r.base}|${r.quote}`}>
+                      <td style={cellStyle}>{r.date || <span style={{ color: "#888" }}>any date</span>}</td>
+                      <td style={cellStyle}>
+                        {r.base} → {r.quote}
+                      </td>
+                      <td style={{ ...cellStyle, textAlign: "right" }}>{r.rate}</td>
+                      <td style={{ ...cellStyle, textAlign: "right" }}>
+                        <button onClick={() => props.onChangeRates(rates.filter((x) => x !== r))} style={{ padding: "2px 10px" }}>
+                          Delete
+                        </button>
+                      </td>
+                    </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+      )}
+    </details>
+  );
+}
+
+/**
+ * Editor for the category taxonomy: create, rename, recolor, nest and merge categories.
+ * Categories that only exist in the data are listed too and get a definition on first edit.
+ */
+function CategoryManager(props: Readonly<{
+  taxonomy: CategoryTaxonomy;
+  categoryKeys: string[];
+  colors: Record<string, string>;
+  onChange: (taxonomy: CategoryTaxonomy) => void;
+  onMerge: (from: string, into: string) => void;
+}>) {
+  const { taxonomy, categoryKeys } = props;
+  const [newLabel, setNewLabel] = useState("");
+  const [newParent, setNewParent] = useState("");
+
+  const topLevel = categoryKeys.filter((k) => !findCategory(taxonomy, k)?.parent);
+  const rows = topLevel.flatMap((k) => [
+    { key: k, depth: 0 },
+    ...childCategories(k, taxonomy).map((c) => ({ key: c, depth: 1 })),
+  ]);
+
+  function addCategory() {
+    const label = newLabel.trim();
+    if (!label) return;
+    const key = makeCategoryKey(label, categoryKeys, taxonomy);
+    props.onChange(upsertCategory(taxonomy, key, { label, parent: newParent || undefined }));
+    setNewLabel("");
+  }
+
+  const cellStyle = { padding: "6px", borderBottom: "1px solid #f3f3f3" };
+
+  return (
+    <details style={{ marginTop: 24, borderTop: "1px solid #eee", paddingTop: 16 }}>
+      <summary style={{ cursor: "pointer" }}>Manage categories ({categoryKeys.length})</summary>
+
+      <table style={{ width: "100%", borderCollapse: "collapse", marginTop: 10 }}>
+        <thead>
+          <tr>
+            <th style={{ ...cellStyle, textAlign: "left", borderBottom: "1px solid #eee" }}>Name</th>
+            <th style={{ ...cellStyle, textAlign: "left", borderBottom: "1px solid #eee" }}>Parent</th>
+            <th style={{ ...cellStyle, textAlign: "left", borderBottom: "1px solid #eee" }}>Merge into</th>
+          </tr>
+        </thead>
+        <tbody>
+          {rows.map(({ key, depth }) => {
+            const hasChildren = childCategories(key, taxonomy).length > 0;
+            return (
+                <tr key={key}>
+                  <td style={{ ...cellStyle, paddingLeft: 6 + depth * 24, whiteSpace: "nowrap" }}>
+                    <input
+                      type="color"
+                      value={hslToHex(props.colors[key] ?? "#888888")}
+                      onChange={(e) => props.onChange(upsertCategory(taxonomy, key, { color: e.target.value }))}
+                      title="Color"
+                      style={{ width: 28, height: 24, padding: 0, border: "none", verticalAlign: "middle" }}
+                    />{" "}
+                    <input
+                      value={findCategory(taxonomy, key)?.label ?? humanizeCategoryKey(key)}
+                      onChange={(e) => props.onChange(upsertCategory(taxonomy, key, { label: e.target.value }))}
+                      placeholder={humanizeCategoryKey(key)}
+                    />
+                  </td>
+                  <td style={cellStyle}>
+                    <select
+                      value={findCategory(taxonomy, key)?.parent ?? ""}
+                      disabled={hasChildren}
+                      title={hasChildren ? "Categories with subcategories stay at the top level" : undefined}
+                      onChange={(e) => props.onChange(upsertCategory(taxonomy, key, { parent: e.target.value }))}
+                    >
+                      <option value="">(top level)</option>
+                      {topLevel
+                        .filter((k) => k !== key)
+                        .map((k) => (
+                            <option key={k} value={k}>{categoryLabel(k, taxonomy)}</option>
+                        ))}
+                    </select>
+                  </td>
+                  <td style={cellStyle}>
+                    <select
+                      value=""
+                      onChange={(e) => {
+                        const into = e.target.value;
+                        if (
+                          into &&
+                          window.confirm(
+                            `Merge "${categoryLabel(key, taxonomy)}" into "${categoryLabel(into, taxonomy)}"? Its transactions and rules move over.`
+                          )
+                        ) {
+                          props.onMerge(key, into);
+                        }
+                      }}
+                    >
+                      <option value="">—</option>
+                      {categoryKeys
+                        .filter((k) => k !== key)
+                        .map((k) => (
+                            <option key={k} value={k}>{categoryLabel(k, taxonomy)}</option>
+                        ))}
+                    </select>
+                  </td>
+                </tr>
+            );
+          })}
+        </tbody>
+      </table>
+
+      <div style={{ marginTop: 10, display: "flex", gap: 8, alignItems: "center", flexWrap: "wrap" }}>
+        <input value={newLabel} onChange={(e) => setNewLabel(e.target.value)} placeholder="New category name" />
+        <select value={newParent} onChange={(e) => setNewParent(e.target.value)}>
+          <option value="">(top level)</option>
+          {topLevel.map((k) => (
+              <option key={k} value={k}>{categoryLabel(k, taxonomy)}</option>
+          ))}
+        </select>
+        <button onClick={addCategory} disabled={!newLabel.trim()}>
+          Add category
+        </button>
+      </div>
+    </details>
+  );
+}
+
+/**
+ * Review screen for suspected duplicates of a new upload. Duplicates are dropped by default;
+ * ticking "Keep" imports that transaction anyway.
+ */
+function DuplicateReview(props: Readonly<{
+  pendingImport: PendingImport;
+  taxonomy: CategoryTaxonomy;
+  onConfirm: (droppedIds: Set<string>) => void;
+  onCancel: () => void;
+}>) {
+  const { records, duplicates } = props.pendingImport;
+  const [kept, setKept] = useState<Set<string>>(() => new Set());
+
+  const incomingCount = records.reduce((acc, r) => acc + r.transactions.length, 0);
+  const dropCount = duplicates.length - kept.size;
+  const cellStyle = { padding: "6px", borderBottom: "1px solid #f3f3f3", whiteSpace: "nowrap" as const };
+
+  function toggle(id: string) {
+    setKept((prev) => {
+      const next = new Set(prev);
+      if (next.has(id)) next.delete(id);
+      else next.add(id);
+      return next;
+    });
+  }
+
+  return (
+      <div style={{ marginTop: 20, border: "1px solid #eee", borderRadius: 8, padding: 12 }}>
+        <h2 style={{ margin: "0 0 8px" }}>Review duplicates</h2>
+        <div style={{ color: "#555", marginBottom: 10 }}>
+          {duplicates.length} of {incomingCount} transactions in {records.map((r) => r.fileName).join(", ")} look
+          like transactions you already imported (same date, amount and counterparty). Tick the ones that are real
+          separate transactions.
+        </div>
+
+        <div style={{ maxHeight: 360, overflow: "auto" }}>
+          <table style={{ width: "100%", borderCollapse: "collapse", fontSize: 14 }}>
+            <thead>
+              <tr>
+                <th style={{ ...cellStyle, textAlign: "left", borderBottom: "1px solid #eee" }}>Keep</th>
+                <th style={{ ...cellStyle, textAlign: "left", borderBottom: "1px solid #eee" }}>Date</th>
+                <th style={{ ...cellStyle, textAlign: "left", borderBottom: "1px solid #eee" }}>Merchant</th>
+                <th style={{ ...cellStyle, textAlign: "right", borderBottom: "1px solid #eee" }}>Amount</th>
+                <th style={{ ...cellStyle, textAlign: "left", borderBottom: "1px solid #eee" }}>New file</th>
+                <th style={{ ...cellStyle, textAlign: "left", borderBottom: "1px solid #eee" }}>Already in</th>
+              </tr>
+            </thead>
+            <tbody>
+              {duplicates.map(({ incoming, existing }) => (
+                  <tr key={incoming.id} style={{ color: kept.has(incoming.id) ? undefined : "#999" }}>
+                    <td style={cellStyle}>
+                      <input type="checkbox" checked={kept.has(incoming.id)} onChange={() => toggle(incoming.id)} />
+                    </td>
+                    <td style={cellStyle}>{incoming.date}</td>
+                    <td style={{ ...cellStyle, whiteSpace: "normal" }} title={incoming.description}>
+                      {incoming.merchant}
+                      <span style={{ marginLeft: 6, color: "#888", fontSize: 12 }}>
+                        {categoryLabel(existing.category, props.taxonomy)}
+                      </span>
+                    </td>
+                    <td style={{ ...cellStyle, textAlign: "right" }}>
+                      {incoming.amount.toFixed(2)} {incoming.currency}
+                    </td>
+                    <td style={cellStyle}>{incoming.sourceFile}</td>
+                    <td style={cellStyle}>{existing.sourceFile}</td>
+                  </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+
+        <div style={{ marginTop: 12, display: "flex", gap: 10, alignItems: "center", flexWrap: "wrap" }}>
+          <button onClick={() => setKept(new Set(duplicates.map((d) => d.incoming.id)))}>Keep all</button>
+          <button onClick={() => setKept(new Set())}>Drop all</button>
+          <span style={{ flex: 1 }} />
+          <button
+              onClick={() =>
+                props.onConfirm(new Set(duplicates.map((d) => d.incoming.id).filter((id) => !kept.has(id))))
+              }
+          >
+            Import ({dropCount} duplicate{dropCount === 1 ? "" : "s"} dropped)
+          </button>
+          <button onClick={props.onCancel}>Cancel import</button>
+        </div>
+      </div>
+  );
+}
+
+/** Per-file progress of an upload, with cancel buttons while files are still being parsed. */
+function ImportProgressPanel(props: Readonly<{
+  items: ImportProgress[];
+  onCancel: (jobId: number) => void;
+  onCancelAll: () => void;
+  onClose: () => void;
+}>) {
+  const running = props.items.some((item) => item.status === "queued" || item.status === "parsing");
+  const statusColor: Record<ImportProgress["status"], string> = {
+    queued: "#888",
+    parsing: "#555",
+    done: "#2e7d32",
+    error: "#c62828",
+    cancelled: "#888",
+  };
+
+  return (
+      <div style={{ marginTop: 20, border: "1px solid #eee", borderRadius: 8, padding: 12 }}>
+        <h2 style={{ margin: "0 0 8px" }}>Importing {props.items.length} file{props.items.length === 1 ? "" : "s"}</h2>
+        <table style={{ width: "100%", borderCollapse: "collapse", fontSize: 14 }}>
+          <tbody>
+            {props.items.map((item) => (
+                <tr key={item.jobId}>
+                  <td style={{ padding: "6px", borderBottom: "1px solid #f3f3f3" }}>{item.fileName}</td>
+                  <td style={{ padding: "6px", borderBottom: "1px solid #f3f3f3", width: "35%" }}>
+                    {item.status === "error" ? (
+                        <span style={{ color: statusColor.error }}>{item.error}</span>
+                    ) : (
+                        <progress value={item.status === "done" ? 1 : item.progress} max={1} style={{ width: "100%" }} />
+                    )}
+                  </td>
+                  <td style={{ padding: "6px", borderBottom: "1px solid #f3f3f3", whiteSpace: "nowrap", color: statusColor[item.status] }}>
+                    {item.status === "parsing" ? `${Math.round(item.progress * 100)}%` : item.status}
+                  </td>
+                  <td style={{ padding: "6px", borderBottom: "1px solid #f3f3f3", textAlign: "right" }}>
+                    {(item.status === "queued" || item.status === "parsing") && (
+                        <button onClick={() => props.onCancel(item.jobId)} style={{ padding: "2px 10px" }}>
+                          Cancel
+                        </button>
+                    )}
+                  </td>
+                </tr>
+            ))}
+          </tbody>
+        </table>
+
+        <div style={{ marginTop: 12, display: "flex", gap: 10 }}>
+          {running ? (
+              <button onClick={props.onCancelAll}>Cancel all</button>
+          ) : (
+              <button onClick={props.onClose}>Close</button>
+          )}
+        </div>
+      </div>
+  );
+}
+
+/** Download buttons for the ledger, the category matrix and the printable report. */
+function ExportMenu(props: Readonly<{
+  onExportLedger: () => void;
+  onExportMatrix: () => void;
+  onPrintReport: () => void;
+}>) {
+  return (
+    <div style={{ display: "flex", gap: 8, alignItems: "center", flexWrap: "wrap", marginBottom: 12 }}>
+      <strong style={{ color: "#555" }}>Export:</strong>
+      <button onClick={props.onExportLedger} title="Every transaction as CSV">
+        Ledger (CSV)
+      </button>
+      <button onClick={props.onExportMatrix} title="Month × category totals with the average row">
+        Category matrix (XLSX)
+      </button>
+      <button onClick={props.onPrintReport} title="Opens the print dialog; choose “Save as PDF”">
+        Monthly report (PDF)
+      </button>
+    </div>
+  );
+}
+
+/** List of imports stored in the browser, with per-file and bulk delete. */
+function StoredImports(props: Readonly<{
+  imports: ImportRecord[];
+  onTag: (id: string, tags: { account: string; owner: string }) => void;
+  onDelete: (id: string) => void;
+  onClear: () => void;
+}>) {
+  const cellStyle = { padding: "6px", borderBottom: "1px solid #f3f3f3", whiteSpace: "nowrap" as const };
+  const owners = [...new Set(props.imports.map((imp) => imp.owner).filter(Boolean))];
+
+  // Tags are saved when a field loses focus, not on every keystroke.
+  function tag(imp: ImportRecord, field: "account" | "owner", value: string) {
+    const tags = { account: imp.account ?? "", owner: imp.owner ?? "", [field]: value.trim() };
+    if (tags.account !== (imp.account ?? "") || tags.owner !== (imp.owner ?? "")) props.onTag(imp.id, tags);
+  }
+
+  return (
+    <details style={{ marginBottom: 12 }}>
+      <summary style={{ cursor: "pointer", color: "#555" }}>
+        <strong>Stored imports:</strong> {props.imports.length} file{props.imports.length === 1 ? "" : "s"}
+      </summary>
+      <div style={{ overflowX: "auto" }}>
+        <table style={{ width: "100%", borderCollapse: "collapse", marginTop: 8, fontSize: 14 }}>
+          <thead>
+            <tr>
+              <th style={{ ...cellStyle, textAlign: "left", borderBottom: "1px solid #eee" }}>File</th>
+              <th style={{ ...cellStyle, textAlign: "left", borderBottom: "1px solid #eee" }}>Bank</th>
+              <th style={{ ...cellStyle, textAlign: "left", borderBottom: "1px solid #eee" }}>Account</th>
+              <th style={{ ...cellStyle, textAlign: "left", borderBottom: "1px solid #eee" }}>Owner</th>
+              <th style={{ ...cellStyle, textAlign: "left", borderBottom: "1px solid #eee" }}>Period</th>
+              <th style={{ ...cellStyle, textAlign: "right", borderBottom: "1px solid #eee" }}>Transactions</th>
+              <th style={{ ...cellStyle, textAlign: "left", borderBottom: "1px solid #eee" }}>Imported</th>
+              <th style={{ ...cellStyle, borderBottom: "1px solid #eee" }} />
+            </tr>
+          </thead>
+          <tbody>
+            {props.imports.map((imp) => {
+              const dates = imp.transactions.map((t) => t.date).sort((a, b) => a.localeCompare(b));
+              return (
+                <tr key={imp.id}>
+                  <td style={{ ...cellStyle, whiteSpace: "normal" }}>{imp.fileName}</td>
+                  <td style={cellStyle}>{imp.bank}</td>
+                  <td style={cellStyle}>
+                    <input
+                      key={imp.account ?? ""}
+                      defaultValue={imp.account ?? ""}
+                      placeholder={imp.fileName}
+                      onBlur={(e) => tag(imp, "account", e.target.value)}
+                      style={{ width: 140 }}
+                    />
+                  </td>
+                  <td style={cellStyle}>
+                    <input
+                      key={imp.owner ?? ""}
+                      defaultValue={imp.owner ?? ""}
+                      placeholder={JOINT_OWNER}
+                      list="import-owners"
+                      onBlur={(e) => tag(imp, "owner", e.target.value)}
+                      style={{ width: 100 }}
+                    />
+                  </td>
+                  <td style={cellStyle}>{dates.length ? `${dates[0]} – ${dates[dates.length - 1]}` : "—"}</td>
+                  <td style={{ ...cellStyle, textAlign: "right" }}>{imp.transactions.length}</td>
+                  <td style={cellStyle}>{new Date(imp.importedAt).toLocaleString()}</td>
+                  <td style={{ ...cellStyle, textAlign: "right" }}>
+                    <button onClick={() => props.onDelete(imp.id)} style={{ padding: "2px 10px" }}>
+                      Delete
+                    </button>
+                  </td>
+                </tr>
+              );
+            })}
+          </tbody>
+        </table>
+        <datalist id="import-owners">
+          {owners.map((o) => (
+              <option key={o} value={o} />
+          ))}
+        </datalist>
+      </div>
+      <div style={{ marginTop: 4, color: "#666", fontSize: 12 }}>
+        Name the account and its owner to filter by them and split the household spend; accounts without an owner
+        count as joint.
+      </div>
+      <button onClick={props.onClear} style={{ marginTop: 8 }}>
+        Delete stored imports
+      </button>
+    </details>
+  );
+}
+
+// -------------------- App (state + orchestration) --------------------
+/**
+ * Page-level component: owns state and orchestrates file upload -> analysis -> charts.
+ */
+export default function App() {
+  const workerPool = useMemo(() => createImportWorkerPool(), []);
+  useEffect(() => () => workerPool.dispose(), [workerPool]);
+
+  const [loading, setLoading] = useState(false);
+  const [restoring, setRestoring] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [imports, setImports] = useState<ImportRecord[]>([]);
+  const [pendingFiles, setPendingFiles] = useState<PendingFile[] | null>(null);
+  const [importProgress, setImportProgress] = useState<ImportProgress[] | null>(null);
+  /** The pending file whose columns are being mapped, read for the wizard's preview. */
+  const [mapping, setMapping] = useState<{ index: number; text: string } | null>(null);
+  const [pendingImport, setPendingImport] = useState<PendingImport | null>(null);
+  const [bankProfiles, setBankProfiles] = useState<BankProfile[]>([]);
+
+  const [categoryRules, setCategoryRules] = useState<CategoryRule[]>([]);
+  const [categoryOverrides, setCategoryOverrides] = useState<Record<string, string>>({});
+  const [recategorizeTarget, setRecategorizeTarget] = useState<RecategorizeTarget | null>(null);
+  const [taxonomy, setTaxonomy] = useState<CategoryTaxonomy>(buildDefaultTaxonomy);
+  const [transferDecisions, setTransferDecisions] = useState<TransferDecisions>({ confirmed: [], unlinked: [] });
+  const [budgets, setBudgets] = useState<Budgets>({});
+  const [reportingCurrency, setReportingCurrency] = useState("EUR");
+  const [exchangeRates, setExchangeRates] = useState<ExchangeRate[]>([]);
+  const [accountFilter, setAccountFilter] = useState<AccountFilter>(() => defaultSettings().accountFilter);
+  const [householdSplit, setHouseholdSplit] = useState<HouseholdSplit>(() => defaultSettings().householdSplit);
+  const [tagRules, setTagRules] = useState<TagRule[]>([]);
+  const [annotations, setAnnotations] = useState<Record<string, TransactionAnnotation>>({});
+  const [tagFilter, setTagFilter] = useState("");
+  const [annotateTarget, setAnnotateTarget] = useState<Transaction | null>(null);
+  const [splits, setSplits] = useState<Record<string, SplitPart[]>>({});
+  const [splitTarget, setSplitTarget] = useState<Transaction | null>(null);
+  const [merchantAliases, setMerchantAliases] = useState<MerchantAlias[]>([]);
+
+  // Restore the last workspace (imports + settings) from IndexedDB on start.
+  useEffect(() => {
+    let cancelled = false;
+    Promise.all([loadImports(), loadSettings()])
+      .then(([storedImports, settings]) => {
+        if (cancelled) return;
+        setImports(storedImports);
+        setBankProfiles(settings.bankProfiles);
+        setCategoryRules(settings.categoryRules);
+        setCategoryOverrides(settings.categoryOverrides);
+        setTaxonomy(settings.taxonomy);
+        setTransferDecisions(settings.transferDecisions);
+        setBudgets(settings.budgets);
+        setReportingCurrency(settings.reportingCurrency);
+        setExchangeRates(settings.exchangeRates);
+        setPeriod(settings.period);
+        setComparePeriod(settings.comparePeriod);
+        setAccountFilter(settings.accountFilter);
+        setHouseholdSplit(settings.householdSplit);
+        setTagRules(settings.tagRules);
+        setAnnotations(settings.annotations);
+        setTagFilter(settings.tagFilter);
+        setSplits(settings.splits);
+        setMerchantAliases(settings.merchantAliases);
+      })
+      .catch((err) => {
+        if (!cancelled) setError(`Could not restore the saved workspace: ${err instanceof Error ? err.message : String(err)}`);
+      })
+      .finally(() => {
+        if (!cancelled) setRestoring(false);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  const transactions = useMemo(
+    () => (imports.length ? imports.flatMap(tagTransactions) : null),
+    [imports]
+  );
+
+  // Amounts are converted first, so every aggregate below is in the reporting currency.
+  const conversion = useMemo(
+    () => convertTransactions(transactions ?? [], reportingCurrency, exchangeRates),
+    [transactions, reportingCurrency, exchangeRates]
+  );
+  const dataCurrencies = useMemo(
+    () => [...new Set((transactions ?? []).map((t) => t.currency))].sort(),
+    [transactions]
+  );
+
+  // Merchant names are normalized before categorizing, so rules can match the canonical name too.
+  const namedTransactions = useMemo(
+    () => applyMerchantNames(conversion.transactions, merchantAliases),
+    [conversion, merchantAliases]
+  );
+
+  // Every aggregate is derived from the corrected transactions, so rule changes apply everywhere.
+  const transferPairs = useMemo(
+    () => detectInternalTransfers(conversion.transactions, transferDecisions),
+    [conversion, transferDecisions]
+  );
+  const untaggedTransferCandidates = useMemo(
+    () => countUntaggedTransferCandidates(conversion.transactions, transferPairs),
+    [conversion, transferPairs]
+  );
+  const categorizedTransactions = useMemo(
+    () => (transactions ? applyCategoryRules(namedTransactions, categoryRules, categoryOverrides) : null),
+    [transactions, namedTransactions, categoryRules, categoryOverrides]
+  );
+  // Split transactions are replaced by their parts here, so every aggregate counts the parts.
+  const householdTransactions = useMemo(
+    () =>
+      categorizedTransactions
+        ? applyTransactionTags(
+            markInternalTransfers(applyCategoryMerges(applyTransactionSplits(categorizedTransactions, splits), taxonomy), transferPairs),
+            tagRules,
+            annotations
+          )
+        : null,
+    [categorizedTransactions, splits, taxonomy, transferPairs, tagRules, annotations]
+  );
+  const accountOptions = useMemo(
+    () => ({
+      accounts: [...new Set(imports.map((imp) => imp.account || imp.fileName))].sort((a, b) => a.localeCompare(b)),
+      owners: [...new Set(imports.map((imp) => imp.owner || JOINT_OWNER))].sort((a, b) => a.localeCompare(b)),
+    }),
+    [imports]
+  );
+  const knownTags = useMemo(
+    () =>
+      [...new Set([...(householdTransactions ?? []).flatMap((t) => t.tags ?? []), ...tagRules.map((r) => r.tag)])].sort(
+        (a, b) => a.localeCompare(b)
+      ),
+    [householdTransactions, tagRules]
+  );
+  const activeTagFilter = knownTags.includes(tagFilter) ? tagFilter : "";
+  // A filter on an account or owner that was renamed or deleted falls back to all.
+  const activeAccountFilter = useMemo(
+    () => ({
+      account: accountOptions.accounts.includes(accountFilter.account) ? accountFilter.account : "",
+      owner: accountOptions.owners.includes(accountFilter.owner) ? accountFilter.owner : "",
+    }),
+    [accountOptions, accountFilter]
+  );
+  // The account/owner and tag filters apply after transfer pairing, which needs every account.
+  const result = useMemo(
+    () =>
+      householdTransactions
+        ? buildAnalysisResult(
+            householdTransactions.filter(
+              (t) => matchesAccountFilter(t, activeAccountFilter) && matchesTagFilter(t, activeTagFilter)
+            )
+          )
+        : null,
+    [householdTransactions, activeAccountFilter, activeTagFilter]
+  );
+  const categoryNames = useMemo(
+    () => collectCategoryNames(result?.transactions ?? [], categoryRules, taxonomy),
+    [result, categoryRules, taxonomy]
+  );
+  const categoryColors = useMemo(
+    () => buildCategoryColorMap(result?.monthlyExpenses ?? [], taxonomy),
+    [result, taxonomy]
+  );
+
+  const [ledgerFocus, setLedgerFocus] = useState<LedgerFocus | null>(null);
+  const ledgerRef = useRef<HTMLDivElement | null>(null);
+  const [period, setPeriod] = useState<PeriodSelection>(() => defaultSettings().period);
+  const [comparePeriod, setComparePeriod] = useState<PeriodSelection | null>(null);
+
+  // Every chart and table below the period picker only sees the selected period.
+  const dataMonths = useMemo(
+    () => [...new Set((householdTransactions ?? []).map((t) => t.date.slice(0, 7)))].sort(),
+    [householdTransactions]
+  );
+  const range = useMemo(() => resolvePeriod(period, dataMonths), [period, dataMonths]);
+  const compareRange = useMemo(
+    () => (comparePeriod ? resolvePeriod(comparePeriod, dataMonths) : null),
+    [comparePeriod, dataMonths]
+  );
+  const periodResult = useMemo(
+    () => (result ? buildAnalysisResult(result.transactions.filter((t) => isDateInRange(t.date, range))) : null),
+    [result, range]
+  );
+  // The household view splits by member, so it ignores the account/owner filter but keeps the tag filter.
+  const householdPeriodTransactions = useMemo(
+    () =>
+      (householdTransactions ?? []).filter((t) => isDateInRange(t.date, range) && matchesTagFilter(t, activeTagFilter)),
+    [householdTransactions, range, activeTagFilter]
+  );
+  const compareResult = useMemo(
+    () =>
+      result && compareRange
+        ? buildAnalysisResult(result.transactions.filter((t) => isDateInRange(t.date, compareRange)))
+        : null,
+    [result, compareRange]
+  );
+
+  // Forecasts start from the last date in the data and only extend the charts when the period reaches it.
+  const [forecastHorizon, setForecastHorizon] = useState(FORECAST_HORIZONS[0]);
+  const forecast = useMemo(() => {
+    if (!result || !forecastHorizon) return null;
+    const asOf = result.transactions.reduce((latest, t) => (t.date > latest ? t.date : latest), "");
+    return buildSpendingForecast(result.transactions, detectSubscriptions(result.transactions, asOf), asOf, forecastHorizon);
+  }, [result, forecastHorizon]);
+  const chartForecast = forecast && range.end >= forecast.asOf ? forecast : null;
+
+  const budgetForMonth = useCallback(
+    (month: string, expenses: MonthlyExpense | undefined) => totalBudgetProgress(budgets, expenses, month, taxonomy),
+    [budgets, taxonomy]
+  );
+
+  /** Report failed writes to the local database; the in-memory state stays authoritative. */
+  function persist(task: Promise<void>) {
+    task.catch((err) =>
+      setError(`Could not save to the local database: ${err instanceof Error ? err.message : String(err)}`)
+    );
+  }
+
+  /** Sniff the bank format of every file in the worker pool. Null when the pool was disposed. */
+  async function detectFiles(files: File[], profiles: BankProfile[]): Promise<BankDetection[] | null> {
+    const outcomes = await Promise.all(
+      files.map((file) =>
+        workerPool.run({ jobId: nextImportJobId++, type: "detect", fileName: file.name, file, profiles }, () => {})
+      )
+    );
+    if (outcomes.some((o) => o.status === "cancelled")) return null;
+    return outcomes.map((outcome, i) => {
+      if (outcome.status === "detected") return outcome.detection;
+      throw new Error(`Could not read ${files[i].name}: ${outcome.status === "error" ? outcome.message : "unexpected result"}`);
+    });
+  }
+
+  /** Sniff the bank format of the selected files; ask for confirmation when unsure or asked to. */
+  async function handleFiles(files: File[], review = false) {
+    setError(null);
+    setLoading(true);
+
+    try {
+      const detections = await detectFiles(files, bankProfiles);
+      if (!detections) return;
+      const pending: PendingFile[] = files.map((file, i) => ({ file, detection: detections[i], formatId: detections[i].formatId }));
+
+      if (review || pending.some((p) => p.detection.ambiguous)) {
+        setPendingFiles(pending);
+        return;
+      }
+      await analyzeFiles(pending);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : String(err));
+    } finally {
+      setLoading(false);
+    }
+  }
+
+  /** Open the column-mapping wizard on a pending file; only this file is read on the main thread. */
+  async function openMapping(index: number) {
+    const file = pendingFiles?.[index]?.file;
+    if (!file) return;
+    try {
+      setMapping({ index, text: await file.text() });
+    } catch (err) {
+      setError(`Could not read ${file.name}: ${err instanceof Error ? err.message : String(err)}`);
+    }
+  }
+
+  function updateBankProfiles(next: BankProfile[]) {
+    setBankProfiles(next);
+    persist(saveSetting("bankProfiles", next));
+  }
+
+  /** Store a new or edited bank profile and use it for the file it was mapped from. */
+  function saveBankProfile(profile: BankProfile, fileIndex: number) {
+    const nextProfiles = bankProfiles.some((p) => p.id === profile.id)
+      ? bankProfiles.map((p) => (p.id === profile.id ? profile : p))
+      : [...bankProfiles, profile];
+    updateBankProfiles(nextProfiles);
+    setMapping(null);
+
+    // Score the files again so the new profile shows up in every format list.
+    const pending = pendingFiles ?? [];
+    detectFiles(
+      pending.map((p) => p.file),
+      nextProfiles
+    )
+      .then((detections) => {
+        if (!detections) return;
+        setPendingFiles((prev) =>
+          prev?.map((p, i) => ({ ...p, detection: detections[i] ?? p.detection, formatId: i === fileIndex ? profile.id : p.formatId })) ?? null
+        );
+      })
+      .catch((err) => setError(err instanceof Error ? err.message : String(err)));
+  }
+
+  function updateCategoryRules(next: CategoryRule[]) {
+    setCategoryRules(next);
+    persist(saveSetting("categoryRules", next));
+  }
+
+  function updateCategoryOverrides(next: Record<string, string>) {
+    setCategoryOverrides(next);
+    persist(saveSetting("categoryOverrides", next));
+  }
+
+  function updateTaxonomy(next: CategoryTaxonomy) {
+    setTaxonomy(next);
+    persist(saveSetting("taxonomy", next));
+  }
+
+  function updateBudgets(next: Budgets) {
+    setBudgets(next);
+    persist(saveSetting("budgets", next));
+  }
+
+  /** Budgets are amounts in the reporting currency, so they are converted along with it. */
+  function updateReportingCurrency(next: string) {
+    const converted = convertBudgets(budgets, reportingCurrency, next, exchangeRates);
+    if (!converted) {
+      setError(`Add a ${reportingCurrency}/${next} exchange rate first: your budgets are in ${reportingCurrency} and need converting.`);
+      return;
+    }
+    setReportingCurrency(next);
+    persist(saveSetting("reportingCurrency", next));
+    updateBudgets(converted);
+  }
+
+  function updateExchangeRates(next: ExchangeRate[]) {
+    setExchangeRates(next);
+    persist(saveSetting("exchangeRates", next));
+  }
+
+  function updateTransferDecisions(next: TransferDecisions) {
+    setTransferDecisions(next);
+    persist(saveSetting("transferDecisions", next));
+  }
+
+  function updatePeriod(next: PeriodSelection) {
+    setPeriod(next);
+    persist(saveSetting("period", next));
+  }
+
+  function updateComparePeriod(next: PeriodSelection | null) {
+    setComparePeriod(next);
+    persist(saveSetting("comparePeriod", next));
+  }
+
+  function updateAccountFilter(next: AccountFilter) {
+    setAccountFilter(next);
+    persist(saveSetting("accountFilter", next));
+  }
+
+  function updateHouseholdSplit(next: HouseholdSplit) {
+    setHouseholdSplit(next);
+    persist(saveSetting("householdSplit", next));
+  }
+
+  function updateTagRules(next: TagRule[]) {
+    setTagRules(next);
+    persist(saveSetting("tagRules", next));
+  }
+
+  function updateAnnotations(next: Record<string, TransactionAnnotation>) {
+    setAnnotations(next);
+    persist(saveSetting("annotations", next));
+  }
+
+  function updateTagFilter(next: string) {
+    setTagFilter(next);
+    persist(saveSetting("tagFilter", next));
+  }
+
+  /** Store a transaction's own tags and note (dropping empty ones) plus any tag rules made with them. */
+  function saveAnnotation(id: string, annotation: TransactionAnnotation, rules: TagRule[]) {
+    const next = { ...annotations };
+    if (annotation.tags.length || annotation.note) next[id] = annotation;
+    else delete next[id];
+    updateAnnotations(next);
+    if (rules.length) updateTagRules([...rules, ...tagRules]);
+    setAnnotateTarget(null);
+  }
+
+  function updateSplits(next: Record<string, SplitPart[]>) {
+    setSplits(next);
+    persist(saveSetting("splits", next));
+  }
+
+  function updateMerchantAliases(next: MerchantAlias[]) {
+    setMerchantAliases(next);
+    persist(saveSetting("merchantAliases", next));
+  }
+
+  /** Open the split editor on the transaction as imported, also when a part of it was picked. */
+  function openSplit(t: Transaction) {
+    const id = t.splitOf ?? t.id;
+    setSplitTarget(categorizedTransactions?.find((c) => c.id === id) ?? null);
+  }
+
+  function saveSplit(id: string, parts: SplitPart[] | null) {
+    const next = { ...splits };
+    if (parts) next[id] = parts;
+    else delete next[id];
+    updateSplits(next);
+    setSplitTarget(null);
+  }
+
+  function currentSettings(): StoredSettings {
+    return {
+      bankProfiles,
+      categoryRules,
+      categoryOverrides,
+      taxonomy,
+      period,
+      comparePeriod,
+      transferDecisions,
+      budgets,
+      reportingCurrency,
+      exchangeRates,
+      accountFilter,
+      householdSplit,
+      tagRules,
+      annotations,
+      tagFilter,
+      splits,
+      merchantAliases,
+    };
+  }
+
+  function saveWorkspace() {
+    downloadFile(buildWorkspaceFile(imports, currentSettings()), exportFileName("workspace", "json"), "application/json");
+  }
+
+  /** Replace the current imports and settings with a workspace file, after validating it. */
+  async function openWorkspace(file: File) {
+    setError(null);
+    let workspace: WorkspaceFile;
+    try {
+      workspace = parseWorkspaceFile(await file.text());
+    } catch (err) {
+      setError(`Could not open "${file.name}": ${err instanceof Error ? err.message : String(err)}`);
+      return;
+    }
+    if (imports.length && !window.confirm("Opening a workspace replaces the current imports and settings. Continue?")) return;
+
+    const { settings } = workspace;
+    setImports(workspace.imports);
+    setBankProfiles(settings.bankProfiles);
+    setCategoryRules(settings.categoryRules);
+    setCategoryOverrides(settings.categoryOverrides);
+    setTaxonomy(settings.taxonomy);
+    setTransferDecisions(settings.transferDecisions);
+    setBudgets(settings.budgets);
+    setReportingCurrency(settings.reportingCurrency);
+    setExchangeRates(settings.exchangeRates);
+    setPeriod(settings.period);
+    setComparePeriod(settings.comparePeriod);
+    setAccountFilter(settings.accountFilter);
+    setHouseholdSplit(settings.householdSplit);
+    setTagRules(settings.tagRules);
+    setAnnotations(settings.annotations);
+    setTagFilter(settings.tagFilter);
+    setSplits(settings.splits);
+    setMerchantAliases(settings.merchantAliases);
+    setPendingFiles(null);
+    setPendingImport(null);
+    setRecategorizeTarget(null);
+    setAnnotateTarget(null);
+    setSplitTarget(null);
+    persist(replaceWorkspace(workspace.imports, settings));
+  }
+
+  /** Tag an import with its account and owner; every view picks the tags up from its transactions. */
+  function handleTagImport(id: string, tags: { account: string; owner: string }) {
+    const updated = imports.map((imp) => (imp.id === id ? { ...imp, ...tags } : imp));
+    setImports(updated);
+    persist(saveImports(updated.filter((imp) => imp.id === id)));
+  }
+
+  function handleDeleteImport(id: string) {
+    setImports((prev) => prev.filter((imp) => imp.id !== id));
+    persist(deleteImport(id));
+  }
+
+  /** Forget all stored imports; settings like rules and bank profiles are kept. */
+  function handleClearImports() {
+    if (!window.confirm("Delete all stored imports from this browser?")) return;
+    setImports([]);
+    persist(clearImports());
+  }
+
+  /** Resolve the category picked in the re-categorize dialog, creating it when it's new. */
+  function resolvePickedCategory(category: string, isNew: boolean): string {
+    if (!isNew) return category;
+    const key = makeCategoryKey(category, categoryNames, taxonomy);
+    updateTaxonomy(upsertCategory(taxonomy, key, { label: category }));
+    return key;
+  }
+
+  function handleMergeCategories(from: string, into: string) {
+    const next = mergeCategories({ taxonomy, rules: categoryRules, overrides: categoryOverrides, budgets }, from, into);
+    updateTaxonomy(next.taxonomy);
+    updateCategoryRules(next.rules);
+    updateCategoryOverrides(next.overrides);
+    updateBudgets(next.budgets);
+  }
+
+  /** Append reviewed records to the dataset and the local database. */
+  function commitImport(records: ImportRecord[], droppedIds: Set<string>) {
+    const existing = transactions ?? [];
+    const finalized = records.map((r) => ({ ...r, transactions: r.transactions.filter((tx) => !droppedIds.has(tx.id)) }));
+    setImports((prev) => [...prev, ...finalized]);
+    setPendingImport(null);
+    persist(saveImports(finalized));
+
+    // Keep the period the user is looking at; only anchor it on the latest month when it points at no data.
+    const months = [...existing, ...finalized.flatMap((r) => r.transactions)].map((t) => t.date.slice(0, 7)).sort();
+    const anchors = new Set(months.map((m) => normalizePeriodAnchor(period.preset, m)));
+    if (period.preset !== "all" && period.preset !== "custom" && !anchors.has(period.anchor) && months.length) {
+      updatePeriod({ ...period, anchor: normalizePeriodAnchor(period.preset, months[months.length - 1]) });
+    }
+  }
+
+  function updateImportProgress(jobId: number, patch: Partial<ImportProgress>) {
+    setImportProgress((prev) => prev?.map((item) => (item.jobId === jobId ? { ...item, ...patch } : item)) ?? null);
+  }
+
+  /**
+   * Parse the confirmed files in the worker pool. Each file succeeds, fails or is cancelled on its
+   * own; whatever parsed is then checked for duplicates and merged.
+   */
+  async function analyzeFiles(pending: PendingFile[]) {
+    setLoading(true);
+    setError(null);
+    setPendingFiles(null);
+    setPendingImport(null);
+
+    const jobs = pending.map((p) => ({
+      jobId: nextImportJobId++,
+      type: "parse" as const,
+      fileName: p.file.name,
+      file: p.file,
+      formatId: p.formatId,
+      profile: isBuiltInBank(p.formatId) ? undefined : bankProfiles.find((bp) => bp.id === p.formatId),
+    }));
+    setImportProgress(jobs.map((job) => ({ jobId: job.jobId, fileName: job.fileName, status: "queued", progress: 0 })));
+
+    try {
+      const importedAt = new Date().toISOString();
+      const outcomes = await Promise.all(
+        jobs.map(async (job) => {
+          const outcome = await workerPool.run(job, (progress) =>
+            updateImportProgress(job.jobId, { status: "parsing", progress })
+          );
+          if (outcome.status === "done") updateImportProgress(job.jobId, { status: "done", progress: 1 });
+          else if (outcome.status === "error") updateImportProgress(job.jobId, { status: "error", error: outcome.message });
+          else updateImportProgress(job.jobId, { status: "cancelled" });
+          return outcome;
+        })
+      );
+
+      const records: ImportRecord[] = outcomes.flatMap((outcome, i) =>
+        outcome.status === "done"
+          ? [{ id: crypto.randomUUID(), fileName: jobs[i].fileName, bank: outcome.bank, importedAt, transactions: outcome.transactions }]
+          : []
+      );
+      // Close the progress panel on a clean run; keep it open when something needs the user's attention.
+      if (outcomes.every((o) => o.status === "done")) setImportProgress(null);
+      if (!records.length) return;
+
+      const uniqueRecords = withUniqueTransactionIds(records, transactions ?? []);
+      const duplicates = findDuplicateTransactions(transactions ?? [], uniqueRecords);
+      if (duplicates.length) setPendingImport({ records: uniqueRecords, duplicates });
+      else commitImport(uniqueRecords, new Set());
+    } catch (err) {
+      setError(err instanceof Error ? err.message : String(err));
+    } finally {
+      setLoading(false);
+    }
+  }
+
+  /** Open the ledger filtered on a finding and scroll to it. */
+  function showInLedger(focus: Omit<LedgerFocus, "nonce">) {
+    setLedgerFocus((prev) => ({ ...focus, nonce: (prev?.nonce ?? 0) + 1 }));
+    ledgerRef.current?.scrollIntoView({ behavior: "smooth", block: "start" });
+  }
+
+  function cancelAllImports() {
+    for (const item of importProgress ?? []) workerPool.cancel(item.jobId);
+  }
+
+  function exportLedger() {
+    if (!periodResult) return;
+    // The BOM makes Excel read the file as UTF-8.
+    const csv = "\uFEFF" + buildLedgerCsv(periodResult.transactions, taxonomy);
+    downloadFile(csv, exportFileName("transactions", "csv"), "text/csv;charset=utf-8");
+  }
+
+  function exportCategoryMatrix() {
+    if (!periodResult) return;
+    const labelFor = (key: string) => categoryLabel(key, taxonomy);
+    const topLevel = rollUpMonthlyExpenses(periodResult.monthlyExpenses, taxonomy);
+    const workbook = buildXlsx([
+      buildCategoryMatrixSheet("Categories", topLevel, orderedCategoryKeys(taxonomy, topLevel, "top"), labelFor),
+      buildCategoryMatrixSheet(
+        "Subcategories",
+        periodResult.monthlyExpenses,
+        orderedCategoryKeys(taxonomy, periodResult.monthlyExpenses, "sub"),
+        labelFor
+      ),
+    ]);
+    downloadFile(workbook, exportFileName("category-matrix", "xlsx"), "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet");
+  }
+
+  /** Render the charts off-screen and open the report for the selected period in a printable window. */
+  function printMonthlyReport() {
+    if (!periodResult) return;
+    const result = periodResult;
+    const expenses = result.monthlyExpenses.reduce((acc, m) => acc + m.sum, 0);
+    const income = result.monthlyIncome.reduce((acc, m) => acc + m.sum, 0);
+    const labelFor = (key: string) => categoryLabel(key, taxonomy);
+    const money = (v: number) => formatMoney(v, reportingCurrency);
+    const pie = buildCategoryPieChart({
+      monthlyExpenses: rollUpMonthlyExpenses(result.monthlyExpenses, taxonomy),
+      periodLabel: range.label,
+      labelFor,
+      colors: categoryColors,
+      currency: reportingCurrency,
+    });
+
+    try {
+      printReport(
+        buildReportHtml({
+          title: "Transaction report",
+          period: range.label,
+          sourceFiles: imports
+            .filter((imp) => imp.transactions.some((t) => isDateInRange(t.date, range)))
+            .map((imp) => imp.fileName),
+          summary: [
+            { label: "Expenses", value: money(expenses) },
+            { label: "Income", value: money(income) },
+            { label: "Net", value: money(income - expenses) },
+            { label: "Average monthly expenses", value: money(result.averageMonthExpenses) },
+          ],
+          charts: [
+            {
+              title: "Monthly expenses",
+              image: renderChartImage(
+                "bar",
+                buildMonthlyBarChart(result.monthlyExpenses, result.averageMonthExpenses, budgetForMonth, reportingCurrency)
+              ),
+            },
+            ...(pie ? [{ title: `Category breakdown — ${range.label}`, image: renderChartImage("pie", pie, 900, 480) }] : []),
+          ],
+          tables: [
+            {
+              title: "Top recurring transactions",
+              head: ["Merchant", "Category", "Count", "Average", "Total"],
+              rows: computeTopRecurringTransactions(result.transactions).map((r) => [
+                r.name,
+                labelFor(r.category),
+                String(r.count),
+                money(r.avgAmount),
+                money(r.totalAmount),
+              ]),
+            },
+            {
+              title: "Identical recurring transactions",
+              head: ["Merchant", "Category", "Count", "Amount", "Total"],
+              rows: computeIdenticalRecurringTransactions(result.transactions).map((r) => [
+                r.name,
+                labelFor(r.category),
+                String(r.count),
+                money(r.amount),
+                money(r.totalAmount),
+              ]),
+            },
+          ],
+        })
+      );
+    } catch (err) {
+      setError(err instanceof Error ? err.message : String(err));
+    }
+  }
+
+  return (
+      <div style={{ padding: 32, maxWidth: 900, margin: "0 auto" }}>
+        <h1>Transaction Analyzer</h1>
+
+        <UploadButton loading={loading || restoring} hasData={imports.length > 0} onFiles={handleFiles} />
+        <WorkspaceButtons
+          disabled={loading || restoring}
+          canSave={imports.length > 0}
+          onSave={saveWorkspace}
+          onOpen={openWorkspace}
+        />
+
+        {restoring && <div style={{ marginTop: 12, color: "#555" }}>Restoring saved workspace…</div>}
+
+        {error && <pre style={{ marginTop: 20, color: "red", whiteSpace: "pre-wrap" }}>{error}</pre>}
+
+        {pendingFiles && mapping === null && (
+            <BankConfirmation
+                pendingFiles={pendingFiles}
+                onChangeFormat={(index, formatId) =>
+                    setPendingFiles((prev) => prev?.map((p, i) => (i === index ? { ...p, formatId } : p)) ?? null)
+                }
+                onMapColumns={openMapping}
+                onConfirm={() => analyzeFiles(pendingFiles)}
+                onCancel={() => setPendingFiles(null)}
+            />
+        )}
+
+        {pendingFiles && mapping !== null && pendingFiles[mapping.index] && (
+            <ColumnMappingWizard
+                key={mapping.index}
+                fileName={pendingFiles[mapping.index].file.name}
+                text={mapping.text}
+                profile={bankProfiles.find((p) => p.id === pendingFiles[mapping.index].formatId)}
+                onSave={(profile) => saveBankProfile(profile, mapping.index)}
+                onCancel={() => setMapping(null)}
+            />
+        )}
+
+        {bankProfiles.length > 0 && <BankProfilesPanel profiles={bankProfiles} onChange={updateBankProfiles} />}
+
+        {importProgress && (
+            <ImportProgressPanel
+                items={importProgress}
+                onCancel={(jobId) => workerPool.cancel(jobId)}
+                onCancelAll={cancelAllImports}
+                onClose={() => setImportProgress(null)}
+            />
+        )}
+
+        {pendingImport && (
+            <DuplicateReview
+                pendingImport={pendingImport}
+                taxonomy={taxonomy}
+                onConfirm={(droppedIds) => commitImport(pendingImport.records, droppedIds)}
+                onCancel={() => setPendingImport(null)}
+            />
+        )}
+
+        {result && periodResult && (
+            <div style={{ marginTop: 20 }}>
+              <StoredImports
+                imports={imports}
+                onTag={handleTagImport}
+                onDelete={handleDeleteImport}
+                onClear={handleClearImports}
+              />
+              <ExportMenu
+                onExportLedger={exportLedger}
+                onExportMatrix={exportCategoryMatrix}
+                onPrintReport={printMonthlyReport}
+              />
+
+              {Object.keys(conversion.missing).length > 0 && (
+                <div style={{ marginTop: 8, color: "#b71c1c" }}>
+                  Some transactions have no exchange rate to {reportingCurrency} and are left out of totals; add
+                  rates under "Currency & exchange rates".
+                </div>
+              )}
+              <div style={{ display: "flex", gap: 12, alignItems: "center", flexWrap: "wrap", margin: "8px 0" }}>
+                <strong>Period:</strong>
+                <PeriodPicker value={period} months={dataMonths} onChange={updatePeriod} />
+                <label>
+                  <input
+                    type="checkbox"
+                    checked={comparePeriod !== null}
+                    onChange={(e) => updateComparePeriod(e.target.checked ? previousPeriod(period, range) : null)}
+                  />{" "}
+                  Compare with
+                </label>
+                {comparePeriod && <PeriodPicker value={comparePeriod} months={dataMonths} onChange={updateComparePeriod} />}
+              </div>
+              {(accountOptions.accounts.length > 1 || accountOptions.owners.length > 1 || knownTags.length > 0) && (
+                  <div style={{ display: "flex", gap: 12, alignItems: "center", flexWrap: "wrap", margin: "8px 0" }}>
+                    {accountOptions.accounts.length > 1 && (
+                        <label>
+                          <strong>Account:</strong>{" "}
+                          <select
+                            value={activeAccountFilter.account}
+                            onChange={(e) => updateAccountFilter({ ...activeAccountFilter, account: e.target.value })}
+                          >
+                            <option value="">All accounts</option>
+                            {accountOptions.accounts.map((a) => (
+                                <option key={a} value={a}>
+                                  {a}
+                                </option>
+                            ))}
+                          </select>
+                        </label>
+                    )}
+                    {accountOptions.owners.length > 1 && (
+                        <label>
+                          <strong>Owner:</strong>{" "}
+                          <select
+                            value={activeAccountFilter.owner}
+                            onChange={(e) => updateAccountFilter({ ...activeAccountFilter, owner: e.target.value })}
+                          >
+                            <option value="">Everyone</option>
+                            {accountOptions.owners.map((o) => (
+                                <option key={o} value={o}>
+                                  {o}
+                                </option>
+                            ))}
+                          </select>
+                        </label>
+                    )}
+                    {knownTags.length > 0 && (
+                        <label>
+                          <strong>Tag:</strong>{" "}
+                          <select value={activeTagFilter} onChange={(e) => updateTagFilter(e.target.value)}>
+                            <option value="">All transactions</option>
+                            {knownTags.map((tag) => (
+                                <option key={tag} value={tag}>
+                                  #{tag}
+                                </option>
+                            ))}
+                          </select>
+                        </label>
+                    )}
+                  </div>
+              )}
+              {!periodResult.transactions.length && (
+                <div style={{ marginTop: 8, color: "#555" }}>No transactions in {range.label}.</div>
+              )}
+              {periodResult.monthlyExpenses.length > 0 && (
+                <div style={{ marginTop: 8, marginBottom: 8, color: "#555" }}>
+                  <strong>Average monthly expenses:</strong> {formatMoney(periodResult.averageMonthExpenses, reportingCurrency)}
+                  {periodResult.monthlyIncome.length > 0 && (
+                      <>
+                        {" · "}
+                        <strong>Average monthly income:</strong> {formatMoney(periodResult.averageMonthIncome, reportingCurrency)}
+                      </>
+                  )}
+                </div>
+              )}
+              <MonthlyBarChart
+                monthlyExpenses={periodResult.monthlyExpenses}
+                history={result.monthlyExpenses}
+                averageMonthExpenses={periodResult.averageMonthExpenses}
+                budgetForMonth={budgetForMonth}
+                forecast={chartForecast?.total}
+                currency={reportingCurrency}
+              />
+              <ForecastPanel
+                forecast={forecast}
+                horizon={forecastHorizon}
+                onHorizonChange={setForecastHorizon}
+                taxonomy={taxonomy}
+                currency={reportingCurrency}
+              />
+              <CashFlowChart
+                monthlyExpenses={periodResult.monthlyExpenses}
+                monthlyIncome={periodResult.monthlyIncome}
+                currency={reportingCurrency}
+              />
+
+              {compareResult && compareRange && (
+                <PeriodComparison
+                  a={{ label: compareRange.label, result: compareResult }}
+                  b={{ label: range.label, result: periodResult }}
+                  taxonomy={taxonomy}
+                  currency={reportingCurrency}
+                />
+              )}
+
+              <CategoryBreakdown
+                  monthlyExpenses={periodResult.monthlyExpenses}
+                  taxonomy={taxonomy}
+                  periodLabel={range.label}
+                  currency={reportingCurrency}
+              />
+
+              <HouseholdPanel
+                transactions={householdPeriodTransactions}
+                taxonomy={taxonomy}
+                split={householdSplit}
+                onChange={updateHouseholdSplit}
+                currency={reportingCurrency}
+              />
+
+              <BudgetPanel
+                monthlyExpenses={periodResult.monthlyExpenses}
+                month={periodResult.monthlyExpenses[periodResult.monthlyExpenses.length - 1]?.month ?? range.end.slice(0, 7)}
+                taxonomy={taxonomy}
+                categoryKeys={orderedCategoryKeys(taxonomy, periodResult.monthlyExpenses, "sub")}
+                budgets={budgets}
+                currency={reportingCurrency}
+                onChange={updateBudgets}
+              />
+
+              <CategoryTrends
+                monthlyExpenses={periodResult.monthlyExpenses}
+                taxonomy={taxonomy}
+                budgets={budgets}
+                forecast={chartForecast?.categories}
+                currency={reportingCurrency}
+              />
+
+              <ChangeAnalysis
+                history={result.monthlyExpenses}
+                defaultMonth={periodResult.monthlyExpenses[periodResult.monthlyExpenses.length - 1]?.month ?? ""}
+                taxonomy={taxonomy}
+                currency={reportingCurrency}
+              />
+
+              <TagReport
+                transactions={periodResult.transactions}
+                taxonomy={taxonomy}
+                rules={tagRules}
+                tagFilter={activeTagFilter}
+                onFilter={updateTagFilter}
+                onDeleteRule={(id) => updateTagRules(tagRules.filter((r) => r.id !== id))}
+                currency={reportingCurrency}
+              />
+
+              <TopMerchantsPanel
+                monthlyExpenses={periodResult.monthlyExpenses}
+                history={result.monthlyExpenses}
+                historyTransactions={result.transactions}
+                range={range}
+                taxonomy={taxonomy}
+                currency={reportingCurrency}
+                onShowInLedger={showInLedger}
+              />
+
+              <TopRecurringTransactions
+                monthlyExpenses={periodResult.monthlyExpenses}
+                transactions={periodResult.transactions}
+                taxonomy={taxonomy}
+                currency={reportingCurrency}
+                onRecategorize={setRecategorizeTarget}
+              />
+              <IdenticalRecurringTransactions
+                monthlyExpenses={periodResult.monthlyExpenses}
+                transactions={periodResult.transactions}
+                taxonomy={taxonomy}
+                currency={reportingCurrency}
+                onRecategorize={setRecategorizeTarget}
+              />
+
+              {/* Cadence and stopped subscriptions need the whole history, not just the selected period. */}
+              <SubscriptionsPanel
+                monthlyExpenses={result.monthlyExpenses}
+                transactions={result.transactions}
+                taxonomy={taxonomy}
+                currency={reportingCurrency}
+                onRecategorize={setRecategorizeTarget}
+              />
+
+              <InsightsPanel
+                transactions={result.transactions}
+                monthlyExpenses={result.monthlyExpenses}
+                range={range}
+                taxonomy={taxonomy}
+                currency={reportingCurrency}
+                onShowInLedger={showInLedger}
+              />
+
+              <div ref={ledgerRef}>
+                <TransactionLedger
+                  key={ledgerFocus?.nonce ?? 0}
+                  transactions={periodResult.transactions}
+                  taxonomy={taxonomy}
+                  currency={reportingCurrency}
+                  focus={ledgerFocus}
+                  // A part's category is changed in the split editor.
+                  onRecategorize={(target) =>
+                    target.transaction?.splitOf ? openSplit(target.transaction) : setRecategorizeTarget(target)
+                  }
+                  onAnnotate={setAnnotateTarget}
+                  onSplit={openSplit}
+                />
+              </div>
+
+              <CategoryManager
+                taxonomy={taxonomy}
+                categoryKeys={categoryNames}
+                colors={categoryColors}
+                onChange={updateTaxonomy}
+                onMerge={handleMergeCategories}
+              />
+
+              <InternalTransfersPanel
+                pairs={transferPairs}
+                untaggedCandidates={untaggedTransferCandidates}
+                unlinkedCount={transferDecisions.unlinked.length}
+                onConfirm={(id) =>
+                  updateTransferDecisions({ ...transferDecisions, confirmed: [...transferDecisions.confirmed, id] })
+                }
+                onUnlink={(id) =>
+                  updateTransferDecisions({
+                    confirmed: transferDecisions.confirmed.filter((c) => c !== id),
+                    unlinked: [...transferDecisions.unlinked, id],
+                  })
+                }
+                onResetUnlinked={() => updateTransferDecisions({ ...transferDecisions, unlinked: [] })}
+                currency={reportingCurrency}
+              />
+
+              <ExchangeRatesPanel
+                reportingCurrency={reportingCurrency}
+                dataCurrencies={dataCurrencies}
+                rates={exchangeRates}
+                missing={conversion.missing}
+                onChangeCurrency={updateReportingCurrency}
+                onChangeRates={updateExchangeRates}
+              />
+
+              <CategoryRulesPanel
+                rules={categoryRules}
+                taxonomy={taxonomy}
+                overrideCount={Object.keys(categoryOverrides).length}
+                onDeleteRule={(id) => updateCategoryRules(categoryRules.filter((r) => r.id !== id))}
+                onClearOverrides={() => updateCategoryOverrides({})}
+              />
+
+              <MerchantAliasesPanel
+                aliases={merchantAliases}
+                transactions={householdTransactions ?? []}
+                onChange={updateMerchantAliases}
+              />
+
+              {splitTarget && (
+                  <SplitDialog
+                    transaction={splitTarget}
+                    parts={splits[splitTarget.id]}
+                    categories={categoryNames}
+                    taxonomy={taxonomy}
+                    onSave={(parts) => saveSplit(splitTarget.id, parts)}
+                    onCancel={() => setSplitTarget(null)}
+                  />
+              )}
+
+              {annotateTarget && (
+                  <AnnotationDialog
+                    transaction={annotateTarget}
+                    annotation={annotations[annotateTarget.splitOf ?? annotateTarget.id]}
+                    knownTags={knownTags}
+                    onSave={(annotation, rules) => saveAnnotation(annotateTarget.splitOf ?? annotateTarget.id, annotation, rules)}
+                    onCancel={() => setAnnotateTarget(null)}
+                  />
+              )}
+
+              {recategorizeTarget && (
+                  <RecategorizeDialog
+                    target={recategorizeTarget}
+                    categories={categoryNames}
+                    taxonomy={taxonomy}
+                    transactions={result.transactions}
+                    onSaveRule={(rule, isNew) => {
+                      // Newest rules first, so they win over older, broader ones.
+                      updateCategoryRules([{ ...rule, category: resolvePickedCategory(rule.category, isNew) }, ...categoryRules]);
+                      setRecategorizeTarget(null);
+                    }}
+                    onSaveOverride={(id, category, isNew) => {
+                      updateCategoryOverrides({ ...categoryOverrides, [id]: resolvePickedCategory(category, isNew) });
+                      setRecategorizeTarget(null);
+                    }}
+                    onCancel={() => setRecategorizeTarget(null)}
+                  />
+              )}
 
               <details style={{ marginTop: 16 }}>
                 <summary>Show raw JSON</summary>
@@ -0,0 +1,578 @@
+import { describe, expect, it } from "vitest";
+import {
+  applyCategoryMerges,
+  applyMerchantNames,
+  applyTransactionSplits,
+  buildAnalysisResult,
+  buildDefaultTaxonomy,
+  buildMonthlyBarChart,
+  buildSpendingForecast,
+  computeIdenticalRecurringTransactions,
+  computeMerchantHistory,
+  computeMerchantTotals,
+  computeSettleUp,
+  computeTopRecurringTransactions,
+  convertBudgets,
+  convertTransactions,
+  countUntaggedTransferCandidates,
+  detectInternalTransfers,
+  detectSubscriptions,
+  findDuplicateTransactions,
+  groupSplitParts,
+  makeCategoryKey,
+  mergeCategories,
+  merchantName,
+  monthsInRange,
+  normalizeMerchantName,
+  totalBudgetProgress,
+  validateSplitParts,
+  withUniqueTransactionIds,
+  type ImportRecord,
+  type Transaction,
+} from "./analysis.ts";
+
+/** A booked expense (or income for positive amounts) with defaults for the fields a test doesn't care about. */
+function tx(overrides: Partial<Transaction> & Pick<Transaction, "id">): Transaction {
+  return {
+    date: "2025-03-01",
+    amount: -10,
+    currency: "EUR",
+    merchant: "Shop",
+    description: "",
+    category: "food",
+    sourceFile: "a.csv",
+    bank: "Nordea",
+    ...overrides,
+  };
+}
+
+function importRecord(id: string, transactions: Transaction[]): ImportRecord {
+  return { id, fileName: `${id}.csv`, bank: "Nordea", importedAt: "2025-04-01T00:00:00Z", transactions };
+}
+
+describe("category taxonomy", () => {
+  it("makes camelCase keys that don't collide with existing categories", () => {
+    const taxonomy = buildDefaultTaxonomy();
+    expect(makeCategoryKey("Eating out", [], taxonomy)).toBe("eatingOut");
+    expect(makeCategoryKey("Food", [], taxonomy)).toBe("food2");
+  });
+
+  it("keeps the keys of merged-away categories taken", () => {
+    const created = { ...buildDefaultTaxonomy(), categories: [...buildDefaultTaxonomy().categories, { key: "pets", label: "Pets" }] };
+    const { taxonomy } = mergeCategories({ taxonomy: created, rules: [], overrides: {}, budgets: {} }, "pets", "other");
+
+    const key = makeCategoryKey("Pets", ["other"], taxonomy);
+    expect(key).toBe("pets2");
+    const [moved] = applyCategoryMerges([tx({ id: "1", category: key })], taxonomy);
+    expect(moved.category).toBe(key);
+  });
+
+  it("moves transactions, rules and overrides of a merged category", () => {
+    const next = mergeCategories(
+      {
+        taxonomy: buildDefaultTaxonomy(),
+        rules: [{ id: "r", match: "exact", pattern: "Lidl", category: "food" }],
+        overrides: { t1: "food" },
+        budgets: {},
+      },
+      "food",
+      "other"
+    );
+
+    expect(applyCategoryMerges([tx({ id: "1" })], next.taxonomy)[0].category).toBe("other");
+    expect(next.rules[0].category).toBe("other");
+    expect(next.overrides).toEqual({ t1: "other" });
+  });
+
+  it("adds the budget of a merged category to the one it is merged into", () => {
+    const { budgets } = mergeCategories(
+      {
+        taxonomy: buildDefaultTaxonomy(),
+        rules: [],
+        overrides: {},
+        budgets: { food: { monthly: 300, months: { "2025-03": 400 } }, other: { monthly: 50, months: {} } },
+      },
+      "food",
+      "other"
+    );
+
+    expect(budgets).toEqual({ other: { monthly: 350, months: { "2025-03": 450 } } });
+  });
+});
+
+describe("findDuplicateTransactions", () => {
+  it("finds overlapping bookings on date, amount and counterparty", () => {
+    const existing = [tx({ id: "a", date: "2025-03-10", merchant: "K-Market  Kamppi" })];
+    const incoming = [
+      importRecord("new", [
+        tx({ id: "b", date: "2025-03-10", merchant: "k-market kamppi" }),
+        tx({ id: "c", date: "2025-03-11", merchant: "K-Market Kamppi" }),
+      ]),
+    ];
+
+    expect(findDuplicateTransactions(existing, incoming).map((d) => [d.incoming.id, d.existing.id])).toEqual([["b", "a"]]);
+  });
+
+  it("lets every existing booking absorb only one match", () => {
+    const coffee = { date: "2025-03-10", amount: -3.5, merchant: "Cafe" };
+    const existing = [tx({ id: "a1", ...coffee }), tx({ id: "a2", ...coffee })];
+    const incoming = [importRecord("new", [tx({ id: "b1", ...coffee }), tx({ id: "b2", ...coffee }), tx({ id: "b3", ...coffee })])];
+
+    expect(findDuplicateTransactions(existing, incoming)).toHaveLength(2);
+  });
+
+  it("keeps bookings whose bank references differ", () => {
+    const existing = [tx({ id: "a", reference: "RF1" })];
+    const incoming = [importRecord("new", [tx({ id: "b", reference: "RF2" })])];
+
+    expect(findDuplicateTransactions(existing, incoming)).toEqual([]);
+  });
+
+  it("checks later files of one upload against earlier ones, but not a file against itself", () => {
+    const incoming = [
+      importRecord("first", [tx({ id: "a" }), tx({ id: "a2" })]),
+      importRecord("second", [tx({ id: "b" })]),
+    ];
+
+    expect(findDuplicateTransactions([], incoming).map((d) => d.incoming.id)).toEqual(["b"]);
+  });
+});
+
+describe("withUniqueTransactionIds", () => {
+  it("renames ids that are already taken", () => {
+    const [record] = withUniqueTransactionIds([importRecord("new", [tx({ id: "a" }), tx({ id: "a" })])], [tx({ id: "a" })]);
+    expect(record.transactions.map((t) => t.id)).toEqual(["a#1", "a#2"]);
+  });
+});
+
+describe("buildAnalysisResult", () => {
+  it("averages income and expenses over the same months, counting empty months as zero", () => {
+    const result = buildAnalysisResult([
+      tx({ id: "salary-jan", date: "2025-01-25", amount: 3000, merchant: "Employer" }),
+      tx({ id: "rent-jan", date: "2025-01-01", amount: -900 }),
+      tx({ id: "rent-feb", date: "2025-02-01", amount: -900 }),
+      tx({ id: "salary-mar", date: "2025-03-25", amount: 3000, merchant: "Employer" }),
+    ]);
+
+    expect(result.averageMonthIncome).toBe(2000);
+    expect(result.averageMonthExpenses).toBe(600);
+  });
+
+  it("leaves internal transfers out of both sides", () => {
+    const result = buildAnalysisResult([
+      tx({ id: "out", amount: -500, transferId: "t1" }),
+      tx({ id: "in", amount: 500, transferId: "t1" }),
+      tx({ id: "coffee", amount: -4 }),
+    ]);
+
+    expect(result.averageMonthIncome).toBe(0);
+    expect(result.averageMonthExpenses).toBe(4);
+  });
+});
+
+describe("detectInternalTransfers", () => {
+  const noDecisions = { confirmed: [], unlinked: [] };
+
+  it("pairs equal opposite amounts on two tagged accounts within a few days", () => {
+    const pairs = detectInternalTransfers(
+      [
+        tx({ id: "out", date: "2025-03-01", amount: -500, account: "Checking", sourceFile: "checking.csv" }),
+        tx({ id: "in", date: "2025-03-03", amount: 500, account: "Savings", sourceFile: "savings.csv" }),
+      ],
+      noDecisions
+    );
+
+    expect(pairs.map((p) => [p.outgoing.id, p.incoming.id, p.days])).toEqual([["out", "in", 2]]);
+  });
+
+  it("does not pair a purchase and its refund from two exports of the same untagged account", () => {
+    const pairs = detectInternalTransfers(
+      [
+        tx({ id: "purchase", amount: -40, account: "march.csv", sourceFile: "march.csv" }),
+        tx({ id: "refund", amount: 40, account: "march-again.csv", sourceFile: "march-again.csv" }),
+      ],
+      noDecisions
+    );
+
+    expect(pairs).toEqual([]);
+  });
+
+  it("counts unpaired matches between untagged files of the same bank, which need account tags", () => {
+    const transactions = [
+      tx({ id: "out", amount: -500, account: "checking.csv", sourceFile: "checking.csv" }),
+      tx({ id: "in", amount: 500, account: "savings.csv", sourceFile: "savings.csv" }),
+    ];
+    const pairs = detectInternalTransfers(transactions, noDecisions);
+
+    expect(pairs).toEqual([]);
+    expect(countUntaggedTransferCandidates(transactions, pairs)).toBe(1);
+
+    const tagged = [
+      { ...transactions[0], account: "Checking" },
+      { ...transactions[1], account: "Savings" },
+    ];
+    const taggedPairs = detectInternalTransfers(tagged, noDecisions);
+    expect(taggedPairs).toHaveLength(1);
+    expect(countUntaggedTransferCandidates(tagged, taggedPairs)).toBe(0);
+  });
+
+  it("pairs untagged exports from different banks", () => {
+    const pairs = detectInternalTransfers(
+      [
+        tx({ id: "out", amount: -500, bank: "Nordea", account: "nordea.csv", sourceFile: "nordea.csv" }),
+        tx({ id: "in", amount: 500, bank: "ING", account: "ing.csv", sourceFile: "ing.csv" }),
+      ],
+      noDecisions
+    );
+
+    expect(pairs).toHaveLength(1);
+  });
+
+  it("pairs a transfer between currencies on its converted amounts", () => {
+    const { transactions } = convertTransactions(
+      [
+        tx({ id: "out", amount: -100, account: "Checking" }),
+        tx({ id: "in", amount: 1092.5, currency: "SEK", bank: "SEB", account: "Savings" }),
+      ],
+      "EUR",
+      [{ date: "2025-03-01", base: "EUR", quote: "SEK", rate: 11 }]
+    );
+
+    expect(detectInternalTransfers(transactions, noDecisions).map((p) => p.incoming.originalAmount)).toEqual([1092.5]);
+  });
+
+  it("skips unlinked pairs and keeps confirmed ones", () => {
+    const transactions = [
+      tx({ id: "out", amount: -500, account: "Checking" }),
+      tx({ id: "in", amount: 500, account: "Savings" }),
+    ];
+
+    expect(detectInternalTransfers(transactions, { confirmed: [], unlinked: ["out\nin"] })).toEqual([]);
+    expect(detectInternalTransfers(transactions, { confirmed: ["out\nin"], unlinked: [] })[0].confirmed).toBe(true);
+  });
+});
+
+describe("budgets", () => {
+  const taxonomy = buildDefaultTaxonomy();
+  const march = buildAnalysisResult([
+    tx({ id: "groceries", amount: -250, category: "food" }),
+    tx({ id: "cinema", amount: -100, category: "entertainment" }),
+  ]).monthlyExpenses;
+
+  it("compares the total budget with the spend of budgeted categories only", () => {
+    const total = totalBudgetProgress({ food: { monthly: 300, months: {} } }, march[0], "2025-03", taxonomy);
+    expect(total).toEqual({ category: "total", budget: 300, spent: 250, covered: false });
+  });
+
+  it("keeps bars within budget blue and draws the budget line only where every category is budgeted", () => {
+    const chart = buildMonthlyBarChart(march, undefined, (month, expenses) =>
+      totalBudgetProgress({ food: { monthly: 300, months: {} } }, expenses, month, taxonomy)
+    );
+    const [bars] = chart.data.datasets;
+
+    expect(bars.backgroundColor).toEqual(["rgba(13, 110, 253, 0.4)"]);
+    expect(chart.data.datasets.some((d) => d.label === "Budget")).toBe(false);
+  });
+
+  it("converts budgets to a new reporting currency, or gives up without a rate", () => {
+    const budgets = { food: { monthly: 100, months: { "2025-03": 200 } } };
+    const rates = [
+      { date: "2025-03-10", base: "EUR", quote: "SEK", rate: 11 },
+      { date: "2025-06-01", base: "EUR", quote: "SEK", rate: 11.5 },
+    ];
+
+    expect(convertBudgets(budgets, "EUR", "SEK", rates)).toEqual({ food: { monthly: 1150, months: { "2025-03": 2200 } } });
+    expect(convertBudgets(budgets, "EUR", "USD", rates)).toBeNull();
+    expect(convertBudgets({}, "EUR", "USD", [])).toEqual({});
+  });
+});
+
+describe("detectSubscriptions", () => {
+  const charge = (date: string, amount: number, merchant = "Streamly") => tx({ id: `${merchant}-${date}`, date, amount, merchant });
+
+  it("finds a monthly subscription and predicts the next charge", () => {
+    const [subscription] = detectSubscriptions(
+      [charge("2025-01-05", -9.99), charge("2025-02-05", -9.99), charge("2025-03-05", -9.99)],
+      "2025-03-20"
+    );
+
+    expect(subscription).toMatchObject({ merchant: "Streamly", cadence: "monthly", status: "active", nextDate: "2025-04-05" });
+    expect(subscription.annualCost).toBeCloseTo(119.88);
+  });
+
+  it("accepts a yearly plan whose price changed between its two charges and reports the change", () => {
+    const [subscription] = detectSubscriptions([charge("2024-03-10", -99), charge("2025-03-10", -109)], "2025-04-01");
+
+    expect(subscription).toMatchObject({ cadence: "yearly", lastAmount: 109 });
+    expect(subscription.priceChange).toEqual({ from: 99, to: 109, date: "2025-03-10" });
+  });
+
+  it("ignores regular shopping whose amount keeps changing", () => {
+    const shopping = [-41.2, -38.9, -44.5, -40.1].map((amount, i) => charge(`2025-0${i + 1}-02`, amount, "Grocer"));
+    expect(detectSubscriptions(shopping, "2025-04-10")).toEqual([]);
+  });
+
+  it("marks a subscription stopped once charges are overdue", () => {
+    const [subscription] = detectSubscriptions(
+      [charge("2025-01-05", -5), charge("2025-02-05", -5), charge("2025-03-05", -5)],
+      "2025-06-01"
+    );
+    expect(subscription).toMatchObject({ status: "stopped", nextDate: null });
+  });
+});
+
+describe("convertTransactions", () => {
+  const rates = [{ date: "2025-03-01", base: "EUR", quote: "SEK", rate: 11 }];
+
+  it("converts into the reporting currency and keeps the booked amount", () => {
+    const { transactions } = convertTransactions([tx({ id: "a", amount: -110, currency: "SEK" })], "EUR", rates);
+    expect(transactions[0]).toMatchObject({ amount: -10, currency: "EUR", originalAmount: -110, originalCurrency: "SEK" });
+  });
+
+  it("leaves out transactions without a rate instead of counting their foreign amounts", () => {
+    const conversion = convertTransactions(
+      [tx({ id: "a", amount: -10 }), tx({ id: "b", amount: -500, currency: "NOK" })],
+      "EUR",
+      rates
+    );
+
+    expect(conversion.transactions.map((t) => t.id)).toEqual(["a"]);
+    expect(conversion.missing).toEqual({ NOK: 1 });
+  });
+});
+
+describe("buildSpendingForecast", () => {
+  const spend = (date: string, amount: number, category = "food") => tx({ id: `${category}-${date}`, date, amount, category });
+
+  it("waits for enough complete months of history", () => {
+    expect(buildSpendingForecast([spend("2025-03-02", -100)], [], "2025-03-31", 3)).toBeNull();
+  });
+
+  it("projects each upcoming month at the recent mean, with a band from its spread", () => {
+    const history = [spend("2025-01-10", -100), spend("2025-02-10", -200), spend("2025-03-10", -300)];
+    const forecast = buildSpendingForecast(history, [], "2025-03-31", 2);
+
+    expect(forecast?.current).toBeNull();
+    expect(forecast?.total.map((p) => p.month)).toEqual(["2025-04", "2025-05"]);
+    expect(forecast?.total[0].value).toBeCloseTo(200);
+    expect(forecast?.total[0].spread).toBeCloseTo(1.28 * Math.sqrt(20000 / 3));
+    expect(Object.keys(forecast?.categories ?? {})).toEqual(["food"]);
+  });
+
+  it("places subscriptions on their charge dates instead of averaging them", () => {
+    const charges = ["2025-01-05", "2025-02-05", "2025-03-05"].map((date) => spend(date, -10, "media"));
+    const transactions = [...charges, spend("2025-01-20", -50), spend("2025-02-20", -50), spend("2025-03-20", -50)];
+    const forecast = buildSpendingForecast(transactions, detectSubscriptions(transactions, "2025-03-31"), "2025-03-31", 1);
+
+    expect(forecast?.categories.media.map((p) => [p.value, p.spread])).toEqual([[10, 0]]);
+    expect(forecast?.total[0].value).toBeCloseTo(60);
+  });
+
+  it("adds the mean for the rest of a partial month to what was spent so far", () => {
+    const transactions = [spend("2025-01-10", -310), spend("2025-02-10", -310), spend("2025-03-02", -50)];
+    const forecast = buildSpendingForecast(transactions, [], "2025-03-15", 1);
+
+    expect(forecast?.current?.spentSoFar).toBe(50);
+    expect(forecast?.current?.projected.value).toBeCloseTo(50 + 310 * (16 / 31));
+    expect(forecast?.total.map((p) => p.month)).toEqual(["2025-03", "2025-04"]);
+  });
+});
+
+describe("computeSettleUp", () => {
+  const taxonomy = buildDefaultTaxonomy();
+  const paid = (id: string, owner: string, amount: number, category = "food") => tx({ id, owner, amount, category });
+
+  it("divides shared expenses evenly and has the one who paid less pay back", () => {
+    const result = computeSettleUp(
+      [paid("1", "Alex", -300), paid("2", "Sam", -100), paid("3", "Sam", -80, "travel")],
+      { sharedCategories: ["food"], weights: {} },
+      taxonomy
+    );
+
+    expect(result.total).toBe(400);
+    expect(result.rows).toEqual([
+      { owner: "Alex", paid: 300, share: 200, balance: 100 },
+      { owner: "Sam", paid: 100, share: 200, balance: -100 },
+    ]);
+    expect(result.transfers).toEqual([{ from: "Sam", to: "Alex", amount: 100 }]);
+  });
+
+  it("divides by the members' weights, including members without shared expenses", () => {
+    const result = computeSettleUp(
+      [paid("1", "Alex", -300), paid("2", "Sam", -20, "travel")],
+      { sharedCategories: ["food"], weights: { Alex: 2, Sam: 1 } },
+      taxonomy
+    );
+
+    expect(result.rows.map((r) => r.share)).toEqual([200, 100]);
+    expect(result.transfers).toEqual([{ from: "Sam", to: "Alex", amount: 100 }]);
+  });
+
+  it("leaves joint accounts, income and internal transfers out", () => {
+    const result = computeSettleUp(
+      [
+        paid("1", "Joint", -500),
+        tx({ id: "2", amount: -50, category: "food" }),
+        paid("3", "Alex", 1000),
+        paid("4", "Alex", -200, "food"),
+        { ...paid("5", "Sam", -200), transferId: "t" },
+      ],
+      { sharedCategories: ["food"], weights: {} },
+      taxonomy
+    );
+
+    expect(result.total).toBe(200);
+    expect(result.transfers).toEqual([{ from: "Sam", to: "Alex", amount: 100 }]);
+  });
+});
+
+describe("transaction splits", () => {
+  it("accepts parts that add up to the amount to the cent", () => {
+    expect(validateSplitParts([{ amount: 12.5, category: "food" }, { amount: 7.5, category: "kids" }], 20)).toBeNull();
+    expect(validateSplitParts([{ amount: 10, category: "food" }, { amount: 10, category: "kids" }], 20.01)).toBe(
+      "The parts add up to 20.00 instead of 20.01."
+    );
+    expect(validateSplitParts([{ amount: 20, category: "food" }], 20)).toBe("Split into at least two parts.");
+    expect(validateSplitParts([{ amount: 20, category: "food" }, { amount: 0, category: "kids" }], 20)).toBe(
+      "Every part needs an amount above zero."
+    );
+  });
+
+  it("replaces a split transaction by its parts, sharing out the converted amount", () => {
+    const booked = tx({ id: "a", amount: -10, currency: "EUR", originalAmount: -110, originalCurrency: "SEK" });
+    const parts = applyTransactionSplits([booked], {
+      a: [
+        { amount: 55, category: "food" },
+        { amount: 55, category: "kids" },
+      ],
+    });
+
+    expect(parts.map((p) => [p.id, p.splitOf, p.category, p.amount, p.originalAmount])).toEqual([
+      ["a~1", "a", "food", -5, -55],
+      ["a~2", "a", "kids", -5, -55],
+    ]);
+  });
+
+  it("gives parts ids that can't collide with renamed duplicates", () => {
+    const [record] = withUniqueTransactionIds([importRecord("new", [tx({ id: "a" })])], [tx({ id: "a" })]);
+    const transactions = [tx({ id: "a", amount: -20 }), ...record.transactions];
+    const split = applyTransactionSplits(transactions, {
+      a: [
+        { amount: 15, category: "food" },
+        { amount: 5, category: "kids" },
+      ],
+    });
+
+    expect(new Set(split.map((t) => t.id)).size).toBe(split.length);
+  });
+
+  it("counts a split purchase once in the recurring stats, at its full amount", () => {
+    const receipts = ["2025-01-10", "2025-02-10", "2025-03-10"].map((date) => tx({ id: date, date, amount: -30, merchant: "Market" }));
+    const transactions = applyTransactionSplits(receipts, {
+      "2025-01-10": [
+        { amount: 10, category: "food" },
+        { amount: 10, category: "kids" },
+        { amount: 10, category: "other" },
+      ],
+    });
+
+    expect(computeTopRecurringTransactions(transactions)).toEqual([
+      { name: "Market", category: "food", count: 3, avgAmount: 30, totalAmount: 90 },
+    ]);
+    expect(computeIdenticalRecurringTransactions(transactions)).toEqual([
+      { name: "Market", category: "food", amount: 30, count: 3, totalAmount: 90 },
+    ]);
+  });
+
+  it("ignores a split that no longer adds up", () => {
+    const t = tx({ id: "a", amount: -25 });
+    expect(applyTransactionSplits([t], { a: [{ amount: 10, category: "food" }, { amount: 10, category: "kids" }] })).toEqual([t]);
+  });
+});
+
+describe("merchant names", () => {
+  it("strips processor prefixes, card numbers and store numbers", () => {
+    expect(normalizeMerchantName("Paytrail Oyj  DNA Oyj")).toBe("DNA Oyj");
+    expect(normalizeMerchantName("PAYPAL *SPOTIFY *1234")).toBe("Spotify");
+    expect(normalizeMerchantName("BURGER BAR #0042")).toBe("Burger Bar");
+    expect(normalizeMerchantName("Alko nr 12")).toBe("Alko");
+  });
+
+  it("keeps numbers that are part of the name", () => {
+    expect(normalizeMerchantName("ROUTE 66")).toBe("Route 66");
+    expect(normalizeMerchantName("Bar 99")).toBe("Bar 99");
+    expect(normalizeMerchantName("Studio 54 21")).toBe("Studio 54 21");
+  });
+
+  it("groups branches of known chains under the chain", () => {
+    expect(normalizeMerchantName("K-MARKET TOOLO 123")).toBe("K-Market");
+    expect(normalizeMerchantName("K-Market Kamppi")).toBe("K-Market");
+    expect(normalizeMerchantName("K-Supermarket Mankkaa")).toBe("K-Supermarket");
+    expect(normalizeMerchantName("Shellfish Restaurant")).toBe("Shellfish Restaurant");
+  });
+
+  it("keeps names it would strip to nothing, and mixed-case names as they are", () => {
+    expect(normalizeMerchantName("PayPal *")).toBe("PayPal *");
+    expect(normalizeMerchantName("McDonald's")).toBe("McDonald's");
+  });
+
+  it("groups transactions under the first matching alias, else the normalized name", () => {
+    const named = applyMerchantNames(
+      [
+        tx({ id: "1", merchant: "AMZN Mktp DE*2K4" }),
+        tx({ id: "2", merchant: "PAYPAL *SPOTIFY" }),
+        tx({ id: "3", merchant: "Bakery" }),
+      ],
+      [
+        { id: "a", match: "substring", pattern: "amzn", merchant: "Amazon" },
+        { id: "b", match: "exact", pattern: "Spotify", merchant: "Spotify AB" },
+      ]
+    );
+
+    expect(named.map(merchantName)).toEqual(["Amazon", "Spotify AB", "Bakery"]);
+    expect(named[2].canonicalMerchant).toBeUndefined();
+  });
+});
+
+describe("merchant totals and history", () => {
+  const split = applyTransactionSplits([tx({ id: "big", date: "2025-01-10", amount: -30, merchant: "Market" })], {
+    big: [
+      { amount: 20, category: "food" },
+      { amount: 10, category: "kids" },
+    ],
+  });
+  const transactions = [
+    ...split,
+    tx({ id: "small", date: "2025-03-04", amount: -10, merchant: "Market" }),
+    tx({ id: "refund", date: "2025-03-05", amount: 5, merchant: "Market" }),
+    tx({ id: "salary", date: "2025-04-25", amount: 3000, merchant: "Employer" }),
+  ];
+  const { monthlyExpenses } = buildAnalysisResult(transactions);
+
+  it("counts the parts of a split purchase as one visit", () => {
+    expect(computeMerchantTotals(monthlyExpenses)).toEqual([
+      { merchant: "Market", category: "food", count: 2, avgAmount: 20, totalAmount: 40 },
+    ]);
+  });
+
+  it("fills months without a visit with zero, up to the last month with expenses", () => {
+    expect(computeMerchantHistory(monthlyExpenses, "Market")).toEqual([
+      { month: "2025-01", amount: 30, count: 1 },
+      { month: "2025-02", amount: 0, count: 0 },
+      { month: "2025-03", amount: 10, count: 1 },
+    ]);
+  });
+
+  it("lists the parts of a split transaction together", () => {
+    expect(groupSplitParts(transactions).map((g) => [g.id, g.parts.length])).toEqual([
+      ["big", 2],
+      ["small", 1],
+      ["refund", 1],
+      ["salary", 1],
+    ]);
+  });
+
+  it("spreads visits over every month of the selected range", () => {
+    expect(monthsInRange({ start: "2025-01-01", end: "2025-06-30", label: "" })).toBe(6);
+  });
+});
@@ -0,0 +1,3007 @@
+/**
+ * Analysis model and pure helpers: aggregation, detection, forecasting and chart configs.
+ * Free of React so the rules can be tested on their own; the components live in `App.tsx`.
+ */
+import {
+  readCsvLines,
+  splitCsvLine,
+  type BankDetection,
+  type BankProfile,
+  type Transaction as ParsedTransaction,
+} from "./csvImport.ts";
+import type { LegendItem, TooltipItem } from "chart.js";
+
+// -------------------- Types --------------------
+/**
+ * A transaction as the views see it: the parsed booking plus the fields the UI derives from the
+ * settings on every render. Imports store only the parsed part.
+ */
+export type Transaction = ParsedTransaction & {
+  /** Amount and currency as booked, set when `amount` was converted to the reporting currency. */
+  originalAmount?: number;
+  originalCurrency?: string;
+  /** Set on both sides of an internal transfer between our own accounts. */
+  transferId?: string;
+  /** From the account and owner its import is tagged with. */
+  account?: string;
+  owner?: string;
+  /** From the user's tag rules and per-transaction tags and note. */
+  tags?: string[];
+  note?: string;
+  /** On the parts of a split transaction: the id of the transaction they replace. */
+  splitOf?: string;
+  /** Set when normalization or an alias groups the merchant under a different name. */
+  canonicalMerchant?: string;
+};
+
+/** Expense aggregates for one month; category amounts are positive spend. */
+export type MonthlyExpense = {
+  month: string;
+  sum: number;
+  categories: Record<string, { amount: number; percentage: number; transactions: Transaction[] }>;
+};
+
+/** Money coming in during one month, grouped by source (the counterparty paying us). */
+export type MonthlyIncome = {
+  month: string;
+  sum: number;
+  sources: Record<string, { amount: number; transactions: Transaction[] }>;
+};
+
+export type AnalysisResult = {
+  averageMonthExpenses: number;
+  averageMonthIncome: number;
+  monthlyExpenses: MonthlyExpense[];
+  monthlyIncome: MonthlyIncome[];
+  transactions: Transaction[];
+};
+
+/** Income vs expenses for one month (or the whole period). `savingsRate` is null without income. */
+type CashFlowRow = {
+  month: string;
+  income: number;
+  expenses: number;
+  net: number;
+  savingsRate: number | null;
+};
+
+export type CategoryRuleMatch = "exact" | "substring" | "regex";
+
+/** User rule that moves every transaction whose merchant matches `pattern` into `category`. */
+export type CategoryRule = {
+  id: string;
+  match: CategoryRuleMatch;
+  pattern: string;
+  category: string;
+};
+
+/** User rule that adds `tag` to every transaction whose merchant matches `pattern`. */
+export type TagRule = {
+  id: string;
+  match: CategoryRuleMatch;
+  pattern: string;
+  tag: string;
+};
+
+/** User alias: merchants whose name matches `pattern` are grouped under `merchant`. */
+export type MerchantAlias = {
+  id: string;
+  match: CategoryRuleMatch;
+  pattern: string;
+  merchant: string;
+};
+
+/** Tags and note the user put on one transaction; tags from rules are added on top. */
+export type TransactionAnnotation = {
+  tags: string[];
+  note: string;
+};
+
+/** One part of a split transaction: a positive amount in the booked currency and its category. */
+export type SplitPart = {
+  amount: number;
+  category: string;
+};
+
+/** Spend with one tag, in total and split by top-level category and by month. */
+type TagReportRow = {
+  tag: string;
+  total: number;
+  count: number;
+  byCategory: Record<string, number>;
+  byMonth: Record<string, number>;
+};
+
+/** A category in the user's taxonomy. Only one level of nesting: a child's `parent` is a top-level key. */
+type CategoryDefinition = {
+  key: string;
+  label: string;
+  /** Hex color; generated from the spend ranking when unset. */
+  color?: string;
+  parent?: string;
+};
+
+export type CategoryTaxonomy = {
+  categories: CategoryDefinition[];
+  /** Merged-away category key -> the key it was merged into. */
+  merged: Record<string, string>;
+};
+
+/** What the user picked to re-categorize: a single transaction or everything from a merchant. */
+export type RecategorizeTarget = {
+  merchant: string;
+  category: string;
+  transaction?: Transaction;
+};
+
+/** One uploaded file as stored locally: its metadata and the transactions read from it. */
+export type ImportRecord = {
+  id: string;
+  fileName: string;
+  bank: string;
+  /** ISO timestamp of the upload. */
+  importedAt: string;
+  transactions: ParsedTransaction[];
+  /** Account the file was exported from, e.g. "Joint Nordea"; the file name when not set. */
+  account?: string;
+  /** Household member the account belongs to; joint accounts have none. */
+  owner?: string;
+};
+
+/** An incoming transaction that looks like one already in the dataset (or in an earlier file of the same upload). */
+type DuplicateCandidate = {
+  incoming: Transaction;
+  existing: Transaction;
+};
+
+/** Parsed files waiting for the duplicate review before they are merged into the dataset. */
+export type PendingImport = {
+  records: ImportRecord[];
+  duplicates: DuplicateCandidate[];
+};
+
+/**
+ * Money moved between two of our own accounts: the outgoing side on one account and the incoming
+ * side on another. `id` is built from both transaction ids, so decisions survive re-imports.
+ */
+export type TransferPair = {
+  id: string;
+  outgoing: Transaction;
+  incoming: Transaction;
+  /** Days between the two bookings. */
+  days: number;
+  confirmed: boolean;
+};
+
+/** Pairs the user confirmed or unlinked, by `TransferPair.id`. */
+export type TransferDecisions = {
+  confirmed: string[];
+  unlinked: string[];
+};
+
+/**
+ * Monthly budget of one category; `months` overrides `monthly` for single months (`YYYY-MM`).
+ * `monthly` is null when the category is only budgeted for some months.
+ */
+type CategoryBudget = {
+  monthly: number | null;
+  months: Record<string, number>;
+};
+
+/** Budget vs actual spend of one category (or the total) in one month. */
+export type BudgetProgress = {
+  category: string;
+  budget: number;
+  spent: number;
+};
+
+/** Total budget of a month; `covered` is false when some spending falls in unbudgeted categories. */
+export type MonthBudget = BudgetProgress & { covered: boolean };
+
+/** Budgets by category key. Budgets of parent categories cover their subcategories. */
+export type Budgets = Record<string, CategoryBudget>;
+
+/**
+ * One unit of `base` costs `rate` units of `quote` on `date` (`YYYY-MM-DD`).
+ * An empty `date` makes a fallback rate used when no dated rate applies.
+ */
+export type ExchangeRate = {
+  date: string;
+  base: string;
+  quote: string;
+  rate: number;
+};
+
+export type PeriodPreset = "all" | "month" | "quarter" | "year" | "rolling12" | "custom";
+
+/**
+ * The reporting period. Presets are anchored on a month (`YYYY-MM`): the month itself, its quarter,
+ * its calendar year or the twelve months ending with it. "custom" uses `from`/`to` (`YYYY-MM-DD`).
+ */
+export type PeriodSelection = {
+  preset: PeriodPreset;
+  anchor: string;
+  from: string;
+  to: string;
+};
+
+/** A resolved period: inclusive ISO date bounds and a label for titles. */
+export type DateRange = {
+  start: string;
+  end: string;
+  label: string;
+};
+
+/** One category in a period comparison; `percent` is null when the first period has no spend. */
+type PeriodComparisonRow = AmountChange & {
+  category: string;
+  a: number;
+  b: number;
+};
+
+/** Change of an amount against an earlier one; `percent` is null when the earlier amount is zero. */
+export type AmountChange = {
+  delta: number;
+  percent: number | null;
+};
+
+/**
+ * Spend of one category in a month against the previous month and the same month a year earlier.
+ * The comparisons are null when that month lies before the start of the history.
+ */
+export type MonthChangeRow = {
+  category: string;
+  current: number;
+  previousMonth: number | null;
+  lastYear: number | null;
+  mom: AmountChange | null;
+  yoy: AmountChange | null;
+};
+
+export type AnomalyKind = "merchantSpike" | "newMerchant" | "categoryMonth" | "duplicateCharge";
+
+/**
+ * Something unusual in the data. `amount` is the spend that stands out and `expected` what would be
+ * typical (the merchant's median, the category's monthly mean); `score` orders findings of one kind.
+ */
+export type Anomaly = {
+  id: string;
+  kind: AnomalyKind;
+  /** `YYYY-MM-DD` for transaction findings, `YYYY-MM` for category months. */
+  date: string;
+  merchant?: string;
+  category?: string;
+  amount: number;
+  expected?: number;
+  score: number;
+  transactionIds: string[];
+};
+
+/** Projected spend for one month; `spread` is the half-width of the confidence band. */
+export type ForecastPoint = {
+  month: string;
+  value: number;
+  spread: number;
+};
+
+/** Spending projected past the last transaction date, in total and per (leaf) category. */
+export type SpendingForecast = {
+  asOf: string;
+  /** End-of-month projection when the month of `asOf` isn't over yet. */
+  current: { month: string; spentSoFar: number; recurringDue: number; projected: ForecastPoint } | null;
+  /** The partial month (if any) followed by the upcoming months. */
+  total: ForecastPoint[];
+  categories: Record<string, ForecastPoint[]>;
+};
+
+/** Global account/owner filter applied to every chart and table; empty strings mean all. */
+export type AccountFilter = {
+  account: string;
+  owner: string;
+};
+
+/** Which expenses the household shares and how they are divided in the settle-up. */
+export type HouseholdSplit = {
+  /** Top-level categories whose expenses are shared. */
+  sharedCategories: string[];
+  /** Relative share per owner; owners not listed count 1. */
+  weights: Record<string, number>;
+};
+
+/** One member in the settle-up: what they paid for shared expenses against their share of them. */
+type SettleUpRow = {
+  owner: string;
+  paid: number;
+  share: number;
+  /** Positive when the member is owed money. */
+  balance: number;
+};
+
+/** User settings persisted next to the imports. */
+export type StoredSettings = {
+  bankProfiles: BankProfile[];
+  categoryRules: CategoryRule[];
+  categoryOverrides: Record<string, string>;
+  taxonomy: CategoryTaxonomy;
+  period: PeriodSelection;
+  /** Second period shown side by side with `period`; null when compare mode is off. */
+  comparePeriod: PeriodSelection | null;
+  transferDecisions: TransferDecisions;
+  budgets: Budgets;
+  reportingCurrency: string;
+  exchangeRates: ExchangeRate[];
+  accountFilter: AccountFilter;
+  householdSplit: HouseholdSplit;
+  tagRules: TagRule[];
+  /** Transaction id -> its tags and note. */
+  annotations: Record<string, TransactionAnnotation>;
+  /** Tag every chart and table is limited to; empty for all transactions. */
+  tagFilter: string;
+  /** Transaction id -> the parts it is split into. */
+  splits: Record<string, SplitPart[]>;
+  merchantAliases: MerchantAlias[];
+};
+
+/** A selected file waiting for analysis, with its sniffed bank format. */
+export type PendingFile = {
+  file: File;
+  detection: BankDetection;
+  /** Built-in `BankName` or the id of a saved `BankProfile`. */
+  formatId: string;
+};
+
+// -------------------- Helpers (pure) --------------------
+const moneyFormats = new Map<string, Intl.NumberFormat>();
+
+/** Format an amount in a currency, e.g. "€12.99" or "12,99 €" depending on the browser locale. */
+export function formatMoney(value: number, currency: string): string {
+  let format = moneyFormats.get(currency);
+  if (!format) {
+    try {
+      format = new Intl.NumberFormat(undefined, { style: "currency", currency });
+    } catch {
+      // Not an ISO 4217 code; show the plain number with the code.
+      return `${value.toFixed(2)} ${currency}`;
+    }
+    moneyFormats.set(currency, format);
+  }
+  return format.format(value);
+}
+
+/** Just the currency symbol, for axis titles and input labels. */
+export function currencySymbol(currency: string): string {
+  try {
+    return (
+      new Intl.NumberFormat(undefined, { style: "currency", currency })
+        .formatToParts(0)
+        .find((p) => p.type === "currency")?.value ?? currency
+    );
+  } catch {
+    return currency;
+  }
+}
+
+/** Format sortable month keys like `2025-04` into a human label like `April 2025`. */
+export function formatMonthLabel(monthKey: string): string {
+  const m = /^(\d{4})-(\d{2})$/.exec(monthKey.trim());
+  if (!m) return monthKey;
+  const year = Number(m[1]);
+  const month = Number(m[2]);
+  const dt = new Date(year, month - 1, 1);
+  // Use the user's locale by default.
+  return new Intl.DateTimeFormat(undefined, { month: "long", year: "numeric" }).format(dt);
+}
+
+/** Generate a distinct color per pie slice using HSL. */
+function makePieColors(n: number): string[] {
+  return Array.from({ length: n }, (_, i) => `hsl(${Math.round((360 * i) / n)}, 70%, 60%)`);
+}
+
+/**
+ * Datasets for one forecast series: a dashed line continuing from the last actual value before the
+ * forecast, over a filled band (an unlabeled low/high pair, hidden from legend and tooltip).
+ * `ranges` holds the band per chart month for the tooltip.
+ */
+function buildForecastDatasets(args: {
+  label: string;
+  months: string[];
+  actual: (number | null)[];
+  points: ForecastPoint[];
+  color: string;
+  bandColor: string;
+}) {
+  const byMonth = new Map(args.points.map((p) => [p.month, p]));
+  const anchor = args.points.length ? args.months.indexOf(shiftMonth(args.points[0].month, -1)) : -1;
+  const series = (pick: (p: ForecastPoint) => number) =>
+    args.months.map((month, i) => {
+      const p = byMonth.get(month);
+      return p ? pick(p) : i === anchor ? args.actual[i] : null;
+    });
+  const band = {
+    type: "line" as const,
+    label: "",
+    borderColor: "rgba(0, 0, 0, 0)",
+    borderWidth: 0,
+    pointRadius: 0,
+    pointHitRadius: 0,
+    tension: 0.2,
+  };
+
+  return {
+    ranges: args.months.map((month) => {
+      const p = byMonth.get(month);
+      return p ? ([Math.max(0, p.value - p.spread), p.value + p.spread] as const) : null;
+    }),
+    datasets: [
+      { ...band, data: series((p) => Math.max(0, p.value - p.spread)), backgroundColor: "rgba(0, 0, 0, 0)", fill: false },
+      { ...band, data: series((p) => p.value + p.spread), backgroundColor: args.bandColor, fill: "-1" },
+      {
+        type: "line" as const,
+        label: args.label,
+        data: series((p) => p.value),
+        borderColor: args.color,
+        backgroundColor: "rgba(0, 0, 0, 0)",
+        borderDash: [6, 4],
+        borderWidth: 2,
+        pointRadius: 2,
+        tension: 0.2,
+        fill: false,
+        pointStyle: "line",
+      },
+    ],
+  };
+}
+
+/** Tooltip line for a money value, with the band when the point is a forecast. */
+function forecastTooltipLabel(
+  ctx: TooltipItem<"bar" | "line">,
+  ranges: Record<string, (readonly [number, number] | null)[]>,
+  currency: string
+): string {
+  const label = ctx.dataset.label ?? "";
+  const text = `${label}: ${formatMoney(Number(ctx.raw ?? 0), currency)}`;
+  const range = ranges[label]?.[ctx.dataIndex];
+  return range ? `${text} (${formatMoney(range[0], currency)} – ${formatMoney(range[1], currency)})` : text;
+}
+
+/** Build the Chart.js config for the monthly expenses bar chart. */
+export function buildMonthlyBarChart(
+  monthlyExpenses: MonthlyExpense[],
+  avgOverride?: number,
+  budgetForMonth?: (month: string, expenses: MonthlyExpense | undefined) => MonthBudget | null,
+  currency = "EUR",
+  rolling?: { window: number; values: Record<string, number> },
+  forecast?: ForecastPoint[]
+) {
+  const ordered = [...monthlyExpenses].sort((a, b) => a.month.localeCompare(b.month));
+  const byMonth = new Map(ordered.map((m) => [m.month, m]));
+  // Forecast months extend the axis past the data.
+  const months = [...byMonth.keys(), ...(forecast ?? []).map((p) => p.month).filter((m) => !byMonth.has(m))];
+  const labels = months.map((m) => formatMonthLabel(m));
+  const values = months.map((m) => byMonth.get(m)?.sum ?? null);
+  const monthBudgets = months.map((m) => budgetForMonth?.(m, byMonth.get(m)) ?? null);
+  // A bar turns red when the budgeted categories overspend; the budget line is only drawn where
+  // it compares with the whole bar, i.e. every category with spending has a budget.
+  const budgetSeries = monthBudgets.map((b) => (b?.covered ? b.budget : null));
+  const colors = monthBudgets.map((b) =>
+    b && b.spent > b.budget ? "rgba(220, 53, 69, 0.45)" : "rgba(13, 110, 253, 0.4)"
+  );
+
+  const avg =
+    avgOverride ?? (ordered.length ? ordered.reduce((acc, m) => acc + m.sum, 0) / ordered.length : 0);
+  const avgSeries = labels.map(() => avg);
+  const projection = forecast?.length
+    ? buildForecastDatasets({
+        label: "Forecast",
+        months,
+        actual: values,
+        points: forecast,
+        color: "rgba(111, 66, 193, 1)",
+        bandColor: "rgba(111, 66, 193, 0.15)",
+      })
+    : null;
+
+  return {
+    data: {
+      labels,
+      datasets: [
+        {
+          type: "bar" as const,
+          label: `Expenses per month (${currencySymbol(currency)})`,
+          data: values,
+          backgroundColor: colors,
+        },
+        {
+          type: "line" as const,
+          label: "Average",
+          data: avgSeries,
+          borderColor: "rgba(255, 159, 64, 1)",
+          backgroundColor: "rgba(0, 0, 0, 0)",
+          borderDash: [6, 6],
+          borderWidth: 2,
+          pointRadius: 0,
+          tension: 0,
+          fill: false,
+          spanGaps: true,
+          pointStyle: "line",
+        },
+        ...(budgetSeries.some((b) => b !== null)
+          ? [
+              {
+                type: "line" as const,
+                label: "Budget",
+                data: budgetSeries,
+                borderColor: "rgba(220, 53, 69, 1)",
+                backgroundColor: "rgba(0, 0, 0, 0)",
+                borderDash: [2, 4],
+                borderWidth: 2,
+                pointRadius: 0,
+                tension: 0,
+                fill: false,
+                spanGaps: false,
+                pointStyle: "line",
+                stepped: "middle" as const,
+              },
+            ]
+          : []),
+        ...(rolling
+          ? [
+              {
+                type: "line" as const,
+                label: `${rolling.window}-month average`,
+                data: months.map((m) => rolling.values[m] ?? null),
+                borderColor: "rgba(25, 135, 84, 1)",
+                backgroundColor: "rgba(0, 0, 0, 0)",
+                borderWidth: 2,
+                pointRadius: 2,
+                tension: 0.3,
+                fill: false,
+                spanGaps: true,
+                pointStyle: "line",
+              },
+            ]
+          : []),
+        ...(projection?.datasets ?? []),
+      ],
+    },
+    options: {
+      responsive: true,
+      plugins: {
+        legend: {
+          display: true,
+          labels: {
+            usePointStyle: true,
+            filter: (item: LegendItem) => Boolean(item.text),
+          },
+        },
+        title: { display: true, text: "Monthly expenses" },
+        tooltip: {
+          filter: (item: TooltipItem<"bar" | "line">) => Boolean(item.dataset.label),
+          callbacks: {
+            label: (ctx: TooltipItem<"bar" | "line">) =>
+              forecastTooltipLabel(ctx, projection ? { Forecast: projection.ranges } : {}, currency),
+          },
+        },
+      },
+    } as const,
+  };
+}
+
+/**
+ * Join monthly income and expenses into one row per month (months with only one of them included),
+ * plus a total row for the whole period.
+ */
+export function computeCashFlow(
+  monthlyExpenses: MonthlyExpense[],
+  monthlyIncome: MonthlyIncome[]
+): { rows: CashFlowRow[]; total: CashFlowRow } {
+  const toRow = (month: string, income: number, expenses: number): CashFlowRow => ({
+    month,
+    income,
+    expenses,
+    net: income - expenses,
+    savingsRate: income > 0 ? ((income - expenses) / income) * 100 : null,
+  });
+
+  const months = [...new Set([...monthlyExpenses.map((m) => m.month), ...monthlyIncome.map((m) => m.month)])].sort();
+  const rows = months.map((month) =>
+    toRow(
+      month,
+      monthlyIncome.find((m) => m.month === month)?.sum ?? 0,
+      monthlyExpenses.find((m) => m.month === month)?.sum ?? 0
+    )
+  );
+  const total = toRow(
+    "total",
+    rows.reduce((acc, r) => acc + r.income, 0),
+    rows.reduce((acc, r) => acc + r.expenses, 0)
+  );
+  return { rows, total };
+}
+
+/** Income vs expenses bars with net savings (left axis) and savings rate in % (right axis). */
+export function buildCashFlowChart(rows: CashFlowRow[], currency = "EUR") {
+  const symbol = currencySymbol(currency);
+  return {
+    data: {
+      labels: rows.map((r) => formatMonthLabel(r.month)),
+      datasets: [
+        {
+          type: "bar" as const,
+          label: `Income (${symbol})`,
+          data: rows.map((r) => r.income),
+          backgroundColor: "rgba(46, 125, 50, 0.5)",
+          yAxisID: "y",
+        },
+        {
+          type: "bar" as const,
+          label: `Expenses (${symbol})`,
+          data: rows.map((r) => r.expenses),
+          backgroundColor: "rgba(198, 40, 40, 0.45)",
+          yAxisID: "y",
+        },
+        {
+          type: "line" as const,
+          label: `Net savings (${symbol})`,
+          data: rows.map((r) => r.net),
+          borderColor: "rgba(13, 110, 253, 1)",
+          backgroundColor: "rgba(13, 110, 253, 1)",
+          borderWidth: 2,
+          pointRadius: 3,
+          tension: 0,
+          yAxisID: "y",
+        },
+        {
+          type: "line" as const,
+          label: "Savings rate (%)",
+          data: rows.map((r) => r.savingsRate),
+          borderColor: "rgba(255, 159, 64, 1)",
+          backgroundColor: "rgba(0, 0, 0, 0)",
+          borderDash: [6, 6],
+          borderWidth: 2,
+          pointRadius: 2,
+          tension: 0,
+          spanGaps: true,
+          yAxisID: "y1",
+        },
+      ],
+    },
+    options: {
+      responsive: true,
+      plugins: {
+        legend: { display: true },
+        title: { display: true, text: "Cash flow" },
+        tooltip: {
+          callbacks: {
+            label: (ctx: TooltipItem<"bar" | "line">) => {
+              const value = Number(ctx.raw ?? 0);
+              const text = ctx.dataset.yAxisID === "y1" ? `${value.toFixed(1)}%` : formatMoney(value, currency);
+              return `${ctx.dataset.label ?? ""}: ${text}`;
+            },
+          },
+        },
+      },
+      scales: {
+        y: { position: "left" as const, title: { display: true, text: symbol } },
+        y1: {
+          position: "right" as const,
+          grid: { drawOnChartArea: false },
+          ticks: { callback: (value: string | number) => `${value}%` },
+        },
+      },
+    },
+  };
+}
+
+/** Total income per source over the whole period, largest first. */
+export function computeIncomeSources(monthlyIncome: MonthlyIncome[]): { source: string; amount: number; months: number }[] {
+  const totals: Record<string, { amount: number; months: number }> = {};
+  for (const m of monthlyIncome) {
+    for (const [source, info] of Object.entries(m.sources)) {
+      const t = (totals[source] ??= { amount: 0, months: 0 });
+      t.amount += info.amount;
+      t.months += 1;
+    }
+  }
+  return Object.entries(totals)
+    .map(([source, t]) => ({ source, ...t }))
+    .sort((a, b) => b.amount - a.amount);
+}
+
+/** Convert a month.categories map into a simple { category -> amount } object. */
+function extractMonthCategoryAmounts(m: MonthlyExpense): Record<string, number> {
+  const out: Record<string, number> = {};
+  for (const [catName, info] of Object.entries(m.categories)) out[catName] = info.amount;
+  return out;
+}
+
+
+/**
+ * Build a month-by-category matrix for a fixed set of category columns.
+ * Missing categories are treated as 0.
+ */
+export function buildCategoryMatrix(monthlyExpenses: MonthlyExpense[], categoryKeys: string[]) {
+  const ordered = [...monthlyExpenses].sort((a, b) => a.month.localeCompare(b.month));
+
+  return ordered.map((m) => {
+    const monthTotals = extractMonthCategoryAmounts(m);
+
+    const row: Record<string, number> = {};
+    for (const key of categoryKeys) {
+      row[key] = monthTotals[key] ?? 0;
+    }
+
+    return {
+      month: m.month,
+      label: formatMonthLabel(m.month),
+      values: row,
+      sum: m.sum,
+    };
+  });
+}
+
+/**
+ * Build the Chart.js config for category breakdown over all the given months
+ * (the caller restricts them to the selected period).
+ */
+export function buildCategoryPieChart(args: {
+  monthlyExpenses: MonthlyExpense[];
+  periodLabel: string;
+  labelFor?: (key: string) => string;
+  colors?: Record<string, string>;
+  titleSuffix?: string;
+  currency?: string;
+}) {
+  const { monthlyExpenses, labelFor = (k: string) => k, currency = "EUR" } = args;
+  const totals: Record<string, number> = {};
+
+  for (const m of monthlyExpenses) {
+    const monthTotals = extractMonthCategoryAmounts(m);
+    for (const [cat, amount] of Object.entries(monthTotals)) {
+      totals[cat] = (totals[cat] ?? 0) + amount;
+    }
+  }
+
+  const entries = Object.entries(totals)
+      .filter(([, v]) => v > 0)
+      .sort((a, b) => b[1] - a[1]);
+
+  if (!entries.length) return null;
+
+  const keys = entries.map(([k]) => k);
+  const labels = keys.map(labelFor);
+  const values = entries.map(([, v]) => v);
+  const generated = makePieColors(values.length);
+  const colors = keys.map((k, i) => args.colors?.[k] ?? generated[i]);
+
+  const title = `Category breakdown — ${args.periodLabel}${args.titleSuffix ?? ""}`;
+
+  return {
+    keys,
+    data: {
+      labels,
+      datasets: [{ label: currencySymbol(currency), data: values, backgroundColor: colors }],
+    },
+    options: {
+      responsive: true,
+      plugins: {
+        legend: { display: true, position: "bottom" as const },
+        title: { display: true, text: title },
+        tooltip: {
+          callbacks: {
+            label: (ctx: TooltipItem<"pie">) => {
+              const label = ctx.label ?? "";
+              const value = Number(ctx.raw ?? 0);
+              const data = ctx.dataset.data as number[];
+              const total = data.reduce((a, b) => a + b, 0);
+              const percent = total > 0 ? (value / total) * 100 : 0;
+
+              return `${label}: ${formatMoney(value, currency)} (${percent.toFixed(1)}%)`;
+            },
+          },
+        },
+      },
+    } as const,
+  };
+}
+
+/** Compute category totals and percentages over all the given months. */
+export function computePeriodCategoryPercentages(monthlyExpenses: MonthlyExpense[]) {
+  const totals: Record<string, number> = {};
+  for (const m of monthlyExpenses) {
+    const monthTotals = extractMonthCategoryAmounts(m);
+    for (const [cat, amount] of Object.entries(monthTotals)) {
+      totals[cat] = (totals[cat] ?? 0) + amount;
+    }
+  }
+
+  const entries = Object.entries(totals)
+    .filter(([, v]) => v > 0)
+    .sort((a, b) => b[1] - a[1]);
+
+  const grandTotal = entries.reduce((acc, [, v]) => acc + v, 0);
+
+  return entries.map(([category, total]) => ({
+    category,
+    total,
+    percent: grandTotal > 0 ? (total / grandTotal) * 100 : 0,
+  }));
+}
+
+/**
+ * Build the Chart.js config for category trends over time.
+ * By default shows top N categories by total spend across all months.
+ */
+export function buildCategoryTrendsChart(
+  monthlyExpenses: MonthlyExpense[],
+  topN = 6,
+  labelFor: (key: string) => string = (k) => k,
+  budgetFor?: (category: string, month: string) => number | null,
+  currency = "EUR",
+  forecast?: Record<string, ForecastPoint[]>
+) {
+  const ordered = [...monthlyExpenses].sort((a, b) => a.month.localeCompare(b.month));
+  const forecastMonths = Object.values(forecast ?? {})[0]?.map((p) => p.month) ?? [];
+  const months = [...new Set([...ordered.map((m) => m.month), ...forecastMonths])];
+  const labels = months.map((m) => formatMonthLabel(m));
+
+  // Compute totals per category across all months
+  const totals: Record<string, number> = {};
+
+  for (const m of ordered) {
+    const monthTotals = extractMonthCategoryAmounts(m);
+    for (const [cat, amount] of Object.entries(monthTotals)) {
+      totals[cat] = (totals[cat] ?? 0) + amount;
+    }
+  }
+
+  const topCats = Object.entries(totals)
+    .sort((a, b) => b[1] - a[1])
+    .slice(0, topN)
+    .map(([cat]) => cat);
+
+  // Initialize series arrays (months past the data stay empty)
+  const emptySeries = () => months.map((_, i) => (i < ordered.length ? 0 : null));
+  const perMonth: Record<string, (number | null)[]> = {};
+  for (const cat of topCats) {
+    perMonth[cat] = emptySeries();
+  }
+  perMonth["Other"] = emptySeries();
+
+  // Fill series
+  ordered.forEach((m, idx) => {
+    const monthTotals = extractMonthCategoryAmounts(m);
+    for (const [cat, amount] of Object.entries(monthTotals)) {
+      const series = perMonth[topCats.includes(cat) ? cat : "Other"];
+      series[idx] = (series[idx] ?? 0) + amount;
+    }
+  });
+
+  const seriesNames = [...topCats, "Other"].filter((n) => perMonth[n].some((v) => (v ?? 0) > 0));
+  const colors = makePieColors(seriesNames.length);
+
+  // Budgets as dashed reference lines in the color of their category.
+  const budgetDatasets = seriesNames.flatMap((name, i) => {
+    const values = months.map((m) => (name === "Other" ? null : (budgetFor?.(name, m) ?? null)));
+    if (values.every((v) => v === null)) return [];
+    return [
+      {
+        type: "line" as const,
+        label: `${labelFor(name)} budget`,
+        data: values,
+        borderColor: colors[i],
+        backgroundColor: "rgba(0,0,0,0)",
+        borderDash: [2, 4],
+        borderWidth: 1.5,
+        pointRadius: 0,
+        tension: 0,
+        stepped: "middle" as const,
+      },
+    ];
+  });
+
+  // Forecasts as dashed continuations; "Other" forecasts the sum of the remaining categories.
+  const forecastRanges: Record<string, (readonly [number, number] | null)[]> = {};
+  const forecastDatasets = seriesNames.flatMap((name, i) => {
+    const points =
+      name === "Other"
+        ? Object.entries(forecast ?? {})
+            .filter(([cat]) => !topCats.includes(cat))
+            .map(([, p]) => p)
+            .reduce<ForecastPoint[] | null>((acc, p) => (acc ? addForecastPoints(acc, p) : p), null)
+        : forecast?.[name];
+    if (!points) return [];
+    const label = `${name === "Other" ? name : labelFor(name)} forecast`;
+    const projection = buildForecastDatasets({
+      label,
+      months,
+      actual: perMonth[name],
+      points,
+      color: colors[i],
+      bandColor: colors[i].replace("hsl(", "hsla(").replace(")", ", 0.12)"),
+    });
+    forecastRanges[label] = projection.ranges;
+    return projection.datasets;
+  });
+
+  return {
+    data: {
+      labels,
+      datasets: [
+        ...seriesNames.map((name, i) => ({
+          type: "line" as const,
+          label: name === "Other" ? name : labelFor(name),
+          data: perMonth[name],
+          borderColor: colors[i],
+          backgroundColor: "rgba(0,0,0,0)",
+          pointRadius: 2,
+          tension: 0.2,
+        })),
+        ...budgetDatasets,
+        ...forecastDatasets,
+      ],
+    },
+    options: {
+      responsive: true,
+      plugins: {
+        legend: {
+          display: true,
+          position: "bottom" as const,
+          labels: { filter: (item: LegendItem) => Boolean(item.text) },
+        },
+        title: { display: true, text: "Category trends (top categories)" },
+        tooltip: {
+          filter: (item: TooltipItem<"line">) => Boolean(item.dataset.label),
+          callbacks: {
+            label: (ctx: TooltipItem<"line">) => forecastTooltipLabel(ctx, forecastRanges, currency),
+          },
+        },
+      },
+      scales: {
+        y: {
+          ticks: {
+            callback: (value: string | number) => formatMoney(Number(value), currency),
+          },
+        },
+      },
+    } as const,
+  };
+}
+
+type RecurringTransaction = {
+  name: string;
+  category: string;
+  count: number;
+  avgAmount: number;
+  totalAmount: number;
+};
+
+type IdenticalRecurringTransaction = {
+  name: string;
+  category: string;
+  amount: number;
+  count: number;
+  totalAmount: number;
+};
+
+/** Spend per canonical merchant over a set of transactions. */
+type MerchantTotal = {
+  merchant: string;
+  category: string;
+  count: number;
+  avgAmount: number;
+  totalAmount: number;
+};
+
+/** One month of spend at a single merchant. */
+type MerchantMonth = {
+  month: string;
+  amount: number;
+  count: number;
+};
+
+export type SubscriptionCadence = "weekly" | "monthly" | "quarterly" | "yearly";
+
+/** A merchant charging (roughly) the same amount on a regular cadence. */
+type Subscription = {
+  merchant: string;
+  category: string;
+  cadence: SubscriptionCadence;
+  charges: Transaction[];
+  lastAmount: number;
+  lastDate: string;
+  /** Predicted date of the next charge; null once the subscription looks stopped. */
+  nextDate: string | null;
+  status: "active" | "stopped";
+  /** Most recent price change between two consecutive charges. */
+  priceChange: { from: number; to: number; date: string } | null;
+  /** Cost of one year at the current price and cadence. */
+  annualCost: number;
+};
+
+/** Compute total spend per category across all months (used for consistent color mapping). */
+function computeCategoryTotals(monthlyExpenses: MonthlyExpense[]): Record<string, number> {
+  const totals: Record<string, number> = {};
+  for (const m of monthlyExpenses) {
+    const cats = m.categories ?? {};
+    for (const [catName, info] of Object.entries(cats)) {
+      totals[catName] = (totals[catName] ?? 0) + (Number(info.amount) || 0);
+    }
+  }
+  return totals;
+}
+
+/**
+ * Build a stable category color map (sorted by total spend desc, then name).
+ * Colors picked in the taxonomy take precedence over the generated ones.
+ */
+export function buildCategoryColorMap(monthlyExpenses: MonthlyExpense[], taxonomy?: CategoryTaxonomy): Record<string, string> {
+  const totals = computeCategoryTotals(monthlyExpenses);
+  const names = Object.keys(totals).sort((a, b) => {
+    const diff = (totals[b] ?? 0) - (totals[a] ?? 0);
+    return diff !== 0 ? diff : a.localeCompare(b);
+  });
+  const colors = makePieColors(names.length || 1);
+  const map: Record<string, string> = {};
+  names.forEach((name, idx) => {
+    map[name] = colors[idx];
+  });
+  for (const c of taxonomy?.categories ?? []) {
+    if (c.color) map[c.key] = c.color;
+  }
+  return map;
+}
+
+/**
+ * One transaction per purchase: the parts of a split transaction are put back together, with the
+ * category of their largest part, so they count once and at the amount that was charged.
+ */
+function joinSplitParts(transactions: Transaction[]): Transaction[] {
+  return groupSplitParts(transactions).map(({ id, parts }) => {
+    if (parts.length === 1) return parts[0];
+    const largest = parts.reduce((max, p) => (Math.abs(p.amount) > Math.abs(max.amount) ? p : max));
+    const sum = (values: number[]) => Math.round(values.reduce((acc, v) => acc + v, 0) * 100) / 100;
+    return {
+      ...largest,
+      id,
+      amount: sum(parts.map((p) => p.amount)),
+      ...(largest.originalAmount !== undefined ? { originalAmount: sum(parts.map((p) => p.originalAmount ?? 0)) } : {}),
+    };
+  });
+}
+
+/** Compute top recurring transactions by merchant/name across all expenses; a split purchase counts once. */
+export function computeTopRecurringTransactions(
+  transactions: Transaction[],
+  topN = 10
+): RecurringTransaction[] {
+  const stats: Record<
+    string,
+    { count: number; sum: number; categoryCounts: Record<string, number> }
+  > = {};
+
+  for (const t of joinSplitParts(transactions)) {
+    if (t.amount >= 0 || t.transferId) continue;
+
+    const normalizedName = merchantName(t);
+    const current = stats[normalizedName] ?? {
+      count: 0,
+      sum: 0,
+      categoryCounts: {},
+    };
+
+    current.count += 1;
+    current.sum += -t.amount;
+    current.categoryCounts[t.category] = (current.categoryCounts[t.category] ?? 0) + 1;
+    stats[normalizedName] = current;
+  }
+
+  return Object.entries(stats)
+    .map(([name, s]) => {
+      const bestCategory = Object.entries(s.categoryCounts)
+        .sort((a, b) => b[1] - a[1])[0]?.[0] ?? "";
+
+      return {
+        name,
+        category: bestCategory,
+        count: s.count,
+        avgAmount: s.count ? s.sum / s.count : 0,
+        totalAmount: s.sum,
+      };
+    })
+    .sort((a, b) => (b.count - a.count) || (b.avgAmount - a.avgAmount))
+    .slice(0, topN);
+}
+
+/**
+ * Compute transactions that repeat identically: same merchant/name AND same amount.
+ * Useful for subscriptions (e.g., Netflix €12.99 every month). Split purchases match on their full amount.
+ */
+export function computeIdenticalRecurringTransactions(
+  transactions: Transaction[],
+  topN = 10
+): IdenticalRecurringTransaction[] {
+  const stats: Record<
+    string,
+    { name: string; amount: number; count: number; categoryCounts: Record<string, number> }
+  > = {};
+
+  for (const t of joinSplitParts(transactions)) {
+    if (t.amount >= 0 || t.transferId) continue;
+
+    const normalizedName = merchantName(t);
+
+    // Amount normalization: keep 2 decimals (EUR cents)
+    const amount = Math.round(-t.amount * 100) / 100;
+
+    const groupKey = `${normalizedName}__${amount.toFixed(2)}`;
+    const current = stats[groupKey] ?? {
+      name: normalizedName,
+      amount,
+      count: 0,
+      categoryCounts: {},
+    };
+    current.count += 1;
+    current.categoryCounts[t.category] = (current.categoryCounts[t.category] ?? 0) + 1;
+    stats[groupKey] = current;
+  }
+
+  return Object.values(stats)
+    // Only keep truly recurring ones (2+ occurrences)
+    .filter((r) => r.count >= 2)
+    .map((r) => {
+      const bestCategory = Object.entries(r.categoryCounts)
+        .sort((a, b) => b[1] - a[1])[0]?.[0] ?? "";
+      return {
+        name: r.name,
+        category: bestCategory,
+        amount: r.amount,
+        count: r.count,
+        totalAmount: r.amount * r.count,
+      };
+    })
+    .sort((a, b) => (b.count - a.count) || (b.amount - a.amount))
+    .slice(0, topN);
+}
+
+/** The expenses behind monthly aggregates: transfers and income are already left out there. */
+function expenseTransactions(m: MonthlyExpense): Transaction[] {
+  return Object.values(m.categories).flatMap((c) => c.transactions);
+}
+
+/** Number of purchases among transactions: the parts of a split transaction count once. */
+function countVisits(transactions: Transaction[]): number {
+  return new Set(transactions.map((t) => t.splitOf ?? t.id)).size;
+}
+
+/**
+ * Total expenses per canonical merchant, largest first; the category is the merchant's most used
+ * one. A split purchase is one visit, however many parts it has.
+ */
+export function computeMerchantTotals(monthlyExpenses: MonthlyExpense[]): MerchantTotal[] {
+  const stats: Record<string, { transactions: Transaction[]; sum: number; categoryCounts: Record<string, number> }> = {};
+  for (const t of monthlyExpenses.flatMap(expenseTransactions)) {
+    const current = (stats[merchantName(t)] ??= { transactions: [], sum: 0, categoryCounts: {} });
+    current.transactions.push(t);
+    current.sum += -t.amount;
+    current.categoryCounts[t.category] = (current.categoryCounts[t.category] ?? 0) + 1;
+  }
+  return Object.entries(stats)
+    .map(([merchant, s]) => {
+      const count = countVisits(s.transactions);
+      return {
+        merchant,
+        category: Object.entries(s.categoryCounts).sort((a, b) => b[1] - a[1])[0]?.[0] ?? "",
+        count,
+        avgAmount: s.sum / count,
+        totalAmount: s.sum,
+      };
+    })
+    .sort((a, b) => b.totalAmount - a.totalAmount || a.merchant.localeCompare(b.merchant));
+}
+
+/**
+ * Monthly expenses at one canonical merchant, from its first charge up to the last month with
+ * any expenses, so months without a visit show up as zero.
+ */
+export function computeMerchantHistory(monthlyExpenses: MonthlyExpense[], merchant: string): MerchantMonth[] {
+  const byMonth = new Map<string, MerchantMonth>();
+  let lastMonth = "";
+  for (const m of monthlyExpenses) {
+    if (m.month > lastMonth) lastMonth = m.month;
+    const visits = expenseTransactions(m).filter((t) => merchantName(t) === merchant);
+    if (!visits.length) continue;
+    byMonth.set(m.month, { month: m.month, amount: visits.reduce((acc, t) => acc - t.amount, 0), count: countVisits(visits) });
+  }
+  if (!byMonth.size) return [];
+  const first = [...byMonth.keys()].sort()[0];
+  return monthSpan(first, lastMonth).map((month) => byMonth.get(month) ?? { month, amount: 0, count: 0 });
+}
+
+/** Transactions with the parts of every split transaction gathered under the id it was imported with, in order. */
+export function groupSplitParts(transactions: Transaction[]): { id: string; parts: Transaction[] }[] {
+  const groups = new Map<string, Transaction[]>();
+  for (const t of transactions) {
+    const id = t.splitOf ?? t.id;
+    groups.set(id, [...(groups.get(id) ?? []), t]);
+  }
+  return [...groups].map(([id, parts]) => ({ id, parts }));
+}
+
+/** Calendar months a date range touches, at least one. */
+export function monthsInRange(range: DateRange): number {
+  return Math.max(1, monthSpan(range.start.slice(0, 7), range.end.slice(0, 7)).length);
+}
+
+/** Monthly spend at one merchant; months inside the selected period are drawn darker. */
+export function buildMerchantHistoryChart(rows: MerchantMonth[], range: DateRange, currency = "EUR") {
+  const inRange = (month: string) => month >= range.start.slice(0, 7) && month <= range.end.slice(0, 7);
+  const avg = rows.length ? rows.reduce((acc, r) => acc + r.amount, 0) / rows.length : 0;
+  return {
+    data: {
+      labels: rows.map((r) => formatMonthLabel(r.month)),
+      datasets: [
+        {
+          type: "bar" as const,
+          label: `Spend (${currencySymbol(currency)})`,
+          data: rows.map((r) => r.amount),
+          backgroundColor: rows.map((r) => (inRange(r.month) ? "rgba(13, 110, 253, 0.6)" : "rgba(13, 110, 253, 0.2)")),
+        },
+        {
+          type: "line" as const,
+          label: "Monthly average",
+          data: rows.map(() => avg),
+          borderColor: "rgba(255, 99, 132, 1)",
+          backgroundColor: "rgba(255, 99, 132, 1)",
+          borderDash: [6, 6],
+          borderWidth: 2,
+          pointRadius: 0,
+          tension: 0,
+        },
+      ],
+    },
+    options: {
+      responsive: true,
+      plugins: {
+        legend: { display: true },
+        title: { display: true, text: "Monthly spend" },
+        tooltip: {
+          callbacks: {
+            label: (ctx: TooltipItem<"bar" | "line">) => {
+              const text = `${ctx.dataset.label ?? ""}: ${formatMoney(Number(ctx.raw ?? 0), currency)}`;
+              return ctx.dataset.type === "bar" ? `${text} (${rows[ctx.dataIndex].count}×)` : text;
+            },
+          },
+        },
+      },
+    },
+  };
+}
+
+/** Horizontal bars of spend per merchant, colored by the merchant's category. */
+export function buildTopMerchantsChart(rows: MerchantTotal[], colors: Record<string, string>, currency = "EUR") {
+  return {
+    data: {
+      labels: rows.map((r) => r.merchant),
+      datasets: [
+        {
+          label: `Spend (${currencySymbol(currency)})`,
+          data: rows.map((r) => r.totalAmount),
+          backgroundColor: rows.map((r) => colors[r.category] ?? "rgba(54, 162, 235, 0.6)"),
+        },
+      ],
+    },
+    options: {
+      indexAxis: "y" as const,
+      responsive: true,
+      plugins: {
+        legend: { display: false },
+        title: { display: true, text: "Top merchants" },
+        tooltip: {
+          callbacks: {
+            label: (ctx: TooltipItem<"bar">) => {
+              const row = rows[ctx.dataIndex];
+              return `${formatMoney(row.totalAmount, currency)} · ${row.count}× · avg ${formatMoney(row.avgAmount, currency)}`;
+            },
+          },
+        },
+      },
+    },
+  };
+}
+
+/** Typical interval per cadence in days, how far a single interval may deviate, and charges per year. */
+const SUBSCRIPTION_CADENCES: Record<SubscriptionCadence, { days: number; toleranceDays: number; perYear: number }> = {
+  weekly: { days: 7, toleranceDays: 2, perYear: 52 },
+  monthly: { days: 30.4, toleranceDays: 5, perYear: 12 },
+  quarterly: { days: 91.3, toleranceDays: 10, perYear: 4 },
+  yearly: { days: 365.25, toleranceDays: 20, perYear: 1 },
+};
+
+/** Charges of one subscription may drift this much (relative) from the previous one, e.g. price changes. */
+const SUBSCRIPTION_AMOUNT_TOLERANCE = 0.2;
+
+/** Share of intervals that must fit the cadence; leaves room for a skipped or late charge. */
+const SUBSCRIPTION_MIN_REGULARITY = 0.75;
+
+/** Share of consecutive charges that must repeat the exact amount, to tell subscriptions from regular shopping. */
+const SUBSCRIPTION_MIN_STABLE_AMOUNTS = 0.5;
+
+function addToIsoDate(date: string, cadence: SubscriptionCadence): string {
+  const d = new Date(`${date}T00:00:00Z`);
+  if (cadence === "weekly") {
+    d.setUTCDate(d.getUTCDate() + 7);
+  } else {
+    const months = cadence === "monthly" ? 1 : cadence === "quarterly" ? 3 : 12;
+    const day = d.getUTCDate();
+    d.setUTCDate(1);
+    d.setUTCMonth(d.getUTCMonth() + months);
+    // Clamp e.g. Jan 31 -> Feb 28 instead of rolling over into March.
+    const lastDay = new Date(Date.UTC(d.getUTCFullYear(), d.getUTCMonth() + 1, 0)).getUTCDate();
+    d.setUTCDate(Math.min(day, lastDay));
+  }
+  return d.toISOString().slice(0, 10);
+}
+
+/** Find the cadence the intervals (in days) follow, allowing skipped periods; null if irregular. */
+function inferCadence(intervals: number[]): SubscriptionCadence | null {
+  if (!intervals.length) return null;
+  const median = [...intervals].sort((a, b) => a - b)[Math.floor(intervals.length / 2)];
+
+  for (const [cadence, c] of Object.entries(SUBSCRIPTION_CADENCES) as [SubscriptionCadence, (typeof SUBSCRIPTION_CADENCES)[SubscriptionCadence]][]) {
+    if (Math.abs(median - c.days) > c.toleranceDays) continue;
+    const fitting = intervals.filter((days) => {
+      const periods = Math.max(1, Math.round(days / c.days));
+      return days >= c.days - c.toleranceDays && Math.abs(days - periods * c.days) <= c.toleranceDays * periods;
+    });
+    if (fitting.length / intervals.length >= SUBSCRIPTION_MIN_REGULARITY) return cadence;
+  }
+  return null;
+}
+
+/**
+ * Detect subscriptions: per merchant, charges are chained while each amount stays within
+ * `SUBSCRIPTION_AMOUNT_TOLERANCE` of the previous one, and a chain counts when its intervals follow
+ * a cadence and the amount mostly repeats or changes only once (a price change, e.g. between the
+ * two charges of a yearly plan). Needs 3 charges (2 for yearly). `asOf` (usually the last date in
+ * the data) decides whether a subscription is overdue and therefore stopped.
+ */
+export function detectSubscriptions(transactions: Transaction[], asOf: string): Subscription[] {
+  const byMerchant: Record<string, Transaction[]> = {};
+  for (const t of transactions) {
+    if (t.amount >= 0 || t.transferId) continue;
+    (byMerchant[merchantName(t)] ??= []).push(t);
+  }
+
+  const subscriptions: Subscription[] = [];
+  for (const [merchant, charges] of Object.entries(byMerchant)) {
+    const chains: Transaction[][] = [];
+    for (const t of [...charges].sort((a, b) => a.date.localeCompare(b.date))) {
+      const chain = chains.find((c) => {
+        const previous = -c[c.length - 1].amount;
+        return Math.abs(-t.amount - previous) <= previous * SUBSCRIPTION_AMOUNT_TOLERANCE && c[c.length - 1].date !== t.date;
+      });
+      if (chain) chain.push(t);
+      else chains.push([t]);
+    }
+
+    for (const chain of chains) {
+      const intervals = chain.slice(1).map((t, i) => daysBetween(chain[i].date, t.date));
+      const cadence = inferCadence(intervals);
+      if (!cadence || chain.length < (cadence === "yearly" ? 2 : 3)) continue;
+      const stableSteps = chain.slice(1).filter((t, i) => t.amount.toFixed(2) === chain[i].amount.toFixed(2)).length;
+      const priceSteps = chain.length - 1 - stableSteps;
+      if (priceSteps > 1 && stableSteps / (chain.length - 1) < SUBSCRIPTION_MIN_STABLE_AMOUNTS) continue;
+
+      const last = chain[chain.length - 1];
+      const { days, toleranceDays, perYear } = SUBSCRIPTION_CADENCES[cadence];
+      const stopped = daysBetween(last.date, asOf) > days * 1.5 + toleranceDays;
+      let changeIndex = -1;
+      for (let i = 1; i < chain.length; i++) {
+        if (chain[i].amount.toFixed(2) !== chain[i - 1].amount.toFixed(2)) changeIndex = i;
+      }
+      const categoryCounts: Record<string, number> = {};
+      for (const t of chain) categoryCounts[t.category] = (categoryCounts[t.category] ?? 0) + 1;
+
+      subscriptions.push({
+        merchant,
+        category: Object.entries(categoryCounts).sort((a, b) => b[1] - a[1])[0][0],
+        cadence,
+        charges: chain,
+        lastAmount: -last.amount,
+        lastDate: last.date,
+        nextDate: stopped ? null : addToIsoDate(last.date, cadence),
+        status: stopped ? "stopped" : "active",
+        priceChange:
+          changeIndex > 0
+            ? { from: -chain[changeIndex - 1].amount, to: -chain[changeIndex].amount, date: chain[changeIndex].date }
+            : null,
+        annualCost: -last.amount * perYear,
+      });
+    }
+  }
+
+  return subscriptions.sort((a, b) => b.annualCost - a.annualCost);
+}
+
+/** Category keys the analyzer produces; always offered even when a period has no spend in them. */
+const DEFAULT_CATEGORY_KEYS = [
+  "houseAndFurniture",
+  "food",
+  "carAndTransport",
+  "kids",
+  "insurance",
+  "travel",
+  "sportEatFun",
+  "health",
+  "other",
+];
+
+export function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
+
+/** Compile a rule into a merchant predicate. Matching is case-insensitive; invalid regexes never match. */
+export function compileCategoryRule(rule: Pick<CategoryRule, "match" | "pattern">): (merchant: string) => boolean {
+  const pattern = rule.pattern.trim().toLowerCase();
+  switch (rule.match) {
+    case "exact":
+      return (merchant) => merchant.toLowerCase() === pattern;
+    case "substring":
+      return (merchant) => pattern !== "" && merchant.toLowerCase().includes(pattern);
+    case "regex":
+    default: {
+      try {
+        const re = new RegExp(rule.pattern, "i");
+        return (merchant) => re.test(merchant);
+      } catch {
+        return () => false;
+      }
+    }
+  }
+}
+
+/** Payment processors that put their own name in front of the merchant's ("Paytrail Oyj DNA Oyj" -> "DNA Oyj"). */
+const MERCHANT_PROCESSOR_PREFIX =
+  /^(?:paytrail\s+oyj|checkout\s+finland|paypal\s*\*|pp\s*\*|sq\s*\*|sumup\s*\*|izettle\s*\*|zettle_?\s*\*?|klarna\s*\*|vipps\s*\*|mobilepay|nets\s*\*|stripe\s*\*)\s*/i;
+/** Masked card numbers at the end of the name ("*1234", "XXXX1234", "card 1234"). */
+const MERCHANT_CARD_SUFFIX = /\s*(?:\*+|x{2,}|card\s+|kortti\s+)\d{4}$/i;
+/**
+ * Numbers marked as store or terminal numbers at the end of the name ("SHELL #0042", "Alko nr 12").
+ * Plain numbers stay: they are often part of the name ("Route 66", "Studio 54").
+ */
+const MERCHANT_STORE_NUMBER = /\s+(?:#\s*|no\.?\s*|nr\.?\s*)\d+$/i;
+
+/**
+ * Chains whose branch names and store numbers follow the chain name ("K-MARKET TOOLO 123",
+ * "K-Market Kamppi"). Branches of chains not listed here need an alias to be grouped.
+ */
+const MERCHANT_CHAINS = [
+  "K-Citymarket",
+  "K-Supermarket",
+  "K-Market",
+  "S-Market",
+  "Prisma",
+  "Alepa",
+  "Lidl",
+  "Tokmanni",
+  "R-Kioski",
+  "Alko",
+  "Neste",
+  "Teboil",
+  "Shell",
+  "ABC",
+  "Hesburger",
+  "ICA",
+  "Coop",
+].map((chain) => ({ chain, pattern: new RegExp(`^${escapeRegExp(chain)}(?![\\p{L}\\d-])`, "iu") }));
+
+/**
+ * Clean a raw counterparty into a merchant name: collapse whitespace, strip processor prefixes,
+ * card suffixes and marked store numbers, reduce known chains' branches to the chain, and
+ * title-case names that arrive in all capitals.
+ */
+export function normalizeMerchantName(raw: string): string {
+  let name = raw.replace(/\s+/g, " ").trim();
+  for (let previous = ""; previous !== name; ) {
+    previous = name;
+    const stripped = name
+      .replace(MERCHANT_PROCESSOR_PREFIX, "")
+      .replace(MERCHANT_CARD_SUFFIX, "")
+      .replace(MERCHANT_STORE_NUMBER, "")
+      .trim();
+    // Never strip a name down to nothing ("PayPal *", "1234").
+    if (stripped) name = stripped;
+  }
+  const chain = MERCHANT_CHAINS.find((c) => c.pattern.test(name));
+  if (chain) return chain.chain;
+  if (name === name.toUpperCase() && /[A-ZÀ-Þ]{2}/.test(name)) {
+    name = name.toLowerCase().replace(/(^|[\s\-/&.(])(\p{L})/gu, (_, sep: string, ch: string) => sep + ch.toUpperCase());
+  }
+  return name;
+}
+
+/** The merchant a transaction is grouped under: its alias or normalized name, else the raw name. */
+export function merchantName(t: Transaction): string {
+  return t.canonicalMerchant ?? t.merchant.replace(/\s+/g, " ").trim();
+}
+
+/** Whether a rule predicate matches the transaction's raw or canonical merchant name. */
+export function matchesMerchant(test: (merchant: string) => boolean, t: Transaction): boolean {
+  return test(t.merchant) || (t.canonicalMerchant !== undefined && test(t.canonicalMerchant));
+}
+
+/**
+ * Set `canonicalMerchant` on every transaction. The first matching alias wins (newest first) and is
+ * tested against both the raw and the normalized name; otherwise the normalized name is used.
+ */
+export function applyMerchantNames(transactions: Transaction[], aliases: MerchantAlias[]): Transaction[] {
+  const compiled = aliases.map((a) => ({ test: compileCategoryRule(a), merchant: a.merchant.trim() }));
+  const cache = new Map<string, string>();
+  const canonicalFor = (raw: string) => {
+    let name = cache.get(raw);
+    if (name === undefined) {
+      const normalized = normalizeMerchantName(raw);
+      const alias = compiled.find((a) => a.merchant && (a.test(raw) || a.test(normalized)));
+      name = alias?.merchant ?? normalized;
+      cache.set(raw, name);
+    }
+    return name;
+  };
+  return transactions.map((t) => {
+    const name = canonicalFor(t.merchant);
+    return name !== t.merchant.replace(/\s+/g, " ").trim() ? { ...t, canonicalMerchant: name } : t;
+  });
+}
+
+/**
+ * Apply user categorization on top of the analyzer's categories.
+ * A per-transaction override wins; otherwise the first matching rule does (newest rules come first).
+ */
+export function applyCategoryRules(
+  transactions: Transaction[],
+  rules: CategoryRule[],
+  overrides: Record<string, string>
+): Transaction[] {
+  const compiled = rules.map((r) => ({ test: compileCategoryRule(r), category: r.category }));
+  return transactions.map((t) => {
+    const category = overrides[t.id] ?? compiled.find((r) => matchesMerchant(r.test, t))?.category;
+    return category && category !== t.category ? { ...t, category } : t;
+  });
+}
+
+/** Attach the user's tags (own plus every matching rule's) and notes to the transactions. */
+export function applyTransactionTags(
+  transactions: Transaction[],
+  rules: TagRule[],
+  annotations: Record<string, TransactionAnnotation>
+): Transaction[] {
+  if (!rules.length && !Object.keys(annotations).length) return transactions;
+  const compiled = rules.map((r) => ({ test: compileCategoryRule(r), tag: r.tag }));
+  return transactions.map((t) => {
+    // Parts of a split transaction share its tags and note.
+    const own = annotations[t.splitOf ?? t.id];
+    const tags = [...new Set([...(own?.tags ?? []), ...compiled.filter((r) => matchesMerchant(r.test, t)).map((r) => r.tag)])];
+    if (!tags.length && !own?.note) return t;
+    return { ...t, ...(tags.length ? { tags } : {}), ...(own?.note ? { note: own.note } : {}) };
+  });
+}
+
+/** Why the parts can't replace a transaction of `total` (absolute, booked currency), or null when they can. */
+export function validateSplitParts(parts: SplitPart[], total: number): string | null {
+  if (parts.length < 2) return "Split into at least two parts.";
+  if (parts.some((p) => !(p.amount > 0))) return "Every part needs an amount above zero.";
+  if (parts.some((p) => !p.category)) return "Every part needs a category.";
+  const sum = parts.reduce((acc, p) => acc + p.amount, 0);
+  if (Math.abs(sum - total) >= 0.005) return `The parts add up to ${sum.toFixed(2)} instead of ${total.toFixed(2)}.`;
+  return null;
+}
+
+/**
+ * Replace split transactions by their parts. A part copies the transaction with its own id and
+ * category and its share of the (converted) amount. Splits that no longer add up, e.g. after the
+ * bank corrected the amount, are ignored.
+ */
+export function applyTransactionSplits(transactions: Transaction[], splits: Record<string, SplitPart[]>): Transaction[] {
+  if (!Object.keys(splits).length) return transactions;
+  return transactions.flatMap((t) => {
+    const parts = splits[t.id];
+    const booked = Math.abs(t.originalAmount ?? t.amount);
+    if (!parts || validateSplitParts(parts, booked)) return [t];
+    return parts.map((p, i) => ({
+      ...t,
+      // Not `#`: withUniqueTransactionIds renames re-imported duplicates to `<id>#<n>`.
+      id: `${t.id}~${i + 1}`,
+      splitOf: t.id,
+      category: p.category,
+      amount: t.amount * (p.amount / booked),
+      ...(t.originalAmount !== undefined ? { originalAmount: Math.sign(t.originalAmount) * p.amount } : {}),
+    }));
+  });
+}
+
+/** Split comma-separated input into trimmed, unique tags. */
+export function parseTags(text: string): string[] {
+  return [...new Set(text.split(",").map((tag) => tag.trim()).filter(Boolean))];
+}
+
+/**
+ * Spend per tag, broken down by top-level category and by month. A transaction with several tags
+ * counts for each of them, so tag totals can add up to more than the overall spend.
+ */
+export function computeTagReport(
+  transactions: Transaction[],
+  taxonomy: CategoryTaxonomy
+): TagReportRow[] {
+  const rows: Record<string, TagReportRow> = {};
+  for (const t of transactions) {
+    if (t.amount >= 0 || t.transferId || !t.tags) continue;
+    const category = topLevelCategory(t.category, taxonomy);
+    const month = t.date.slice(0, 7);
+    for (const tag of t.tags) {
+      const row = (rows[tag] ??= { tag, total: 0, count: 0, byCategory: {}, byMonth: {} });
+      row.total -= t.amount;
+      row.count += 1;
+      row.byCategory[category] = (row.byCategory[category] ?? 0) - t.amount;
+      row.byMonth[month] = (row.byMonth[month] ?? 0) - t.amount;
+    }
+  }
+  return Object.values(rows).sort((a, b) => b.total - a.total);
+}
+
+/** Every category key in use: the taxonomy, the data and the user's rules, in taxonomy order. */
+export function collectCategoryNames(transactions: Transaction[], rules: CategoryRule[], taxonomy: CategoryTaxonomy): string[] {
+  const extra = [...transactions.map((t) => t.category), ...rules.map((r) => r.category)]
+    .map((key) => resolveMergedCategory(key, taxonomy))
+    .filter((key) => key && !findCategory(taxonomy, key));
+  return [...taxonomy.categories.map((c) => c.key), ...[...new Set(extra)].sort((a, b) => a.localeCompare(b))];
+}
+
+/** "houseAndFurniture" -> "House and furniture". */
+export function humanizeCategoryKey(key: string): string {
+  const words = key
+    .replace(/([a-z0-9])([A-Z])/g, "$1 $2")
+    .replace(/[_-]+/g, " ")
+    .trim()
+    .toLowerCase();
+  return words.charAt(0).toUpperCase() + words.slice(1);
+}
+
+export function buildDefaultTaxonomy(): CategoryTaxonomy {
+  return { categories: DEFAULT_CATEGORY_KEYS.map((key) => ({ key, label: humanizeCategoryKey(key) })), merged: {} };
+}
+
+export function findCategory(taxonomy: CategoryTaxonomy, key: string): CategoryDefinition | undefined {
+  return taxonomy.categories.find((c) => c.key === key);
+}
+
+export function categoryLabel(key: string, taxonomy: CategoryTaxonomy): string {
+  return findCategory(taxonomy, key)?.label || humanizeCategoryKey(key);
+}
+
+/** Follow merges to the surviving category key (guarding against accidental cycles). */
+export function resolveMergedCategory(key: string, taxonomy: CategoryTaxonomy): string {
+  let current = key;
+  for (let i = 0; i < 10 && taxonomy.merged[current]; i += 1) current = taxonomy.merged[current];
+  return current;
+}
+
+function topLevelCategory(key: string, taxonomy: CategoryTaxonomy): string {
+  return findCategory(taxonomy, key)?.parent ?? key;
+}
+
+export function childCategories(parent: string, taxonomy: CategoryTaxonomy): string[] {
+  return taxonomy.categories.filter((c) => c.parent === parent).map((c) => c.key);
+}
+
+/**
+ * Column order for category tables: taxonomy order, then categories only found in the data.
+ * At the "sub" level every child follows its parent.
+ */
+export function orderedCategoryKeys(
+  taxonomy: CategoryTaxonomy,
+  monthlyExpenses: MonthlyExpense[],
+  level: "top" | "sub"
+): string[] {
+  const dataKeys = [...new Set(monthlyExpenses.flatMap((m) => Object.keys(m.categories)))]
+    .filter((k) => !findCategory(taxonomy, k))
+    .sort((a, b) => a.localeCompare(b));
+  const topLevel = taxonomy.categories.filter((c) => !c.parent).map((c) => c.key);
+  if (level === "top") return [...topLevel, ...dataKeys];
+  return [...topLevel.flatMap((k) => [k, ...childCategories(k, taxonomy)]), ...dataKeys];
+}
+
+/** Re-point transactions of merged-away categories to the category they were merged into. */
+export function applyCategoryMerges(transactions: Transaction[], taxonomy: CategoryTaxonomy): Transaction[] {
+  if (!Object.keys(taxonomy.merged).length) return transactions;
+  return transactions.map((t) => {
+    const category = resolveMergedCategory(t.category, taxonomy);
+    return category === t.category ? t : { ...t, category };
+  });
+}
+
+/** Rebuild monthly aggregates with categories mapped through `mapKey` (and optionally filtered). */
+function remapMonthlyExpenses(
+  monthlyExpenses: MonthlyExpense[],
+  mapKey: (key: string) => string | null
+): MonthlyExpense[] {
+  return monthlyExpenses.map((m) => {
+    const categories: MonthlyExpense["categories"] = {};
+    for (const [key, info] of Object.entries(m.categories)) {
+      const target = mapKey(key);
+      if (target === null) continue;
+      const existing = categories[target] ?? { amount: 0, percentage: 0, transactions: [] };
+      existing.amount += info.amount;
+      existing.transactions = [...existing.transactions, ...info.transactions];
+      categories[target] = existing;
+    }
+    const sum = Object.values(categories).reduce((acc, c) => acc + c.amount, 0);
+    for (const c of Object.values(categories)) c.percentage = sum > 0 ? (c.amount / sum) * 100 : 0;
+    return { month: m.month, sum, categories };
+  });
+}
+
+/** Roll subcategory spend up into the parent categories. */
+export function rollUpMonthlyExpenses(monthlyExpenses: MonthlyExpense[], taxonomy: CategoryTaxonomy): MonthlyExpense[] {
+  return remapMonthlyExpenses(monthlyExpenses, (key) => topLevelCategory(key, taxonomy));
+}
+
+/** Keep only a parent category and its children (for the pie drill-down). */
+export function restrictToCategoryFamily(
+  monthlyExpenses: MonthlyExpense[],
+  parent: string,
+  taxonomy: CategoryTaxonomy
+): MonthlyExpense[] {
+  return remapMonthlyExpenses(monthlyExpenses, (key) => (topLevelCategory(key, taxonomy) === parent ? key : null));
+}
+
+/**
+ * Turn a label into a unique camelCase key, e.g. "Eating out" -> "eatingOut". Keys of merged-away
+ * categories stay taken, or the new category would be merged into their target.
+ */
+export function makeCategoryKey(label: string, existing: string[], taxonomy: CategoryTaxonomy): string {
+  const taken = new Set([...existing, ...taxonomy.categories.map((c) => c.key), ...Object.keys(taxonomy.merged)]);
+  const base =
+    label
+      .trim()
+      .replace(/[^\p{L}\p{N}]+(.)?/gu, (_, ch: string | undefined) => (ch ? ch.toUpperCase() : ""))
+      .replace(/^./, (ch) => ch.toLowerCase()) || "category";
+  let key = base;
+  for (let i = 2; taken.has(key); i += 1) key = `${base}${i}`;
+  return key;
+}
+
+/** Add or update a category definition, creating it from defaults when it only existed in the data. */
+export function upsertCategory(
+  taxonomy: CategoryTaxonomy,
+  key: string,
+  changes: Partial<Omit<CategoryDefinition, "key">>
+): CategoryTaxonomy {
+  const existing = findCategory(taxonomy, key);
+  const next = { ...(existing ?? { key, label: humanizeCategoryKey(key) }), ...changes };
+  if (next.parent === undefined || next.parent === "") delete next.parent;
+  const categories = existing
+    ? taxonomy.categories.map((c) => (c.key === key ? next : c))
+    : [...taxonomy.categories, next];
+  // A parent that so far only existed in the data needs a definition to hold its children.
+  if (next.parent && !findCategory(taxonomy, next.parent)) {
+    categories.push({ key: next.parent, label: humanizeCategoryKey(next.parent) });
+  }
+  return { ...taxonomy, categories };
+}
+
+/** Sum of two budgets, month by month; a month override of either side is kept as an override. */
+function addBudgets(a: CategoryBudget, b: CategoryBudget): CategoryBudget {
+  const months = Object.fromEntries(
+    [...new Set([...Object.keys(a.months), ...Object.keys(b.months)])].map((month) => [
+      month,
+      (budgetFor({ a }, "a", month) ?? 0) + (budgetFor({ b }, "b", month) ?? 0),
+    ])
+  );
+  return { monthly: a.monthly === null && b.monthly === null ? null : (a.monthly ?? 0) + (b.monthly ?? 0), months };
+}
+
+/**
+ * Merge category `from` into `into`: existing transactions follow via `taxonomy.merged`, and rules,
+ * single-transaction overrides, budgets and child categories are re-pointed so nothing refers to
+ * `from` anymore. A budget of `from` is added to the budget of `into`.
+ */
+export function mergeCategories(
+  state: { taxonomy: CategoryTaxonomy; rules: CategoryRule[]; overrides: Record<string, string>; budgets: Budgets },
+  from: string,
+  into: string
+) {
+  const { [from]: fromBudget, ...budgets } = state.budgets;
+  if (fromBudget) budgets[into] = budgets[into] ? addBudgets(budgets[into], fromBudget) : fromBudget;
+
+  const merged = { ...state.taxonomy.merged, [from]: into };
+  // Anything previously merged into `from` now ends up in `into`, too.
+  for (const [k, v] of Object.entries(merged)) if (v === from) merged[k] = into;
+
+  return {
+    taxonomy: {
+      categories: state.taxonomy.categories
+        .filter((c) => c.key !== from)
+        .map((c) => {
+          if (c.parent !== from) return c;
+          return c.key === into ? { key: c.key, label: c.label, color: c.color } : { ...c, parent: into };
+        }),
+      merged,
+    },
+    rules: state.rules.map((r) => (r.category === from ? { ...r, category: into } : r)),
+    overrides: Object.fromEntries(
+      Object.entries(state.overrides).map(([id, cat]) => [id, cat === from ? into : cat])
+    ),
+    budgets,
+  };
+}
+
+/** Convert an `hsl(h, s%, l%)` string to hex so it can prefill a color input. */
+export function hslToHex(color: string): string {
+  const m = /hsl\((\d+(?:\.\d+)?),\s*(\d+)%,\s*(\d+)%\)/.exec(color);
+  if (!m) return color.startsWith("#") ? color : "#888888";
+  const h = Number(m[1]);
+  const sat = Number(m[2]) / 100;
+  const light = Number(m[3]) / 100;
+  const a = sat * Math.min(light, 1 - light);
+  const f = (n: number) => {
+    const k = (n + h / 30) % 12;
+    const c = light - a * Math.max(-1, Math.min(k - 3, 9 - k, 1));
+    return Math.round(c * 255).toString(16).padStart(2, "0");
+  };
+  return `#${f(0)}${f(8)}${f(4)}`;
+}
+
+export type LedgerFilters = {
+  /** Case-insensitive text matched against merchant, description, note and tags. */
+  search: string;
+  category: string;
+  month: string;
+  sourceFile: string;
+  /** Bounds on the absolute amount; empty string means unbounded. */
+  minAmount: string;
+  maxAmount: string;
+};
+
+export type LedgerSortKey = "date" | "merchant" | "category" | "amount" | "sourceFile";
+
+/** Filters and highlighted rows to open the ledger with, e.g. from an insight. */
+export type LedgerFocus = {
+  /** Changes on every request so the ledger is re-opened even for the same focus. */
+  nonce: number;
+  filters: Partial<LedgerFilters>;
+  highlightIds: string[];
+};
+
+/** Apply the ledger filters. Empty filter values don't restrict anything. */
+export function filterLedgerTransactions(transactions: Transaction[], filters: LedgerFilters): Transaction[] {
+  const query = filters.search.trim().toLowerCase();
+  const min = filters.minAmount.trim() === "" ? null : Number(filters.minAmount);
+  const max = filters.maxAmount.trim() === "" ? null : Number(filters.maxAmount);
+
+  return transactions.filter((t) => {
+    if (
+      query &&
+      ![t.merchant, t.canonicalMerchant ?? "", t.description, t.note ?? "", ...(t.tags ?? [])].some((text) => text.toLowerCase().includes(query))
+    ) {
+      return false;
+    }
+    if (filters.category && t.category !== filters.category) return false;
+    if (filters.month && !t.date.startsWith(filters.month)) return false;
+    if (filters.sourceFile && t.sourceFile !== filters.sourceFile) return false;
+    const abs = Math.abs(t.amount);
+    if (min !== null && !Number.isNaN(min) && abs < min) return false;
+    if (max !== null && !Number.isNaN(max) && abs > max) return false;
+    return true;
+  });
+}
+
+/** Sort ledger rows; ties keep date order so equal rows don't jump around. */
+export function sortLedgerTransactions(transactions: Transaction[], key: LedgerSortKey, dir: "asc" | "desc"): Transaction[] {
+  const sign = dir === "asc" ? 1 : -1;
+  return [...transactions].sort((a, b) => {
+    let diff: number;
+    switch (key) {
+      case "merchant":
+        diff = merchantName(a).localeCompare(merchantName(b));
+        break;
+      case "category":
+        diff = a.category.localeCompare(b.category);
+        break;
+      case "amount":
+        diff = a.amount - b.amount;
+        break;
+      case "sourceFile":
+        diff = a.sourceFile.localeCompare(b.sourceFile);
+        break;
+      case "date":
+      default:
+        diff = 0;
+    }
+    return sign * (diff || a.date.localeCompare(b.date));
+  });
+}
+
+/** Budget of a category for one month, honoring per-month overrides. Null when there is none. */
+export function budgetFor(budgets: Budgets, category: string, month: string): number | null {
+  const budget = budgets[category];
+  if (!budget) return null;
+  return budget.months[month] ?? budget.monthly;
+}
+
+/**
+ * Total budget for a month against the spend of the budgeted categories only: every budgeted
+ * category counted once, so a subcategory budget is left out when its parent has a budget too.
+ * `covered` tells whether those categories hold all of the month's spending. Null when nothing is budgeted.
+ */
+export function totalBudgetProgress(
+  budgets: Budgets,
+  m: MonthlyExpense | undefined,
+  month: string,
+  taxonomy: CategoryTaxonomy
+): MonthBudget | null {
+  let total: BudgetProgress | null = null;
+  for (const category of Object.keys(budgets)) {
+    const budget = budgetFor(budgets, category, month);
+    if (budget === null) continue;
+    const parent = findCategory(taxonomy, category)?.parent;
+    if (parent && budgetFor(budgets, parent, month) !== null) continue;
+    total ??= { category: "total", budget: 0, spent: 0 };
+    total.budget += budget;
+    total.spent += categorySpend(m, category, taxonomy);
+  }
+  return total && { ...total, covered: total.spent >= (m?.sum ?? 0) - 0.005 };
+}
+
+/** Spend of a category in one month; parent categories include their subcategories. */
+function categorySpend(m: MonthlyExpense | undefined, category: string, taxonomy: CategoryTaxonomy): number {
+  if (!m) return 0;
+  return Object.entries(m.categories)
+    .filter(([key]) => key === category || findCategory(taxonomy, key)?.parent === category)
+    .reduce((acc, [, info]) => acc + info.amount, 0);
+}
+
+/**
+ * Budget vs actual for every category budgeted in `month`, plus the total from `totalBudgetProgress`.
+ */
+export function computeBudgetProgress(
+  budgets: Budgets,
+  monthlyExpenses: MonthlyExpense[],
+  month: string,
+  taxonomy: CategoryTaxonomy
+): { rows: BudgetProgress[]; total: BudgetProgress | null } {
+  const m = monthlyExpenses.find((e) => e.month === month);
+  const rows: BudgetProgress[] = [];
+  for (const category of Object.keys(budgets)) {
+    const budget = budgetFor(budgets, category, month);
+    if (budget !== null) rows.push({ category, budget, spent: categorySpend(m, category, taxonomy) });
+  }
+  const progress = totalBudgetProgress(budgets, m, month, taxonomy);
+  const total = progress && { category: progress.category, budget: progress.budget, spent: progress.spent };
+
+  const order = orderedCategoryKeys(taxonomy, monthlyExpenses, "sub");
+  const rank = (key: string) => (order.includes(key) ? order.indexOf(key) : order.length);
+  rows.sort((a, b) => rank(a.category) - rank(b.category) || a.category.localeCompare(b.category));
+  return { rows, total };
+}
+
+type RateIndex = Map<string, { date: string; rate: number }[]>;
+
+/** Index rates by `FROM>TO` in both directions (inverse rates derived), sorted by date. */
+function buildRateIndex(rates: ExchangeRate[]): RateIndex {
+  const index: RateIndex = new Map();
+  const add = (from: string, to: string, date: string, rate: number) => {
+    const key = `${from}>${to}`;
+    index.set(key, [...(index.get(key) ?? []), { date, rate }]);
+  };
+  for (const r of rates) {
+    if (!(r.rate > 0)) continue;
+    add(r.base, r.quote, r.date, r.rate);
+    add(r.quote, r.base, r.date, 1 / r.rate);
+  }
+  for (const list of index.values()) list.sort((a, b) => a.date.localeCompare(b.date));
+  return index;
+}
+
+/** Latest rate on or before `date`, else the undated fallback, else the earliest later rate. */
+function lookupDirectRate(index: RateIndex, from: string, to: string, date: string): number | null {
+  const list = index.get(`${from}>${to}`);
+  if (!list?.length) return null;
+  let onOrBefore: number | null = null;
+  let fallback: number | null = null;
+  let after: number | null = null;
+  for (const r of list) {
+    if (!r.date) fallback = r.rate;
+    else if (r.date <= date) onOrBefore = r.rate;
+    else after ??= r.rate;
+  }
+  return onOrBefore ?? fallback ?? after;
+}
+
+/** Rate to convert `from` into `to`, directly or through one intermediate currency. */
+function lookupRate(index: RateIndex, from: string, to: string, date: string): number | null {
+  if (from === to) return 1;
+  const direct = lookupDirectRate(index, from, to, date);
+  if (direct !== null) return direct;
+  for (const key of index.keys()) {
+    const [source, via] = key.split(">");
+    if (source !== from) continue;
+    const first = lookupDirectRate(index, from, via, date);
+    const second = lookupDirectRate(index, via, to, date);
+    if (first !== null && second !== null) return first * second;
+  }
+  return null;
+}
+
+/**
+ * Convert amounts into the reporting currency; the booked amount and currency are kept on the
+ * transaction. Transactions without a usable rate are left out, so foreign amounts never mix into
+ * totals, and counted per currency in `missing`.
+ */
+export function convertTransactions(
+  transactions: Transaction[],
+  reportingCurrency: string,
+  rates: ExchangeRate[]
+): { transactions: Transaction[]; missing: Record<string, number> } {
+  const index = buildRateIndex(rates);
+  const missing: Record<string, number> = {};
+  const converted: Transaction[] = [];
+  for (const t of transactions) {
+    const rate = lookupRate(index, t.currency, reportingCurrency, t.date);
+    if (rate === null) {
+      missing[t.currency] = (missing[t.currency] ?? 0) + 1;
+    } else if (t.currency === reportingCurrency) {
+      converted.push(t);
+    } else {
+      converted.push({
+        ...t,
+        amount: Math.round(t.amount * rate * 100) / 100,
+        currency: reportingCurrency,
+        originalAmount: t.amount,
+        originalCurrency: t.currency,
+      });
+    }
+  }
+  return { transactions: converted, missing };
+}
+
+/**
+ * Convert budget amounts into another reporting currency: monthly budgets at the latest rate, month
+ * overrides at the rate of their month. Null when a rate is missing.
+ */
+export function convertBudgets(budgets: Budgets, from: string, to: string, rates: ExchangeRate[]): Budgets | null {
+  const index = buildRateIndex(rates);
+  const convert = (amount: number, date: string) => {
+    const rate = lookupRate(index, from, to, date);
+    return rate === null ? null : Math.round(amount * rate * 100) / 100;
+  };
+  const converted: Budgets = {};
+  for (const [category, budget] of Object.entries(budgets)) {
+    const monthly = budget.monthly === null ? null : convert(budget.monthly, "9999-12-31");
+    if (budget.monthly !== null && monthly === null) return null;
+    const months: Record<string, number> = {};
+    for (const [month, amount] of Object.entries(budget.months)) {
+      const value = convert(amount, `${month}-31`);
+      if (value === null) return null;
+      months[month] = value;
+    }
+    converted[category] = { monthly, months };
+  }
+  return converted;
+}
+
+/**
+ * Read daily rates from CSV. Needs `date` and `rate` columns plus either `base` and `quote` or a
+ * single `currency` column, which is then quoted in `defaultQuote`.
+ */
+export function parseExchangeRatesCsv(text: string, defaultQuote: string): ExchangeRate[] {
+  const lines = readCsvLines(text);
+  const delimiter = ([";", "\t", ","] as const).find((d) => lines[0]?.includes(d)) ?? ",";
+  const header = splitCsvLine(lines[0] ?? "", delimiter).map((h) => h.trim().toLowerCase());
+  const column = (...names: string[]) => header.findIndex((h) => names.includes(h));
+  const dateCol = column("date", "day");
+  const rateCol = column("rate", "value", "price");
+  const baseCol = column("base", "from", "currency");
+  const quoteCol = column("quote", "to");
+  if (dateCol < 0 || rateCol < 0 || baseCol < 0) {
+    throw new Error('Exchange-rate CSV needs "date", "rate" and "currency" (or "base" and "quote") columns.');
+  }
+
+  const rates: ExchangeRate[] = [];
+  for (const line of lines.slice(1)) {
+    const cells = splitCsvLine(line, delimiter).map((c) => c.trim());
+    const date = cells[dateCol] ?? "";
+    const rate = Number((cells[rateCol] ?? "").replace(",", "."));
+    const base = (cells[baseCol] ?? "").toUpperCase();
+    const quote = quoteCol >= 0 ? (cells[quoteCol] ?? "").toUpperCase() : defaultQuote;
+    if (!/^\d{4}-\d{2}-\d{2}$/.test(date) || !(rate > 0) || !base || !quote) continue;
+    rates.push({ date, base, quote, rate });
+  }
+  return rates;
+}
+
+/** Merge rates; a new rate replaces an existing one for the same date and currency pair. */
+export function mergeExchangeRates(existing: ExchangeRate[], added: ExchangeRate[]): ExchangeRate[] {
+  const key = (r: ExchangeRate) => `${r.date}|${r.base}|${r.quote}`;
+  const addedKeys = new Set(added.map(key));
+  return [...existing.filter((r) => !addedKeys.has(key(r))), ...added].sort(
+    (a, b) => a.base.localeCompare(b.base) || a.quote.localeCompare(b.quote) || a.date.localeCompare(b.date)
+  );
+}
+
+/** Key two transactions must share to be considered the same booking: date, amount and counterparty. */
+function duplicateKey(tx: Transaction): string {
+  return `${tx.date}|${tx.amount.toFixed(2)}|${tx.merchant.replace(/\s+/g, " ").trim().toLowerCase()}`;
+}
+
+/**
+ * Find incoming transactions that are already in `existing`. Transactions match on date, amount
+ * and counterparty, and on the bank reference when both sides have one. Every existing transaction
+ * can absorb only one incoming match, so two identical coffees on the same day in both files are
+ * two duplicates, while a third one in the new file is kept as new. Files of the same upload are
+ * checked against each other too, in upload order.
+ */
+export function findDuplicateTransactions(existing: Transaction[], incoming: ImportRecord[]): DuplicateCandidate[] {
+  const pool = new Map<string, Transaction[]>();
+  const addToPool = (tx: Transaction) => {
+    const key = duplicateKey(tx);
+    pool.set(key, [...(pool.get(key) ?? []), tx]);
+  };
+  existing.forEach(addToPool);
+
+  const duplicates: DuplicateCandidate[] = [];
+  for (const record of incoming) {
+    const unmatched: Transaction[] = [];
+    for (const tx of record.transactions) {
+      const key = duplicateKey(tx);
+      const candidates = pool.get(key) ?? [];
+      const index = candidates.findIndex((c) => !tx.reference || !c.reference || c.reference === tx.reference);
+      if (index === -1) {
+        unmatched.push(tx);
+        continue;
+      }
+      duplicates.push({ incoming: tx, existing: candidates[index] });
+      pool.set(key, candidates.filter((_, i) => i !== index));
+    }
+    // Only later files are compared against this one; repeats inside one file are real transactions.
+    unmatched.forEach(addToPool);
+  }
+  return duplicates;
+}
+
+/**
+ * Make the ids of incoming transactions unique against the dataset and each other. Overlapping
+ * exports produce the same ids for the same bookings, and the duplicate review and overrides key
+ * on the id.
+ */
+export function withUniqueTransactionIds(records: ImportRecord[], existing: Transaction[]): ImportRecord[] {
+  const taken = new Set(existing.map((t) => t.id));
+  return records.map((record) => ({
+    ...record,
+    transactions: record.transactions.map((tx) => {
+      let id = tx.id;
+      for (let n = 1; taken.has(id); n++) id = `${tx.id}#${n}`;
+      taken.add(id);
+      return id === tx.id ? tx : { ...tx, id };
+    }),
+  }));
+}
+
+/** Max days between the two sides of an internal transfer (bank booking dates can lag). */
+export const TRANSFER_MAX_DAYS = 3;
+
+/** Relative gap allowed between the converted sides of a transfer between currencies (bank rates differ from ours). */
+const TRANSFER_FX_TOLERANCE = 0.02;
+
+/** Transaction ids never contain line breaks (counterparty whitespace is collapsed), so one separates the sides. */
+function transferPairId(outgoing: Transaction, incoming: Transaction): string {
+  return `${outgoing.id}\n${incoming.id}`;
+}
+
+/**
+ * The account a transaction was booked on, for transfer pairing: the bank plus the import's account
+ * tag. Untagged imports (whose `account` is their file name) count as one account per bank, since
+ * two exports of the same account would otherwise pair a purchase with its refund.
+ */
+function transferAccount(t: Transaction): string {
+  return isUntaggedAccount(t) ? t.bank : `${t.bank}\n${t.account}`;
+}
+
+function isUntaggedAccount(t: Transaction): boolean {
+  return !t.account || t.account === t.sourceFile;
+}
+
+function daysBetween(a: string, b: string): number {
+  return Math.round(Math.abs(Date.parse(a) - Date.parse(b)) / 86_400_000);
+}
+
+/**
+ * Sides booked in the same currency must match to the cent. Between currencies only the amounts
+ * converted to the reporting currency compare, within `TRANSFER_FX_TOLERANCE`.
+ */
+function transferAmountsMatch(outgoing: Transaction, incoming: Transaction): boolean {
+  if (outgoing.currency !== incoming.currency) return false;
+  if ((outgoing.originalCurrency ?? outgoing.currency) === (incoming.originalCurrency ?? incoming.currency)) {
+    return (-(outgoing.originalAmount ?? outgoing.amount)).toFixed(2) === (incoming.originalAmount ?? incoming.amount).toFixed(2);
+  }
+  const sent = -outgoing.amount;
+  return Math.abs(sent - incoming.amount) <= Math.max(sent, incoming.amount) * TRANSFER_FX_TOLERANCE;
+}
+
+/** Incoming transactions by booking date, for looking up the other side of a transfer. */
+function incomingByDate(transactions: Transaction[]): Map<string, Transaction[]> {
+  const byDate = new Map<string, Transaction[]>();
+  for (const t of transactions) {
+    if (t.amount > 0) byDate.set(t.date, [...(byDate.get(t.date) ?? []), t]);
+  }
+  return byDate;
+}
+
+/** Incoming transactions booked within `TRANSFER_MAX_DAYS` of `outgoing` whose amount matches it. */
+function transferCandidates(outgoing: Transaction, byDate: Map<string, Transaction[]>): Transaction[] {
+  const candidates: Transaction[] = [];
+  for (let offset = -TRANSFER_MAX_DAYS; offset <= TRANSFER_MAX_DAYS; offset++) {
+    for (const incoming of byDate.get(addDays(outgoing.date, offset)) ?? []) {
+      if (transferAmountsMatch(outgoing, incoming)) candidates.push(incoming);
+    }
+  }
+  return candidates;
+}
+
+/**
+ * Pair opposite-signed transactions of equal amount on different accounts booked within
+ * `TRANSFER_MAX_DAYS` of each other; transfers between currencies compare converted amounts.
+ * Confirmed pairs are kept first; unlinked pairs are never proposed again. Otherwise every outgoing
+ * transaction takes the closest unused incoming one.
+ */
+export function detectInternalTransfers(transactions: Transaction[], decisions: TransferDecisions): TransferPair[] {
+  const byId = new Map(transactions.map((t) => [t.id, t]));
+  const used = new Set<string>();
+  const pairs: TransferPair[] = [];
+
+  const addPair = (outgoing: Transaction, incoming: Transaction, confirmed: boolean) => {
+    used.add(outgoing.id);
+    used.add(incoming.id);
+    pairs.push({
+      id: transferPairId(outgoing, incoming),
+      outgoing,
+      incoming,
+      days: daysBetween(outgoing.date, incoming.date),
+      confirmed,
+    });
+  };
+
+  for (const id of decisions.confirmed) {
+    const [outgoing, incoming] = id.split("\n").map((txId) => byId.get(txId));
+    if (outgoing && incoming && !used.has(outgoing.id) && !used.has(incoming.id)) addPair(outgoing, incoming, true);
+  }
+
+  const unlinked = new Set(decisions.unlinked);
+  const byDate = incomingByDate(transactions);
+  const outgoingSorted = transactions.filter((t) => t.amount < 0).sort((a, b) => a.date.localeCompare(b.date));
+  for (const outgoing of outgoingSorted) {
+    if (used.has(outgoing.id)) continue;
+    let best: Transaction | null = null;
+    for (const incoming of transferCandidates(outgoing, byDate)) {
+      if (used.has(incoming.id) || transferAccount(incoming) === transferAccount(outgoing)) continue;
+      if (unlinked.has(transferPairId(outgoing, incoming))) continue;
+      if (!best || daysBetween(outgoing.date, incoming.date) < daysBetween(outgoing.date, best.date)) best = incoming;
+    }
+    if (best) addPair(outgoing, best, false);
+  }
+
+  return pairs.sort((a, b) => a.outgoing.date.localeCompare(b.outgoing.date));
+}
+
+/**
+ * Unpaired outgoing transactions that match an incoming one in another untagged file from the same
+ * bank. Those are never paired, because the files may be two exports of one account; tagging the
+ * imports with their accounts lets them pair.
+ */
+export function countUntaggedTransferCandidates(transactions: Transaction[], pairs: TransferPair[]): number {
+  const paired = new Set(pairs.flatMap((p) => [p.outgoing.id, p.incoming.id]));
+  const open = transactions.filter((t) => !paired.has(t.id) && !t.transferId && isUntaggedAccount(t));
+  const byDate = incomingByDate(open);
+  return open.filter(
+    (outgoing) =>
+      outgoing.amount < 0 &&
+      transferCandidates(outgoing, byDate).some((t) => t.bank === outgoing.bank && t.sourceFile !== outgoing.sourceFile)
+  ).length;
+}
+
+/** Mark both sides of every pair so aggregates can leave them out. */
+export function markInternalTransfers(transactions: Transaction[], pairs: TransferPair[]): Transaction[] {
+  const transferIds = new Map<string, string>();
+  for (const p of pairs) {
+    transferIds.set(p.outgoing.id, p.id);
+    transferIds.set(p.incoming.id, p.id);
+  }
+  return transactions.map((t) => {
+    const transferId = transferIds.get(t.id);
+    return transferId ? { ...t, transferId } : t;
+  });
+}
+
+/** Owner of accounts without one: a joint account, already shared by the household. */
+export const JOINT_OWNER = "Joint";
+
+/** Stamp every transaction with its import's account (or file name) and owner. */
+export function tagTransactions(imp: ImportRecord): Transaction[] {
+  const account = imp.account || imp.fileName;
+  const owner = imp.owner || JOINT_OWNER;
+  return imp.transactions.map((t) => ({ ...t, account, owner }));
+}
+
+export function matchesAccountFilter(t: Transaction, filter: AccountFilter): boolean {
+  return (!filter.account || t.account === filter.account) && (!filter.owner || t.owner === filter.owner);
+}
+
+/** Whether a transaction carries the tag being filtered on; an empty filter matches everything. */
+export function matchesTagFilter(t: Transaction, tag: string): boolean {
+  return !tag || (t.tags?.includes(tag) ?? false);
+}
+
+/** Expense per top-level category and owner; `owners` lists members first and the joint accounts last. */
+export function computeOwnerSplit(
+  transactions: Transaction[],
+  taxonomy: CategoryTaxonomy
+): { owners: string[]; rows: { category: string; total: number; byOwner: Record<string, number> }[] } {
+  const rows: Record<string, { category: string; total: number; byOwner: Record<string, number> }> = {};
+  const owners = new Set<string>();
+  for (const t of transactions) {
+    if (t.amount >= 0 || t.transferId) continue;
+    const owner = t.owner || JOINT_OWNER;
+    const category = topLevelCategory(t.category, taxonomy);
+    const row = (rows[category] ??= { category, total: 0, byOwner: {} });
+    row.total -= t.amount;
+    row.byOwner[owner] = (row.byOwner[owner] ?? 0) - t.amount;
+    owners.add(owner);
+  }
+  return {
+    owners: [...owners].sort((a, b) => Number(a === JOINT_OWNER) - Number(b === JOINT_OWNER) || a.localeCompare(b)),
+    rows: Object.values(rows).sort((a, b) => b.total - a.total),
+  };
+}
+
+/**
+ * Settle up shared expenses between household members: each member's expenses in the shared
+ * categories count as paid for everyone and are divided by the members' weights. Joint accounts are
+ * already shared and stay out. `transfers` is a short list of payments that evens out the balances.
+ */
+export function computeSettleUp(
+  transactions: Transaction[],
+  split: HouseholdSplit,
+  taxonomy: CategoryTaxonomy
+): { total: number; rows: SettleUpRow[]; transfers: { from: string; to: string; amount: number }[] } {
+  const shared = new Set(split.sharedCategories);
+  const paid: Record<string, number> = {};
+  for (const t of transactions) {
+    const owner = t.owner || JOINT_OWNER;
+    if (owner === JOINT_OWNER) continue;
+    paid[owner] ??= 0;
+    if (t.amount >= 0 || t.transferId || !shared.has(topLevelCategory(t.category, taxonomy))) continue;
+    paid[owner] -= t.amount;
+  }
+
+  const owners = Object.keys(paid).sort((a, b) => a.localeCompare(b));
+  const total = owners.reduce((acc, o) => acc + paid[o], 0);
+  const weight = (owner: string) => Math.max(0, split.weights[owner] ?? 1);
+  const totalWeight = owners.reduce((acc, o) => acc + weight(o), 0);
+  const rows = owners.map((owner) => {
+    const share = totalWeight > 0 ? (total * weight(owner)) / totalWeight : 0;
+    return { owner, paid: paid[owner], share, balance: paid[owner] - share };
+  });
+
+  // Largest debtor pays the largest creditor until everyone is within a cent.
+  const transfers: { from: string; to: string; amount: number }[] = [];
+  const open = rows.map((r) => ({ owner: r.owner, balance: r.balance }));
+  for (;;) {
+    const debtor = open.reduce((min, r) => (r.balance < min.balance ? r : min), open[0]);
+    const creditor = open.reduce((max, r) => (r.balance > max.balance ? r : max), open[0]);
+    if (!debtor || debtor.balance > -0.005 || creditor.balance < 0.005) break;
+    const amount = Math.min(-debtor.balance, creditor.balance);
+    transfers.push({ from: debtor.owner, to: creditor.owner, amount });
+    debtor.balance += amount;
+    creditor.balance -= amount;
+  }
+
+  return { total, rows, transfers };
+}
+
+export const PERIOD_PRESETS: { value: PeriodPreset; label: string }[] = [
+  { value: "all", label: "All data" },
+  { value: "month", label: "Month" },
+  { value: "quarter", label: "Quarter" },
+  { value: "year", label: "Calendar year" },
+  { value: "rolling12", label: "Rolling 12 months" },
+  { value: "custom", label: "Custom range" },
+];
+
+/** Months the presets step by when moving to the previous period. */
+const PERIOD_PRESET_MONTHS: Partial<Record<PeriodPreset, number>> = { month: 1, quarter: 3, year: 12, rolling12: 12 };
+
+/** Short month label for ranges, e.g. "Jan 2025". */
+export function formatMonthShort(monthKey: string): string {
+  const m = /^(\d{4})-(\d{2})$/.exec(monthKey);
+  if (!m) return monthKey;
+  return new Intl.DateTimeFormat(undefined, { month: "short", year: "numeric" }).format(new Date(Number(m[1]), Number(m[2]) - 1, 1));
+}
+
+/** Move a `YYYY-MM` month by `delta` months. */
+function shiftMonth(month: string, delta: number): string {
+  const [y, m] = month.split("-").map(Number);
+  const index = y * 12 + (m - 1) + delta;
+  return `${Math.floor(index / 12)}-${String((index % 12) + 1).padStart(2, "0")}`;
+}
+
+function lastDayOfMonth(month: string): string {
+  const [y, m] = month.split("-").map(Number);
+  return `${month}-${String(new Date(Date.UTC(y, m, 0)).getUTCDate()).padStart(2, "0")}`;
+}
+
+function addDays(date: string, days: number): string {
+  const d = new Date(`${date}T00:00:00Z`);
+  d.setUTCDate(d.getUTCDate() + days);
+  return d.toISOString().slice(0, 10);
+}
+
+/** Snap an anchor month to the start of its quarter or year, so it matches the picker options. */
+export function normalizePeriodAnchor(preset: PeriodPreset, anchor: string): string {
+  if (!/^\d{4}-\d{2}$/.test(anchor)) return anchor;
+  if (preset === "year") return `${anchor.slice(0, 4)}-01`;
+  if (preset === "quarter") return shiftMonth(anchor, -((Number(anchor.slice(5, 7)) - 1) % 3));
+  return anchor;
+}
+
+/**
+ * Resolve a period selection against the months present in the data (sorted `YYYY-MM`).
+ * An empty or invalid anchor falls back to the latest month with data.
+ */
+export function resolvePeriod(selection: PeriodSelection, months: string[]): DateRange {
+  const first = months[0];
+  const last = months[months.length - 1];
+  const anchor = normalizePeriodAnchor(
+    selection.preset,
+    /^\d{4}-\d{2}$/.test(selection.anchor) ? selection.anchor : (last ?? new Date().toISOString().slice(0, 7))
+  );
+
+  switch (selection.preset) {
+    case "month":
+      return { start: `${anchor}-01`, end: lastDayOfMonth(anchor), label: formatMonthLabel(anchor) };
+    case "quarter": {
+      const end = shiftMonth(anchor, 2);
+      return {
+        start: `${anchor}-01`,
+        end: lastDayOfMonth(end),
+        label: `Q${Math.floor((Number(anchor.slice(5, 7)) - 1) / 3) + 1} ${anchor.slice(0, 4)}`,
+      };
+    }
+    case "year":
+      return { start: `${anchor}-01`, end: `${anchor.slice(0, 4)}-12-31`, label: anchor.slice(0, 4) };
+    case "rolling12": {
+      const start = shiftMonth(anchor, -11);
+      return {
+        start: `${start}-01`,
+        end: lastDayOfMonth(anchor),
+        label: `12 months, ${formatMonthShort(start)} – ${formatMonthShort(anchor)}`,
+      };
+    }
+    case "custom": {
+      const isDate = (d: string) => /^\d{4}-\d{2}-\d{2}$/.test(d);
+      const start = isDate(selection.from) ? selection.from : first ? `${first}-01` : "0000-01-01";
+      const end = isDate(selection.to) ? selection.to : last ? lastDayOfMonth(last) : "9999-12-31";
+      return { start, end, label: `${start} – ${end}` };
+    }
+    case "all":
+    default:
+      return first && last
+        ? {
+            start: `${first}-01`,
+            end: lastDayOfMonth(last),
+            label: first === last ? formatMonthLabel(first) : `All data, ${formatMonthShort(first)} – ${formatMonthShort(last)}`,
+          }
+        : { start: "0000-01-01", end: "9999-12-31", label: "All data" };
+  }
+}
+
+/** The period right before `selection` with the same length, used as the default comparison. */
+export function previousPeriod(selection: PeriodSelection, range: DateRange): PeriodSelection {
+  const step = PERIOD_PRESET_MONTHS[selection.preset];
+  if (step) {
+    return { ...selection, anchor: shiftMonth(range.start.slice(0, 7), selection.preset === "rolling12" ? -1 : -step) };
+  }
+  const days = daysBetween(range.start, range.end);
+  return { preset: "custom", anchor: selection.anchor, from: addDays(range.start, -days - 1), to: addDays(range.start, -1) };
+}
+
+/** Period equivalent of the old month/"year" switch, where "year" meant all months. */
+export function periodFromBreakdownMode(mode: unknown, month: unknown): PeriodSelection {
+  return { preset: mode === "year" ? "all" : "month", anchor: typeof month === "string" ? month : "", from: "", to: "" };
+}
+
+export function isDateInRange(date: string, range: DateRange): boolean {
+  return date >= range.start && date <= range.end;
+}
+
+/** Options for the anchor picker of a preset: the data's months, quarters or years (plus the current anchor). */
+export function periodAnchorOptions(preset: PeriodPreset, months: string[], current: string): { value: string; label: string }[] {
+  const values = [...new Set([...months, current].filter(Boolean).map((m) => normalizePeriodAnchor(preset, m)))].sort(
+    (a, b) => b.localeCompare(a)
+  );
+  return values.map((value) => ({
+    value,
+    label:
+      preset === "year"
+        ? value.slice(0, 4)
+        : preset === "quarter"
+          ? `Q${Math.floor((Number(value.slice(5, 7)) - 1) / 3) + 1} ${value.slice(0, 4)}`
+          : preset === "rolling12"
+            ? `12 months to ${formatMonthShort(value)}`
+            : formatMonthLabel(value),
+  }));
+}
+
+/** Absolute and relative change from `a` to `b`; the percentage is null when `a` is zero. */
+export function periodDelta(a: number, b: number): AmountChange {
+  return { delta: b - a, percent: a > 0 ? ((b - a) / a) * 100 : null };
+}
+
+/** Spend per category in two periods, with absolute and relative change from `a` to `b`. */
+export function comparePeriodCategories(a: MonthlyExpense[], b: MonthlyExpense[], categoryKeys: string[]): PeriodComparisonRow[] {
+  const totals = (monthlyExpenses: MonthlyExpense[]) => {
+    const sums: Record<string, number> = {};
+    for (const m of monthlyExpenses) {
+      for (const [cat, amount] of Object.entries(extractMonthCategoryAmounts(m))) sums[cat] = (sums[cat] ?? 0) + amount;
+    }
+    return sums;
+  };
+  const totalsA = totals(a);
+  const totalsB = totals(b);
+  return categoryKeys
+    .map((category) => {
+      const valueA = totalsA[category] ?? 0;
+      const valueB = totalsB[category] ?? 0;
+      return { category, a: valueA, b: valueB, ...periodDelta(valueA, valueB) };
+    })
+    .filter((row) => row.a > 0 || row.b > 0);
+}
+
+/** Grouped bar chart of category spend in two periods. */
+export function buildPeriodComparisonChart(
+  rows: PeriodComparisonRow[],
+  labels: { a: string; b: string },
+  labelFor: (key: string) => string,
+  currency = "EUR"
+) {
+  return {
+    data: {
+      labels: rows.map((r) => labelFor(r.category)),
+      datasets: [
+        { label: labels.a, data: rows.map((r) => r.a), backgroundColor: "rgba(13, 110, 253, 0.5)" },
+        { label: labels.b, data: rows.map((r) => r.b), backgroundColor: "rgba(255, 159, 64, 0.6)" },
+      ],
+    },
+    options: {
+      responsive: true,
+      plugins: {
+        legend: { display: true },
+        title: { display: true, text: "Spend per category" },
+        tooltip: {
+          callbacks: {
+            label: (ctx: TooltipItem<"bar">) => `${ctx.dataset.label ?? ""}: ${formatMoney(Number(ctx.raw ?? 0), currency)}`,
+          },
+        },
+      },
+    } as const,
+  };
+}
+
+/** Windows offered for the rolling average line on the monthly chart. */
+export const ROLLING_AVERAGE_WINDOWS = [3, 6, 12];
+
+/** Months from `first` to `last` inclusive (`YYYY-MM`). */
+function monthSpan(first: string, last: string): string[] {
+  const months: string[] = [];
+  for (let m = first; m <= last; m = shiftMonth(m, 1)) months.push(m);
+  return months;
+}
+
+/**
+ * Trailing average of monthly expenses over `window` months, keyed by month. Months without
+ * expenses count as zero; months before a full window of history get no value.
+ */
+export function rollingAverageByMonth(monthlyExpenses: MonthlyExpense[], window: number): Record<string, number> {
+  const ordered = [...monthlyExpenses].sort((a, b) => a.month.localeCompare(b.month));
+  if (!ordered.length) return {};
+  const sums = Object.fromEntries(ordered.map((m) => [m.month, m.sum]));
+  const months = monthSpan(ordered[0].month, ordered[ordered.length - 1].month);
+  const out: Record<string, number> = {};
+  let running = 0;
+  for (const [i, month] of months.entries()) {
+    running += sums[month] ?? 0;
+    if (i >= window) running -= sums[months[i - window]] ?? 0;
+    if (i >= window - 1) out[month] = running / window;
+  }
+  return out;
+}
+
+/**
+ * Per-category spend in `month` against the previous month and the same month last year,
+ * plus the same for the month's total.
+ */
+export function computeMonthChanges(
+  monthlyExpenses: MonthlyExpense[],
+  month: string,
+  categoryKeys: string[]
+): { total: MonthChangeRow; rows: MonthChangeRow[] } {
+  const byMonth = new Map(monthlyExpenses.map((m) => [m.month, m]));
+  const first = monthlyExpenses.reduce((min, m) => (m.month < min ? m.month : min), month);
+  const amountsIn = (key: string) => {
+    if (key < first) return null;
+    const m = byMonth.get(key);
+    return m ? extractMonthCategoryAmounts(m) : {};
+  };
+  const current = amountsIn(month) ?? {};
+  const previous = amountsIn(shiftMonth(month, -1));
+  const lastYear = amountsIn(shiftMonth(month, -12));
+
+  const row = (category: string, value: (amounts: Record<string, number>) => number): MonthChangeRow => {
+    const now = value(current);
+    const prev = previous ? value(previous) : null;
+    const year = lastYear ? value(lastYear) : null;
+    return {
+      category,
+      current: now,
+      previousMonth: prev,
+      lastYear: year,
+      mom: prev === null ? null : periodDelta(prev, now),
+      yoy: year === null ? null : periodDelta(year, now),
+    };
+  };
+  const sumAll = (amounts: Record<string, number>) => Object.values(amounts).reduce((acc, v) => acc + v, 0);
+
+  return {
+    total: row("", sumAll),
+    rows: categoryKeys
+      .map((key) => row(key, (amounts) => amounts[key] ?? 0))
+      .filter((r) => r.current > 0 || (r.previousMonth ?? 0) > 0 || (r.lastYear ?? 0) > 0),
+  };
+}
+
+/** Categories with the largest increase and decrease against the chosen basis. */
+export function findBiggestMovers(
+  rows: MonthChangeRow[],
+  basis: "mom" | "yoy",
+  count = 5
+): { up: MonthChangeRow[]; down: MonthChangeRow[] } {
+  const moved = rows.filter((r) => (r[basis]?.delta ?? 0) !== 0);
+  const delta = (r: MonthChangeRow) => r[basis]?.delta ?? 0;
+  return {
+    up: moved.filter((r) => delta(r) > 0).sort((a, b) => delta(b) - delta(a)).slice(0, count),
+    down: moved.filter((r) => delta(r) < 0).sort((a, b) => delta(a) - delta(b)).slice(0, count),
+  };
+}
+
+/** A charge must exceed the merchant's median this many times to count as a spike. */
+const ANOMALY_MERCHANT_FACTOR = 3;
+/** Other charges needed from a merchant before its typical amount is trusted. */
+const ANOMALY_MERCHANT_MIN_HISTORY = 3;
+/** First charges from a merchant count as large from this percentile of all charges. */
+const ANOMALY_NEW_MERCHANT_PERCENTILE = 0.95;
+/** Merchants seen in the first days of the history aren't "new"; the history just starts there. */
+const ANOMALY_NEW_MERCHANT_GRACE_DAYS = 30;
+/** Other months needed before a category month can be judged against its history. */
+const ANOMALY_CATEGORY_MIN_MONTHS = 3;
+/** Differences smaller than this (in the reporting currency) are never reported. */
+const ANOMALY_MIN_AMOUNT = 20;
+
+function median(values: number[]): number {
+  const sorted = [...values].sort((a, b) => a - b);
+  const mid = Math.floor(sorted.length / 2);
+  return sorted.length % 2 ? sorted[mid] : (sorted[mid - 1] + sorted[mid]) / 2;
+}
+
+/**
+ * Find unusual spending inside `range`, judged against the whole history: charges far above the
+ * merchant's median, large first charges from a new merchant, category months more than `sigma`
+ * standard deviations from that category's other months, and identical charges on the same day.
+ */
+export function detectAnomalies(
+  transactions: Transaction[],
+  monthlyExpenses: MonthlyExpense[],
+  range: DateRange,
+  sigma = 2
+): Anomaly[] {
+  const expenses = transactions
+    .filter((t) => t.amount < 0 && !t.transferId)
+    .sort((a, b) => a.date.localeCompare(b.date) || a.id.localeCompare(b.id));
+  const found: Anomaly[] = [];
+  if (!expenses.length) return found;
+
+  const merchantKey = (t: Transaction) => merchantName(t).toLowerCase();
+  const byMerchant = new Map<string, Transaction[]>();
+  for (const t of expenses) byMerchant.set(merchantKey(t), [...(byMerchant.get(merchantKey(t)) ?? []), t]);
+
+  const amounts = expenses.map((t) => -t.amount).sort((a, b) => a - b);
+  const largeCharge = Math.max(
+    ANOMALY_MIN_AMOUNT,
+    amounts[Math.min(amounts.length - 1, Math.floor(amounts.length * ANOMALY_NEW_MERCHANT_PERCENTILE))]
+  );
+  const historyStart = expenses[0].date;
+
+  for (const list of byMerchant.values()) {
+    const first = list[0];
+    if (
+      isDateInRange(first.date, range) &&
+      -first.amount >= largeCharge &&
+      daysBetween(historyStart, first.date) >= ANOMALY_NEW_MERCHANT_GRACE_DAYS
+    ) {
+      found.push({
+        id: `newMerchant:${first.id}`,
+        kind: "newMerchant",
+        date: first.date,
+        merchant: merchantName(first),
+        category: first.category,
+        amount: -first.amount,
+        score: -first.amount / largeCharge,
+        transactionIds: [first.id],
+      });
+    }
+
+    if (list.length <= ANOMALY_MERCHANT_MIN_HISTORY) continue;
+    for (const t of list) {
+      if (!isDateInRange(t.date, range)) continue;
+      const typical = median(list.filter((o) => o !== t).map((o) => -o.amount));
+      const amount = -t.amount;
+      if (typical > 0 && amount >= typical * ANOMALY_MERCHANT_FACTOR && amount - typical >= ANOMALY_MIN_AMOUNT) {
+        found.push({
+          id: `merchantSpike:${t.id}`,
+          kind: "merchantSpike",
+          date: t.date,
+          merchant: merchantName(t),
+          category: t.category,
+          amount,
+          expected: typical,
+          score: amount / typical,
+          transactionIds: [t.id],
+        });
+      }
+    }
+  }
+
+  const sameDay = new Map<string, Transaction[]>();
+  for (const t of expenses) {
+    // Parts of a split transaction share date and merchant by design.
+    if (!isDateInRange(t.date, range) || t.splitOf) continue;
+    const key = `${t.date}|${merchantKey(t)}|${t.amount.toFixed(2)}`;
+    sameDay.set(key, [...(sameDay.get(key) ?? []), t]);
+  }
+  for (const list of sameDay.values()) {
+    if (list.length < 2) continue;
+    found.push({
+      id: `duplicateCharge:${list[0].id}`,
+      kind: "duplicateCharge",
+      date: list[0].date,
+      merchant: merchantName(list[0]),
+      category: list[0].category,
+      amount: -list[0].amount,
+      score: list.length,
+      transactionIds: list.map((t) => t.id),
+    });
+  }
+
+  // Category months, on the same per-category monthly series as the trends table.
+  const categoryKeys = [...new Set(monthlyExpenses.flatMap((m) => Object.keys(m.categories)))];
+  const matrix = buildCategoryMatrix(monthlyExpenses, categoryKeys);
+  for (const category of categoryKeys) {
+    for (const row of matrix) {
+      if (row.month < range.start.slice(0, 7) || row.month > range.end.slice(0, 7)) continue;
+      const others = matrix.filter((o) => o !== row).map((o) => o.values[category]);
+      if (others.length < ANOMALY_CATEGORY_MIN_MONTHS) continue;
+      const mean = others.reduce((acc, v) => acc + v, 0) / others.length;
+      const sd = Math.sqrt(others.reduce((acc, v) => acc + (v - mean) ** 2, 0) / others.length);
+      const value = row.values[category];
+      if (Math.abs(value - mean) < ANOMALY_MIN_AMOUNT) continue;
+      // A perfectly steady history has no spread; judge it against a tenth of its mean instead.
+      const z = (value - mean) / Math.max(sd, mean * 0.1, 1);
+      if (Math.abs(z) < sigma) continue;
+      found.push({
+        id: `categoryMonth:${category}:${row.month}`,
+        kind: "categoryMonth",
+        date: row.month,
+        category,
+        amount: value,
+        expected: mean,
+        score: z,
+        transactionIds: [],
+      });
+    }
+  }
+
+  return found.sort((a, b) => b.date.localeCompare(a.date) || Math.abs(b.score) - Math.abs(a.score));
+}
+
+/** Forecast horizons offered, in months after the last month with data. */
+export const FORECAST_HORIZONS = [3, 4, 5, 6];
+/** Complete months the variable (non-subscription) spend is averaged over. */
+export const FORECAST_HISTORY_MONTHS = 6;
+/** Complete months needed before anything is forecast. */
+export const FORECAST_MIN_HISTORY = 2;
+/** Band of ±1.28 standard deviations, roughly 80% under a normal approximation. */
+const FORECAST_BAND_Z = 1.28;
+
+function meanAndDeviation(values: number[]): { mean: number; sd: number } {
+  const mean = values.reduce((acc, v) => acc + v, 0) / values.length;
+  return { mean, sd: Math.sqrt(values.reduce((acc, v) => acc + (v - mean) ** 2, 0) / values.length) };
+}
+
+/**
+ * Amount of a subscription's predicted charges after `from` up to and including `to`. An overdue
+ * charge (predicted on or before `asOf`) is expected the day after `asOf`.
+ */
+function subscriptionDueBetween(s: Subscription, asOf: string, from: string, to: string): number {
+  if (!s.nextDate) return 0;
+  let due = 0;
+  for (let d = s.nextDate > asOf ? s.nextDate : addDays(asOf, 1); d <= to; d = addToIsoDate(d, s.cadence)) {
+    if (d > from) due += s.lastAmount;
+  }
+  return due;
+}
+
+/**
+ * Forecast spend past `asOf` (usually the last date in the data) for the rest of its month and the
+ * next `horizon` months. Active subscriptions are placed on their predicted charge dates; the rest of
+ * each category's spend is projected at its mean over the last complete months, with a band from its
+ * standard deviation. A partial month keeps what was spent so far and adds the mean for its remaining
+ * days. Null while there are fewer than `FORECAST_MIN_HISTORY` complete months.
+ */
+export function buildSpendingForecast(
+  transactions: Transaction[],
+  subscriptions: Subscription[],
+  asOf: string,
+  horizon: number
+): SpendingForecast | null {
+  if (!asOf) return null;
+  const asOfMonth = asOf.slice(0, 7);
+  const partial = asOf < lastDayOfMonth(asOfMonth);
+  const firstMonth = partial ? asOfMonth : shiftMonth(asOfMonth, 1);
+  const firstDataMonth = transactions.reduce((min, t) => (t.date < min ? t.date : min), asOf).slice(0, 7);
+  const historyMonths = monthSpan(shiftMonth(firstMonth, -FORECAST_HISTORY_MONTHS), shiftMonth(firstMonth, -1)).filter(
+    (m) => m >= firstDataMonth
+  );
+  if (historyMonths.length < FORECAST_MIN_HISTORY) return null;
+
+  // Past subscription charges are left out of the variable spend; they are forecast on their own dates.
+  const recurringIds = new Set(subscriptions.flatMap((s) => s.charges.map((t) => t.id)));
+  const variable: Record<string, number[]> = {};
+  const spentSoFar: Record<string, number> = {};
+  for (const t of transactions) {
+    if (t.amount >= 0 || t.transferId || t.date > asOf) continue;
+    const month = t.date.slice(0, 7);
+    if (partial && month === asOfMonth) spentSoFar[t.category] = (spentSoFar[t.category] ?? 0) - t.amount;
+    const index = historyMonths.indexOf(month);
+    if (index < 0 || recurringIds.has(t.id)) continue;
+    (variable[t.category] ??= historyMonths.map(() => 0))[index] -= t.amount;
+  }
+
+  const active = subscriptions.filter((s) => s.status === "active");
+  const categories = [...new Set([...Object.keys(variable), ...Object.keys(spentSoFar), ...active.map((s) => s.category)])];
+  const months = monthSpan(firstMonth, shiftMonth(asOfMonth, horizon));
+  const daysIn = (month: string) => Number(lastDayOfMonth(month).slice(8));
+
+  const project = (month: string, history: number[], subs: Subscription[], soFar: number): ForecastPoint => {
+    const { mean, sd } = meanAndDeviation(history);
+    const from = month === asOfMonth ? asOf : addDays(`${month}-01`, -1);
+    const remaining = month === asOfMonth ? (daysIn(month) - Number(asOf.slice(8))) / daysIn(month) : 1;
+    const recurring = subs.reduce((acc, s) => acc + subscriptionDueBetween(s, asOf, from, lastDayOfMonth(month)), 0);
+    return {
+      month,
+      value: (month === asOfMonth ? soFar : 0) + mean * remaining + recurring,
+      spread: FORECAST_BAND_Z * sd * remaining,
+    };
+  };
+
+  const categoryPoints = Object.fromEntries(
+    categories
+      .map((c) => {
+        const history = variable[c] ?? historyMonths.map(() => 0);
+        const subs = active.filter((s) => s.category === c);
+        return [c, months.map((m) => project(m, history, subs, spentSoFar[c] ?? 0))] as const;
+      })
+      .filter(([, points]) => points.some((p) => p.value > 0))
+  );
+  // The total gets its own band: categories often move together, so their spreads don't simply cancel out.
+  const totalHistory = historyMonths.map((_, i) => categories.reduce((acc, c) => acc + (variable[c]?.[i] ?? 0), 0));
+  const totalSoFar = Object.values(spentSoFar).reduce((acc, v) => acc + v, 0);
+  const total = months.map((m) => project(m, totalHistory, active, totalSoFar));
+
+  return {
+    asOf,
+    current: partial
+      ? {
+          month: asOfMonth,
+          spentSoFar: totalSoFar,
+          recurringDue: active.reduce((acc, s) => acc + subscriptionDueBetween(s, asOf, asOf, lastDayOfMonth(asOfMonth)), 0),
+          projected: total[0],
+        }
+      : null,
+    total,
+    categories: categoryPoints,
+  };
+}
+
+/** Add two forecasts of the same months; their bands combine as if they were independent. */
+function addForecastPoints(a: ForecastPoint[], b: ForecastPoint[]): ForecastPoint[] {
+  return a.map((p, i) => ({ month: p.month, value: p.value + b[i].value, spread: Math.hypot(p.spread, b[i].spread) }));
+}
+
+/** Roll subcategory forecasts up into their parent categories. */
+export function rollUpForecast(
+  categories: Record<string, ForecastPoint[]>,
+  taxonomy: CategoryTaxonomy
+): Record<string, ForecastPoint[]> {
+  const out: Record<string, ForecastPoint[]> = {};
+  for (const [key, points] of Object.entries(categories)) {
+    const parent = topLevelCategory(key, taxonomy);
+    out[parent] = out[parent] ? addForecastPoints(out[parent], points) : points;
+  }
+  return out;
+}
+
+/**
+ * Aggregate transactions (from any number of files) into the monthly/category view.
+ * Only expenses (negative amounts) are counted; percentages are per month.
+ */
+export function buildAnalysisResult(transactions: Transaction[]): AnalysisResult {
+  const byMonth: Record<string, MonthlyExpense> = {};
+  const incomeByMonth: Record<string, MonthlyIncome> = {};
+
+  for (const t of transactions) {
+    // Internal transfers only move money between our own accounts.
+    if (t.transferId) continue;
+    const month = t.date.slice(0, 7);
+    if (t.amount > 0) {
+      const income = (incomeByMonth[month] ??= { month, sum: 0, sources: {} });
+      const source = (income.sources[merchantName(t)] ??= { amount: 0, transactions: [] });
+      income.sum += t.amount;
+      source.amount += t.amount;
+      source.transactions.push(t);
+      continue;
+    }
+    if (t.amount === 0) continue;
+    const existing = byMonth[month] ?? { month, sum: 0, categories: {} };
+    const spent = -t.amount;
+
+    existing.sum += spent;
+    const cat = existing.categories[t.category] ?? { amount: 0, percentage: 0, transactions: [] };
+    cat.amount += spent;
+    cat.transactions.push(t);
+    existing.categories[t.category] = cat;
+    byMonth[month] = existing;
+  }
+
+  const months = Object.values(byMonth).sort((a, b) => a.month.localeCompare(b.month));
+
+  // Compute category percentages per month
+  for (const m of months) {
+    for (const c of Object.values(m.categories)) {
+      c.percentage = m.sum > 0 ? (c.amount / m.sum) * 100 : 0;
+    }
+  }
+
+  const incomeMonths = Object.values(incomeByMonth).sort((a, b) => a.month.localeCompare(b.month));
+  // Both averages share one calendar span, so a month without salary (or without spending)
+  // counts as zero instead of being skipped.
+  const activeMonths = [...months, ...incomeMonths].map((m) => m.month).sort();
+  const span = activeMonths.length ? monthSpan(activeMonths[0], activeMonths[activeMonths.length - 1]).length : 0;
+  const avg = span ? months.reduce((acc, m) => acc + m.sum, 0) / span : 0;
+  const avgIncome = span ? incomeMonths.reduce((acc, m) => acc + m.sum, 0) / span : 0;
+
+  return {
+    averageMonthExpenses: avg,
+    averageMonthIncome: avgIncome,
+    monthlyExpenses: months,
+    monthlyIncome: incomeMonths,
+    transactions,
+  };
+}
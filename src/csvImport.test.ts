@@ -0,0 +1,206 @@
+import { describe, expect, it } from "vitest";
+import { detectBank, guessBankProfile, parseImportFile, type AnalyzerOutput, type BankProfile } from "./csvImport.ts";
+
+const NORDEA_CSV = [
+  "Kirjauspäivä;Määrä;Maksaja;Maksunsaaja;Nimi;Otsikko;Viitenumero;Valuutta",
+  "2025/03/02;-12,50;Me;K-Market;K-Market Kamppi;Ostos;;EUR",
+  "2025/03/03;-8,90;Me;Alepa;Alepa Toolo;Ostos;;EUR",
+  "2025/03/25;2 500,00;Employer Oy;Me;Employer Oy;Palkka;;EUR",
+].join("\n");
+
+const ING_CSV = [
+  "Umsatzanzeige;Datei erstellt am: 01.04.2025",
+  "IBAN;DE12 3456 7890 1234 5678 90",
+  "",
+  "Buchung;Valuta;Auftraggeber/Empfänger;Buchungstext;Verwendungszweck;Saldo;Währung;Betrag;Währung",
+  "03.03.2025;03.03.2025;REWE Markt;Lastschrift;Einkauf;1.234,56;EUR;-23,40;EUR",
+  "05.03.2025;05.03.2025;Stadtwerke;Lastschrift;Strom;1.100,00;EUR;-134,56;EUR",
+].join("\n");
+
+const CUSTOM_CSV = [
+  "Date,Payee,Memo,Amount",
+  "2025-03-01,Coffee Shop,Latte,-4.50",
+  "2025-03-02,Book Store,Novel,-19.90",
+].join("\n");
+
+const customProfile: BankProfile = {
+  id: "profile-1",
+  name: "My Credit Union",
+  delimiter: ",",
+  headerRowIndex: 0,
+  header: ["date", "payee", "memo", "amount"],
+  dateColumn: 0,
+  amountColumn: 3,
+  counterpartyColumn: 1,
+  descriptionColumn: 2,
+  currency: "USD",
+  dateFormat: "YYYY-MM-DD",
+  decimalSeparator: ".",
+  thousandSeparator: ",",
+};
+
+const noProgress = () => {};
+
+describe("detectBank", () => {
+  it("recognizes a Nordea export from its content", () => {
+    const detection = detectBank(NORDEA_CSV);
+    expect(detection.formatId).toBe("Nordea");
+    expect(detection.ambiguous).toBe(false);
+  });
+
+  it("finds the ING header below the metadata lines", () => {
+    const detection = detectBank(ING_CSV);
+    expect(detection.formatId).toBe("ING");
+    expect(detection.ambiguous).toBe(false);
+  });
+
+  it("flags an unknown layout as ambiguous", () => {
+    expect(detectBank(CUSTOM_CSV).ambiguous).toBe(true);
+  });
+
+  it("scores saved bank profiles next to the built-in banks", () => {
+    const detection = detectBank(CUSTOM_CSV, [customProfile]);
+    expect(detection.formatId).toBe("profile-1");
+    expect(detection.ambiguous).toBe(false);
+  });
+});
+
+describe("parseImportFile", () => {
+  it("reads built-in exports and takes categories from the analyzer", async () => {
+    const output: AnalyzerOutput = {
+      monthlyExpenses: [
+        {
+          month: "2025-03",
+          sum: "21.4 euros",
+          categories: {
+            food: {
+              amount: 21.4,
+              percentage: 100,
+              transactions: {
+                a: "spent 12.5 euros in K-Market Kamppi on Sun Mar 02 2025",
+                b: "spent 8.9 euros in Alepa Toolo on Mon Mar 03 2025",
+              },
+            },
+          },
+        },
+      ],
+    };
+    const result = await parseImportFile(
+      { fileName: "renamed.csv", text: NORDEA_CSV, formatId: "Nordea" },
+      async () => output,
+      noProgress
+    );
+
+    expect(result.bank).toBe("Nordea");
+    expect(result.transactions.map((t) => [t.date, t.amount, t.merchant, t.category])).toEqual([
+      ["2025-03-02", -12.5, "K-Market Kamppi", "food"],
+      ["2025-03-03", -8.9, "Alepa Toolo", "food"],
+      ["2025-03-25", 2500, "Employer Oy", "other"],
+    ]);
+  });
+
+  it("matches analyzer categories on merchant when date and amount are shared", async () => {
+    const text = [
+      "Kirjauspäivä;Määrä;Maksaja;Maksunsaaja;Nimi;Otsikko;Viitenumero;Valuutta",
+      "2025/03/02;-10,00;Me;x;Pharmacy on Main;Ostos;;EUR",
+      "2025/03/02;-10,00;Me;x;Cinema in Town;Ostos;;EUR",
+      "2025/03/02;-10,00;Me;x;Unknown Shop;Ostos;;EUR",
+    ].join("\n");
+    const line = (merchant: string) => `spent 10 euros in ${merchant} on Sun Mar 02 2025`;
+    const output: AnalyzerOutput = {
+      monthlyExpenses: [
+        {
+          month: "2025-03",
+          sum: "30 euros",
+          categories: {
+            sportEatFun: { amount: 10, percentage: 33, transactions: { a: line("Cinema in Town") } },
+            health: { amount: 10, percentage: 33, transactions: { b: line("Pharmacy on Main") } },
+            food: { amount: 10, percentage: 33, transactions: { c: line("Corner Shop") } },
+          },
+        },
+      ],
+    };
+    const result = await parseImportFile(
+      { fileName: "nordea.csv", text, formatId: "Nordea" },
+      async () => output,
+      noProgress
+    );
+
+    // The unknown shop takes the only line left over for its date and amount.
+    expect(result.transactions.map((t) => t.category)).toEqual(["health", "sportEatFun", "food"]);
+  });
+
+  it("leaves a row uncategorized when the leftover lines disagree", async () => {
+    const text = [
+      "Kirjauspäivä;Määrä;Maksaja;Maksunsaaja;Nimi;Otsikko;Viitenumero;Valuutta",
+      "2025/03/02;-10,00;Me;x;Shop A;Ostos;;EUR",
+    ].join("\n");
+    const output: AnalyzerOutput = {
+      monthlyExpenses: [
+        {
+          month: "2025-03",
+          sum: "20 euros",
+          categories: {
+            food: { amount: 10, percentage: 50, transactions: { a: "spent 10 euros in Shop B on Sun Mar 02 2025" } },
+            health: { amount: 10, percentage: 50, transactions: { b: "spent 10 euros in Shop C on Sun Mar 02 2025" } },
+          },
+        },
+      ],
+    };
+    const result = await parseImportFile(
+      { fileName: "nordea.csv", text, formatId: "Nordea" },
+      async () => output,
+      noProgress
+    );
+
+    expect(result.transactions[0].category).toBe("other");
+  });
+
+  it("reads other banks through their profile without the analyzer", async () => {
+    const result = await parseImportFile(
+      { fileName: "cu.csv", text: CUSTOM_CSV, formatId: customProfile.id, profile: customProfile },
+      () => Promise.reject(new Error("not called")),
+      noProgress
+    );
+
+    expect(result.bank).toBe("My Credit Union");
+    expect(result.transactions).toHaveLength(2);
+    expect(result.transactions[0]).toMatchObject({ amount: -4.5, currency: "USD", merchant: "Coffee Shop", category: "other" });
+  });
+
+  it("gives identical rows in one file distinct, stable ids", async () => {
+    const text = [CUSTOM_CSV, "2025-03-01,Coffee Shop,Latte,-4.50"].join("\n");
+    const job = { fileName: "cu.csv", text, formatId: customProfile.id, profile: customProfile };
+    const first = await parseImportFile(job, () => Promise.reject(new Error("not called")), noProgress);
+    const again = await parseImportFile(job, () => Promise.reject(new Error("not called")), noProgress);
+
+    expect(new Set(first.transactions.map((t) => t.id)).size).toBe(3);
+    expect(again.transactions.map((t) => t.id)).toEqual(first.transactions.map((t) => t.id));
+  });
+
+  it("rejects a file without readable rows", async () => {
+    await expect(
+      parseImportFile(
+        { fileName: "empty.csv", text: "Date,Payee,Memo,Amount\n", formatId: customProfile.id, profile: customProfile },
+        () => Promise.reject(new Error("not called")),
+        noProgress
+      )
+    ).rejects.toThrow(/No transactions could be read from empty.csv/);
+  });
+});
+
+describe("guessBankProfile", () => {
+  it("prefills the column mapping from the sniffed format", () => {
+    expect(guessBankProfile(CUSTOM_CSV)).toMatchObject({
+      delimiter: ",",
+      headerRowIndex: 0,
+      dateColumn: 0,
+      amountColumn: 3,
+      counterpartyColumn: 1,
+      descriptionColumn: 2,
+      dateFormat: "YYYY-MM-DD",
+      decimalSeparator: ".",
+      thousandSeparator: ",",
+    });
+  });
+});
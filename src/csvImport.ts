@@ -0,0 +1,655 @@
+/**
+ * CSV import: bank format detection, parsing through bank profiles and conversion to transactions.
+ * Kept free of DOM and React so it runs both in the UI and in the import worker (`importWorker.ts`).
+ */
+
+// -------------------- Types --------------------
+export type BankName = "Nordea" | "ING" | "Commerzbank";
+
+/**
+ * One booked bank transaction as parsed from an export, which is also how imports are stored.
+ * Negative amounts are money going out. The UI derives more fields per view (see `analysis.ts`).
+ */
+export type Transaction = {
+  /** Stable across re-imports of the same bank export (see `transactionId`). */
+  id: string;
+  /** ISO date `YYYY-MM-DD`. */
+  date: string;
+  amount: number;
+  currency: string;
+  merchant: string;
+  /** Free-text description/message as exported by the bank. */
+  description: string;
+  category: string;
+  sourceFile: string;
+  /** Built-in bank name or the name of the bank profile the file was read with. */
+  bank: string;
+  reference?: string;
+};
+
+/** Raw output of `TransactionAnalyzer.analyzeCsvContent`; only used to pick up its categories. */
+export type AnalyzerOutput = {
+  averageMonthExpenses?: string;
+  monthlyExpenses?: {
+    month: string;
+    sum: string;
+    categories?: Record<string, { amount: number; percentage: number; transactions?: Record<string, string> }>;
+  }[];
+};
+
+export type CsvDelimiter = ";" | "," | "\t";
+export type DateFormat = "YYYY-MM-DD" | "YYYY/MM/DD" | "DD.MM.YYYY" | "DD/MM/YYYY" | "MM/DD/YYYY";
+export type DecimalSeparator = "," | ".";
+export type ThousandSeparator = "" | "." | "," | " ";
+
+/**
+ * A user-defined CSV layout for a bank the analyzer doesn't support.
+ * Column fields are indexes into the header row; `descriptionColumn` is -1 when unused.
+ */
+export type BankProfile = {
+  id: string;
+  name: string;
+  delimiter: CsvDelimiter;
+  headerRowIndex: number;
+  /** Lowercased header row, used to recognize further exports of the same bank. */
+  header: string[];
+  dateColumn: number;
+  amountColumn: number;
+  counterpartyColumn: number;
+  descriptionColumn: number;
+  currencyColumn?: number;
+  /** Currency of every row when the export has no currency column. */
+  currency?: string;
+  referenceColumn?: number;
+  dateFormat: DateFormat;
+  decimalSeparator: DecimalSeparator;
+  thousandSeparator: ThousandSeparator;
+};
+
+/** A row read from a CSV file through a bank profile. Negative amounts are money going out. */
+type ParsedCsvRow = {
+  date: string;
+  amount: number;
+  counterparty: string;
+  description: string;
+  currency: string;
+  reference: string;
+};
+
+/**
+ * What we know about a bank's CSV export, used to recognize it by content.
+ * `id` is the `BankName` for built-in banks and the profile id for user-defined ones.
+ */
+type BankSignature = {
+  id: string;
+  label: string;
+  /** Alternative header rows (e.g. per export language), lowercased. */
+  headerVariants: string[][];
+  delimiter: CsvDelimiter;
+  dateFormat: DateFormat;
+  decimalSeparator: DecimalSeparator;
+};
+
+/** Format properties sniffed from the first lines of a CSV file. */
+type CsvSniffResult = {
+  delimiter: CsvDelimiter;
+  headerRowIndex: number;
+  header: string[];
+  dateFormat: DateFormat | null;
+  decimalSeparator: DecimalSeparator | null;
+};
+
+/** A file's content with the bank format to read it with. `profile` is required for non-built-in formats. */
+export type ImportSource = {
+  fileName: string;
+  text: string;
+  /** Built-in `BankName` or the id of a saved `BankProfile`. */
+  formatId: string;
+  profile?: BankProfile;
+};
+
+/**
+ * One job for the import worker, which reads the file itself: sniff its bank format, or parse it
+ * with the confirmed format.
+ */
+export type ImportJob =
+  | { jobId: number; type: "detect"; fileName: string; file: Blob; profiles: BankProfile[] }
+  | ({ jobId: number; type: "parse"; file: Blob } & Omit<ImportSource, "text">);
+
+/** Messages the import worker posts back; `progress` is in [0, 1]. */
+export type ImportWorkerMessage =
+  | { jobId: number; type: "progress"; progress: number }
+  | { jobId: number; type: "detected"; detection: BankDetection }
+  | { jobId: number; type: "done"; bank: string; transactions: Transaction[] }
+  | { jobId: number; type: "error"; message: string };
+
+export type BankDetection = {
+  formatId: string;
+  /** Score per known bank format in [0, 1], best first. */
+  scores: { id: string; label: string; score: number }[];
+  /** True when the user should confirm the format before analysis. */
+  ambiguous: boolean;
+};
+
+// -------------------- Helpers (pure) --------------------
+const BANK_SIGNATURES: BankSignature[] = [
+  {
+    id: "Nordea",
+    label: "Nordea",
+    headerVariants: [
+      ["kirjauspäivä", "määrä", "maksaja", "maksunsaaja", "nimi", "otsikko", "viitenumero", "valuutta"],
+      ["booking date", "amount", "sender", "recipient", "name", "title", "reference number", "currency"],
+    ],
+    delimiter: ";",
+    dateFormat: "YYYY/MM/DD",
+    decimalSeparator: ",",
+  },
+  {
+    id: "ING",
+    label: "ING",
+    headerVariants: [
+      ["buchung", "wertstellungsdatum", "auftraggeber/empfänger", "buchungstext", "verwendungszweck", "saldo", "währung", "betrag", "währung"],
+      ["buchung", "valuta", "auftraggeber/empfänger", "buchungstext", "verwendungszweck", "saldo", "währung", "betrag", "währung"],
+    ],
+    delimiter: ";",
+    dateFormat: "DD.MM.YYYY",
+    decimalSeparator: ",",
+  },
+  {
+    id: "Commerzbank",
+    label: "Commerzbank",
+    headerVariants: [
+      ["buchungstag", "wertstellung", "umsatzart", "buchungstext", "betrag", "währung", "auftraggeberkonto", "bankleitzahl auftraggeberkonto", "iban auftraggeberkonto", "kategorie"],
+    ],
+    delimiter: ";",
+    dateFormat: "DD.MM.YYYY",
+    decimalSeparator: ",",
+  },
+];
+
+const BUILT_IN_BANKS: BankName[] = ["Nordea", "ING", "Commerzbank"];
+
+/** Header names (lowercased alternatives) of the columns we read from the built-in banks' exports. */
+const BUILT_IN_COLUMNS: Record<
+  BankName,
+  Record<"date" | "amount" | "counterparty" | "description" | "currency" | "reference", string[]>
+> = {
+  Nordea: {
+    date: ["kirjauspäivä", "booking date"],
+    amount: ["määrä", "amount"],
+    counterparty: ["nimi", "name"],
+    description: ["otsikko", "title"],
+    currency: ["valuutta", "currency"],
+    reference: ["viitenumero", "reference number"],
+  },
+  ING: {
+    date: ["buchung"],
+    amount: ["betrag"],
+    counterparty: ["auftraggeber/empfänger"],
+    description: ["verwendungszweck"],
+    currency: ["währung"],
+    reference: [],
+  },
+  Commerzbank: {
+    date: ["buchungstag"],
+    amount: ["betrag"],
+    counterparty: ["buchungstext"],
+    description: ["umsatzart"],
+    currency: ["währung"],
+    reference: [],
+  },
+};
+
+const DATE_FORMAT_PATTERNS: Record<DateFormat, RegExp> = {
+  "YYYY-MM-DD": /^(\d{4})-(\d{2})-(\d{2})$/,
+  "YYYY/MM/DD": /^(\d{4})\/(\d{2})\/(\d{2})$/,
+  "DD.MM.YYYY": /^(\d{2})\.(\d{2})\.(\d{4})$/,
+  "DD/MM/YYYY": /^(\d{2})\/(\d{2})\/(\d{4})$/,
+  "MM/DD/YYYY": /^(\d{2})\/(\d{2})\/(\d{4})$/,
+};
+
+/** Minimum best score and lead over the runner-up for a detection to count as certain. */
+const DETECTION_MIN_SCORE = 0.6;
+const DETECTION_MIN_LEAD = 0.15;
+
+const PROGRESS_EVERY_LINES = 500;
+
+/** Split one CSV line on `delimiter`, honoring double-quoted cells. */
+export function splitCsvLine(line: string, delimiter: string): string[] {
+  const cells: string[] = [];
+  let current = "";
+  let quoted = false;
+
+  for (let i = 0; i < line.length; i += 1) {
+    const ch = line[i];
+    if (quoted) {
+      if (ch === '"' && line[i + 1] === '"') {
+        current += '"';
+        i += 1;
+      } else if (ch === '"') {
+        quoted = false;
+      } else {
+        current += ch;
+      }
+    } else if (ch === '"') {
+      quoted = true;
+    } else if (ch === delimiter) {
+      cells.push(current.trim());
+      current = "";
+    } else {
+      current += ch;
+    }
+  }
+  cells.push(current.trim());
+  return cells;
+}
+
+/** Split file content into non-empty lines (row indexes everywhere refer to these lines). */
+export function readCsvLines(text: string): string[] {
+  return text
+    .replace(/^\uFEFF/, "")
+    .split(/\r?\n/)
+    .filter((l) => l.trim() !== "");
+}
+
+/** Check whether `value` is a valid date in the given format (not just the right shape). */
+function matchesDateFormat(value: string, format: DateFormat): boolean {
+  const m = DATE_FORMAT_PATTERNS[format].exec(value);
+  if (!m) return false;
+  const [a, b, c] = [Number(m[1]), Number(m[2]), Number(m[3])];
+  switch (format) {
+    case "YYYY-MM-DD":
+    case "YYYY/MM/DD":
+      return b >= 1 && b <= 12 && c >= 1 && c <= 31;
+    case "MM/DD/YYYY":
+      return a >= 1 && a <= 12 && b >= 1 && b <= 31;
+    default:
+      return b >= 1 && b <= 12 && a >= 1 && a <= 31;
+  }
+}
+
+/** Guess the decimal separator of an amount-looking cell, or null if it isn't one. */
+function detectDecimalSeparator(value: string): DecimalSeparator | null {
+  const v = value.replace(/^[+-]/, "");
+  if (/^\d{1,3}(?:[.\s\u00A0]\d{3})*,\d{1,2}$/.test(v) || /^\d+,\d{1,2}$/.test(v)) return ",";
+  if (/^\d{1,3}(?:[,\s\u00A0]\d{3})*\.\d{1,2}$/.test(v) || /^\d+\.\d{1,2}$/.test(v)) return ".";
+  return null;
+}
+
+/** Pick the key with the highest count, or null when nothing was counted. */
+function pickMostFrequent<K extends string>(counts: Partial<Record<K, number>>): K | null {
+  let best: K | null = null;
+  let bestCount = 0;
+  for (const [key, count] of Object.entries(counts) as [K, number][]) {
+    if (count > bestCount) {
+      best = key;
+      bestCount = count;
+    }
+  }
+  return best;
+}
+
+/** Most common column count among `rows` (ties go to the wider layout) and how many rows have it. */
+function modalColumnCount(rows: string[][]): { columns: number; lineCount: number } {
+  const frequency: Record<number, number> = {};
+  for (const r of rows) frequency[r.length] = (frequency[r.length] ?? 0) + 1;
+  const [columns, lineCount] = Object.entries(frequency)
+    .map(([c, f]) => [Number(c), f] as const)
+    .sort((a, b) => b[1] - a[1] || b[0] - a[0])[0] ?? [0, 0];
+  return { columns, lineCount };
+}
+
+/**
+ * Sniff delimiter, header row, date format and decimal separator from the start of a CSV file.
+ * Exports like ING's start with a few metadata lines, so the header is the first line that has
+ * the file's typical column count.
+ */
+function sniffCsv(text: string, maxLines = 40): CsvSniffResult {
+  const lines = readCsvLines(text).slice(0, maxLines);
+
+  const delimiters: CsvDelimiter[] = [";", ",", "\t"];
+  let delimiter: CsvDelimiter = ";";
+  let bestScore = 0;
+  for (const d of delimiters) {
+    const { columns, lineCount } = modalColumnCount(lines.map((l) => splitCsvLine(l, d)));
+    // Prefer the delimiter that splits most lines into the same (and larger) number of columns.
+    if (columns > 1 && columns * lineCount > bestScore) {
+      bestScore = columns * lineCount;
+      delimiter = d;
+    }
+  }
+
+  const rows = lines.map((l) => splitCsvLine(l, delimiter));
+  const typicalColumns = modalColumnCount(rows).columns;
+  const headerRowIndex = Math.max(
+    0,
+    rows.findIndex(
+      (r) => r.length === typicalColumns && r.every((cell) => !detectDecimalSeparator(cell) && !/\d{2}[./-]\d{2}/.test(cell))
+    )
+  );
+
+  const dateCounts: Partial<Record<DateFormat, number>> = {};
+  const decimalCounts: Partial<Record<DecimalSeparator, number>> = {};
+  for (const row of rows.slice(headerRowIndex + 1)) {
+    for (const cell of row) {
+      for (const format of Object.keys(DATE_FORMAT_PATTERNS) as DateFormat[]) {
+        if (matchesDateFormat(cell, format)) dateCounts[format] = (dateCounts[format] ?? 0) + 1;
+      }
+      const sep = detectDecimalSeparator(cell);
+      if (sep) decimalCounts[sep] = (decimalCounts[sep] ?? 0) + 1;
+    }
+  }
+
+  return {
+    delimiter,
+    headerRowIndex,
+    header: (rows[headerRowIndex] ?? []).map((h) => h.toLowerCase()),
+    dateFormat: pickMostFrequent(dateCounts),
+    decimalSeparator: pickMostFrequent(decimalCounts),
+  };
+}
+
+/** Score how well a sniffed file matches a bank signature, in [0, 1]. Header names weigh the most. */
+function scoreBankSignature(sniff: CsvSniffResult, signature: BankSignature): number {
+  const headerScore = Math.max(
+    ...signature.headerVariants.map((variant) => {
+      const matched = variant.filter((col) => sniff.header.includes(col)).length;
+      // Penalize extra columns the bank never exports, so supersets don't score 100%.
+      return matched / Math.max(variant.length, sniff.header.length);
+    })
+  );
+
+  return (
+    headerScore * 0.6 +
+    (sniff.delimiter === signature.delimiter ? 0.15 : 0) +
+    (sniff.dateFormat === signature.dateFormat ? 0.15 : 0) +
+    (sniff.decimalSeparator === signature.decimalSeparator ? 0.1 : 0)
+  );
+}
+
+/** Describe a saved bank profile as a signature so it competes with the built-in banks. */
+function profileSignature(profile: BankProfile): BankSignature {
+  return {
+    id: profile.id,
+    label: profile.name,
+    headerVariants: [profile.header],
+    delimiter: profile.delimiter,
+    dateFormat: profile.dateFormat,
+    decimalSeparator: profile.decimalSeparator,
+  };
+}
+
+export function isBuiltInBank(formatId: string): formatId is BankName {
+  return (BUILT_IN_BANKS as string[]).includes(formatId);
+}
+
+/**
+ * Detect the bank of a CSV export from its content and report whether the guess is ambiguous.
+ * Saved bank profiles are scored next to the built-in banks.
+ */
+export function detectBank(text: string, profiles: BankProfile[] = []): BankDetection {
+  const sniff = sniffCsv(text);
+  const signatures = [...BANK_SIGNATURES, ...profiles.map(profileSignature)];
+  const scores = signatures
+    .map((s) => ({ id: s.id, label: s.label, score: scoreBankSignature(sniff, s) }))
+    .sort((a, b) => b.score - a.score);
+  const [best, second] = scores;
+
+  return {
+    formatId: best.id,
+    scores,
+    ambiguous: best.score < DETECTION_MIN_SCORE || best.score - (second?.score ?? 0) < DETECTION_MIN_LEAD,
+  };
+}
+
+/** Convert a date cell in the given format to an ISO `YYYY-MM-DD` string, or null if invalid. */
+export function parseDateValue(value: string, format: DateFormat): string | null {
+  if (!matchesDateFormat(value.trim(), format)) return null;
+  const m = DATE_FORMAT_PATTERNS[format].exec(value.trim());
+  if (!m) return null;
+  const [year, month, day] =
+    format === "YYYY-MM-DD" || format === "YYYY/MM/DD"
+      ? [m[1], m[2], m[3]]
+      : format === "MM/DD/YYYY"
+        ? [m[3], m[1], m[2]]
+        : [m[3], m[2], m[1]];
+  return `${year}-${month}-${day}`;
+}
+
+/** Parse an amount cell like "-1.234,56" using the given separators. Returns null if not a number. */
+export function parseAmountValue(
+  value: string,
+  decimalSeparator: DecimalSeparator,
+  thousandSeparator: ThousandSeparator
+): number | null {
+  let v = value.replace(/[\s\u00A0]/g, "");
+  if (thousandSeparator && thousandSeparator !== " ") v = v.split(thousandSeparator).join("");
+  if (decimalSeparator === ",") v = v.replace(",", ".");
+  // Some banks put the sign at the end ("12.34-").
+  if (/^\d+(?:\.\d+)?-$/.test(v)) v = `-${v.slice(0, -1)}`;
+  if (!/^[+-]?\d+(?:\.\d+)?$/.test(v)) return null;
+  return Number(v);
+}
+
+/**
+ * Read all data rows of a CSV file through a bank profile. Rows that don't parse are skipped.
+ * `onProgress` receives the fraction of lines read, every `PROGRESS_EVERY_LINES` lines.
+ */
+function parseCsvWithProfile(
+  text: string,
+  profile: BankProfile,
+  onProgress?: (fraction: number) => void
+): ParsedCsvRow[] {
+  const rows: ParsedCsvRow[] = [];
+  const lines = readCsvLines(text).slice(profile.headerRowIndex + 1);
+  for (const [i, line] of lines.entries()) {
+    if (onProgress && i % PROGRESS_EVERY_LINES === 0) onProgress(i / lines.length);
+    const cells = splitCsvLine(line, profile.delimiter);
+    const date = parseDateValue(cells[profile.dateColumn] ?? "", profile.dateFormat);
+    const amount = parseAmountValue(cells[profile.amountColumn] ?? "", profile.decimalSeparator, profile.thousandSeparator);
+    if (!date || amount === null) continue;
+    rows.push({
+      date,
+      amount,
+      counterparty: (cells[profile.counterpartyColumn] ?? "").replace(/\s+/g, " ").trim(),
+      description: profile.descriptionColumn >= 0 ? (cells[profile.descriptionColumn] ?? "").trim() : "",
+      currency: (cells[profile.currencyColumn ?? -1] ?? "").trim().toUpperCase() || profile.currency || "EUR",
+      reference: (cells[profile.referenceColumn ?? -1] ?? "").trim(),
+    });
+  }
+  return rows;
+}
+
+/**
+ * Resolve a built-in bank's column layout against the header of an actual export.
+ * The currency column is looked up from the end, since ING has one for the balance and one for the amount.
+ */
+function builtInBankProfile(text: string, bank: BankName): BankProfile {
+  const sniff = sniffCsv(text);
+  const columns = BUILT_IN_COLUMNS[bank];
+  const find = (names: string[]) => sniff.header.findIndex((h) => names.includes(h));
+  const signature = BANK_SIGNATURES.find((s) => s.id === bank);
+
+  return {
+    id: bank,
+    name: bank,
+    delimiter: sniff.delimiter,
+    headerRowIndex: sniff.headerRowIndex,
+    header: sniff.header,
+    dateColumn: find(columns.date),
+    amountColumn: find(columns.amount),
+    counterpartyColumn: find(columns.counterparty),
+    descriptionColumn: find(columns.description),
+    currencyColumn: Math.max(...columns.currency.map((name) => sniff.header.lastIndexOf(name)), -1),
+    referenceColumn: find(columns.reference),
+    dateFormat: signature?.dateFormat ?? sniff.dateFormat ?? "YYYY-MM-DD",
+    decimalSeparator: signature?.decimalSeparator ?? sniff.decimalSeparator ?? ".",
+    thousandSeparator: ".",
+  };
+}
+
+/** Format a `Date` as a local ISO date `YYYY-MM-DD`. */
+function toIsoDate(d: Date): string {
+  const pad = (n: number) => String(n).padStart(2, "0");
+  return `${d.getFullYear()}-${pad(d.getMonth() + 1)}-${pad(d.getDate())}`;
+}
+
+/**
+ * Parse amount, merchant and date from analyzer summary lines like:
+ * "spent 28.33 euros in Paytrail Oyj DNA Oyj Mobiilipa on Tue Dec 09 2025"
+ * The date is anchored at the end, so merchants containing " in " or " on " stay whole.
+ */
+function parseSummaryLine(line: string): { amount: number; merchant: string; date: string | null } | null {
+  const m = /^\s*spent\s+(-?\d+(?:\.\d+)?)\s+euros?\s+in\s+(.+?)(?:\s+on\s+(\w{3}\s+\w{3}\s+\d{1,2}\s+\d{4}))?\s*$/i.exec(line);
+  if (!m) return null;
+  const parsedDate = m[3] ? new Date(m[3]) : null;
+  return {
+    amount: Number(m[1]),
+    merchant: normalizeSummaryMerchant(m[2]),
+    date: parsedDate && !Number.isNaN(parsedDate.getTime()) ? toIsoDate(parsedDate) : null,
+  };
+}
+
+function normalizeSummaryMerchant(name: string): string {
+  return name.replace(/\s+/g, " ").trim().toLowerCase();
+}
+
+/**
+ * Pick the analyzer's category for every parsed row. The analyzer reports transactions only as
+ * summary lines, so rows are matched on date, amount and merchant. A row whose merchant isn't in
+ * any line takes the category of the remaining lines with its date and amount, but only when they
+ * all agree; otherwise, and without any match, it falls back to "other" instead of guessing.
+ */
+function categorizeFromAnalyzer(rows: ParsedCsvRow[], output: AnalyzerOutput): string[] {
+  const byDateAmount: Record<string, { category: string; merchant: string; used: boolean }[]> = {};
+  for (const m of output.monthlyExpenses ?? []) {
+    for (const [category, info] of Object.entries(m.categories ?? {})) {
+      for (const [key, line] of Object.entries(info.transactions ?? {})) {
+        // Skip synthesized rows
+        if (key === "on average" || typeof line !== "string") continue;
+        const parsed = parseSummaryLine(line);
+        if (!parsed?.date) continue;
+        const matchKey = `${parsed.date}|${Math.abs(parsed.amount).toFixed(2)}`;
+        (byDateAmount[matchKey] ??= []).push({ category, merchant: parsed.merchant, used: false });
+      }
+    }
+  }
+
+  const keys = rows.map((row) => `${row.date}|${Math.abs(row.amount).toFixed(2)}`);
+  const categories = rows.map((row, i) => {
+    const exact = byDateAmount[keys[i]]?.find((c) => !c.used && c.merchant === normalizeSummaryMerchant(row.counterparty));
+    if (!exact) return null;
+    exact.used = true;
+    return exact.category;
+  });
+  // Exact matches go first, so a row without one can't take a line that belongs to another row.
+  return categories.map((category, i) => {
+    if (category) return category;
+    const left = (byDateAmount[keys[i]] ?? []).filter((c) => !c.used);
+    if (!left.length || left.some((c) => c.category !== left[0].category)) return "other";
+    left[0].used = true;
+    return left[0].category;
+  });
+}
+
+/**
+ * Stable transaction id: bank + date + amount + merchant, plus a counter for identical rows in one file.
+ * Re-importing the same bank export yields the same ids.
+ */
+function transactionId(bank: string, row: ParsedCsvRow, occurrence: number): string {
+  return `${bank}|${row.date}|${row.amount.toFixed(2)}|${row.counterparty.toLowerCase()}|${occurrence}`;
+}
+
+/** Turn parsed rows of one file into transactions. `categories` is aligned with `rows`. */
+function toTransactions(
+  rows: ParsedCsvRow[],
+  source: { sourceFile: string; bank: string },
+  categories?: string[]
+): Transaction[] {
+  const seen: Record<string, number> = {};
+  return rows.map((row, i) => {
+    const baseId = transactionId(source.bank, row, 0);
+    const occurrence = seen[baseId] ?? 0;
+    seen[baseId] = occurrence + 1;
+
+    return {
+      id: occurrence ? transactionId(source.bank, row, occurrence) : baseId,
+      date: row.date,
+      amount: row.amount,
+      currency: row.currency,
+      merchant: row.counterparty || row.description || "Unknown",
+      description: row.description,
+      category: categories?.[i] ?? "other",
+      sourceFile: source.sourceFile,
+      bank: source.bank,
+      ...(row.reference ? { reference: row.reference } : {}),
+    };
+  });
+}
+
+/**
+ * Prefill a bank profile for a file from its sniffed format: the first columns holding a date and
+ * an amount, and a counterparty column picked by common header names.
+ */
+export function guessBankProfile(text: string): Omit<BankProfile, "id" | "name"> {
+  const sniff = sniffCsv(text);
+  const lines = readCsvLines(text);
+  const header = sniff.header;
+  const firstRow = splitCsvLine(lines[sniff.headerRowIndex + 1] ?? "", sniff.delimiter);
+  const dateFormat = sniff.dateFormat ?? "YYYY-MM-DD";
+  const decimalSeparator = sniff.decimalSeparator ?? ".";
+
+  const dateColumn = Math.max(0, firstRow.findIndex((c) => matchesDateFormat(c, dateFormat)));
+  const amountColumn = Math.max(0, firstRow.findIndex((c) => detectDecimalSeparator(c) !== null));
+  const counterpartyColumn = Math.max(
+    0,
+    header.findIndex((h) => /name|payee|recipient|counterparty|merchant|empfänger|nimi|saaja/.test(h))
+  );
+  const descriptionColumn = header.findIndex(
+    (h, i) => i !== counterpartyColumn && /description|memo|message|purpose|verwendungszweck|viesti|otsikko/.test(h)
+  );
+
+  return {
+    delimiter: sniff.delimiter,
+    headerRowIndex: sniff.headerRowIndex,
+    header,
+    dateColumn,
+    amountColumn,
+    counterpartyColumn,
+    descriptionColumn,
+    dateFormat,
+    decimalSeparator,
+    thousandSeparator: decimalSeparator === "," ? "." : ",",
+  };
+}
+
+/**
+ * Parse one file into transactions. Built-in banks are categorized through `analyze`
+ * (the analyzer package); other banks start out as "other". Throws when the file has no readable rows.
+ */
+export async function parseImportFile(
+  job: ImportSource,
+  analyze: (text: string, bank: BankName) => Promise<AnalyzerOutput>,
+  onProgress: (fraction: number) => void
+): Promise<{ bank: string; transactions: Transaction[] }> {
+  const source = { sourceFile: job.fileName };
+  const builtInBank = isBuiltInBank(job.formatId) ? job.formatId : null;
+  const profile = builtInBank ? builtInBankProfile(job.text, builtInBank) : job.profile;
+  if (!profile) throw new Error(`Bank profile for ${job.fileName} no longer exists.`);
+
+  // Reading rows is most of the work for profiles; for built-in banks the analyzer takes the second half.
+  const rows = parseCsvWithProfile(job.text, profile, (f) => onProgress(builtInBank ? f / 2 : f));
+  if (!rows.length) throw new Error(`No transactions could be read from ${job.fileName}. Check the bank format.`);
+
+  if (!builtInBank) {
+    onProgress(1);
+    return { bank: profile.name, transactions: toTransactions(rows, { ...source, bank: profile.name }) };
+  }
+  onProgress(0.5);
+  const output = await analyze(job.text, builtInBank);
+  onProgress(1);
+  return {
+    bank: builtInBank,
+    transactions: toTransactions(rows, { ...source, bank: builtInBank }, categorizeFromAnalyzer(rows, output)),
+  };
+}
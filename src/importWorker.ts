@@ -0,0 +1,31 @@
+/**
+ * Import worker: reads one CSV file per message and sniffs its bank format or parses it, so large
+ * exports don't block the UI. Started by the worker pool in `App.tsx`; one job runs at a time per worker.
+ */
+import { TransactionAnalyzer } from "transaction-analyzer";
+import { detectBank, parseImportFile, type AnalyzerOutput, type ImportJob, type ImportWorkerMessage } from "./csvImport.ts";
+
+const analyzer = new TransactionAnalyzer();
+
+function post(message: ImportWorkerMessage) {
+  self.postMessage(message);
+}
+
+self.onmessage = async (event: MessageEvent<ImportJob>) => {
+  const job = event.data;
+  try {
+    const content = await job.file.text();
+    if (job.type === "detect") {
+      post({ jobId: job.jobId, type: "detected", detection: detectBank(content, job.profiles) });
+      return;
+    }
+    const result = await parseImportFile(
+      { fileName: job.fileName, text: content, formatId: job.formatId, profile: job.profile },
+      async (text, bank) => (await analyzer.analyzeCsvContent(text, bank)) as AnalyzerOutput,
+      (progress) => post({ jobId: job.jobId, type: "progress", progress })
+    );
+    post({ jobId: job.jobId, type: "done", ...result });
+  } catch (err) {
+    post({ jobId: job.jobId, type: "error", message: err instanceof Error ? err.message : String(err) });
+  }
+};
@@ -0,0 +1,86 @@
+import { describe, expect, it } from "vitest";
+import type { ImportRecord } from "./analysis.ts";
+import { buildWorkspaceFile, defaultSettings, parseWorkspaceFile } from "./storage.ts";
+
+const record: ImportRecord = {
+  id: "imp-1",
+  fileName: "nordea.csv",
+  bank: "Nordea",
+  importedAt: "2025-04-01T00:00:00Z",
+  account: "Checking",
+  transactions: [
+    {
+      id: "t1",
+      date: "2025-03-01",
+      amount: -12.5,
+      currency: "EUR",
+      merchant: "Cafe",
+      description: "Card purchase",
+      category: "food",
+      sourceFile: "nordea.csv",
+      bank: "Nordea",
+    },
+  ],
+};
+
+describe("parseWorkspaceFile", () => {
+  it("reads back a saved workspace", () => {
+    const settings = { ...defaultSettings(), reportingCurrency: "SEK", tagFilter: "trip" };
+    const file = parseWorkspaceFile(buildWorkspaceFile([record], settings));
+
+    expect(file.imports).toEqual([record]);
+    expect(file.settings).toEqual(settings);
+  });
+
+  it("drops fields the app derives from the settings", () => {
+    const saved = JSON.parse(buildWorkspaceFile([record], defaultSettings()));
+    saved.imports[0].transactions[0] = { ...saved.imports[0].transactions[0], transferId: "x", tags: ["trip"] };
+
+    expect(parseWorkspaceFile(JSON.stringify(saved)).imports[0].transactions).toEqual(record.transactions);
+  });
+
+  it("upgrades a version 1 file to a date-range period", () => {
+    const v1 = { format: "transaction-analyzer-workspace", version: 1, imports: [], settings: { breakdownMode: "year" } };
+    expect(parseWorkspaceFile(JSON.stringify(v1)).settings.period).toEqual({ preset: "all", anchor: "", from: "", to: "" });
+  });
+
+  it("rejects files that aren't workspaces or come from a newer app", () => {
+    expect(() => parseWorkspaceFile("{")).toThrow(/not valid JSON/);
+    expect(() => parseWorkspaceFile(JSON.stringify({ format: "other" }))).toThrow(/not a Transaction Analyzer workspace/);
+    expect(() => parseWorkspaceFile(JSON.stringify({ format: "transaction-analyzer-workspace", version: 99 }))).toThrow(
+      /newer version/
+    );
+  });
+
+  it("lists what is wrong, with paths into the file", () => {
+    const saved = JSON.parse(buildWorkspaceFile([record], defaultSettings()));
+    saved.imports[0].transactions[0].date = "01.03.2025";
+    saved.settings.reportingCurrency = "euro";
+
+    expect(() => parseWorkspaceFile(JSON.stringify(saved))).toThrow(
+      [
+        "The workspace file is damaged or incomplete:",
+        "- imports[0].transactions[0].date: expected YYYY-MM-DD",
+        "- settings.reportingCurrency: expected a currency code like EUR",
+      ].join("\n")
+    );
+    expect(() => parseWorkspaceFile(buildWorkspaceFile([record, record], defaultSettings()))).toThrow(
+      'imports: the import id "imp-1" appears twice'
+    );
+  });
+
+  it("rejects budgets, bank profiles and categories of the wrong shape", () => {
+    const saved = JSON.parse(buildWorkspaceFile([], defaultSettings()));
+    saved.settings.budgets = { food: {} };
+    saved.settings.bankProfiles = [{ id: "p", name: "My bank", header: ["date"], dateColumn: "A" }];
+    saved.settings.taxonomy.categories.push({ key: "pets" });
+
+    expect(() => parseWorkspaceFile(JSON.stringify(saved))).toThrow(
+      [
+        "- settings.bankProfiles: expected a list of bank profiles with a header, column numbers, a delimiter and number formats",
+        "- settings.taxonomy: expected categories with a key and a label, and merged categories",
+        "- settings.budgets: expected a map of category budgets, each with a monthly amount (or null) and amounts per month",
+      ].join("\n")
+    );
+  });
+});
@@ -0,0 +1,462 @@
+/**
+ * Persistence: IndexedDB storage of imports and settings, and the portable workspace file.
+ */
+import {
+  type Transaction,
+} from "./csvImport.ts";
+import {
+  buildDefaultTaxonomy,
+  PERIOD_PRESETS,
+  periodFromBreakdownMode,
+  type ImportRecord,
+  type StoredSettings,
+} from "./analysis.ts";
+
+// -------------------- Persistence (IndexedDB) --------------------
+const DB_NAME = "transaction-analyzer";
+const DB_VERSION = 1;
+const IMPORTS_STORE = "imports";
+const SETTINGS_STORE = "settings";
+
+/** localStorage keys used before settings moved to IndexedDB; read once to migrate them. */
+const LEGACY_STORAGE_KEYS: Partial<Record<keyof StoredSettings, string>> = {
+  bankProfiles: "transaction-analyzer:bank-profiles",
+  categoryRules: "transaction-analyzer:category-rules",
+  categoryOverrides: "transaction-analyzer:category-overrides",
+  taxonomy: "transaction-analyzer:category-taxonomy",
+};
+
+export function defaultSettings(): StoredSettings {
+  return {
+    bankProfiles: [],
+    categoryRules: [],
+    categoryOverrides: {},
+    taxonomy: buildDefaultTaxonomy(),
+    period: { preset: "month", anchor: "", from: "", to: "" },
+    comparePeriod: null,
+    transferDecisions: { confirmed: [], unlinked: [] },
+    budgets: {},
+    reportingCurrency: "EUR",
+    exchangeRates: [],
+    accountFilter: { account: "", owner: "" },
+    householdSplit: { sharedCategories: [], weights: {} },
+    tagRules: [],
+    annotations: {},
+    tagFilter: "",
+    splits: {},
+    merchantAliases: [],
+  };
+}
+
+let databasePromise: Promise<IDBDatabase> | null = null;
+
+/** Open (and on first use create) the app database. The connection is shared. */
+function openDatabase(): Promise<IDBDatabase> {
+  databasePromise ??= new Promise<IDBDatabase>((resolve, reject) => {
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+    request.onupgradeneeded = () => {
+      const db = request.result;
+      if (!db.objectStoreNames.contains(IMPORTS_STORE)) db.createObjectStore(IMPORTS_STORE, { keyPath: "id" });
+      if (!db.objectStoreNames.contains(SETTINGS_STORE)) db.createObjectStore(SETTINGS_STORE);
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error ?? new Error("Could not open the local database."));
+  }).catch((err) => {
+    // Allow a retry on the next call instead of caching the failure.
+    databasePromise = null;
+    throw err;
+  });
+  return databasePromise;
+}
+
+function requestToPromise<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error ?? new Error("Local database request failed."));
+  });
+}
+
+/** Run `fn` against one object store and resolve once the transaction has committed. */
+async function withStore<T>(
+  storeName: string,
+  mode: IDBTransactionMode,
+  fn: (store: IDBObjectStore) => IDBRequest<T> | void
+): Promise<T | undefined> {
+  const db = await openDatabase();
+  return new Promise((resolve, reject) => {
+    const tx = db.transaction(storeName, mode);
+    const request = fn(tx.objectStore(storeName));
+    let value: T | undefined;
+    if (request) requestToPromise(request).then((v) => (value = v), reject);
+    tx.oncomplete = () => resolve(value);
+    tx.onerror = () => reject(tx.error ?? new Error("Local database transaction failed."));
+    tx.onabort = () => reject(tx.error ?? new Error("Local database transaction was aborted."));
+  });
+}
+
+export async function loadImports(): Promise<ImportRecord[]> {
+  const records = (await withStore<ImportRecord[]>(IMPORTS_STORE, "readonly", (store) => store.getAll())) ?? [];
+  return records.sort((a, b) => a.importedAt.localeCompare(b.importedAt));
+}
+
+export async function saveImports(records: ImportRecord[]): Promise<void> {
+  await withStore(IMPORTS_STORE, "readwrite", (store) => {
+    for (const r of records) store.put(r);
+  });
+}
+
+export async function deleteImport(id: string): Promise<void> {
+  await withStore(IMPORTS_STORE, "readwrite", (store) => store.delete(id));
+}
+
+export async function clearImports(): Promise<void> {
+  await withStore(IMPORTS_STORE, "readwrite", (store) => store.clear());
+}
+
+export async function saveSetting<K extends keyof StoredSettings>(key: K, value: StoredSettings[K]): Promise<void> {
+  await withStore(SETTINGS_STORE, "readwrite", (store) => store.put(value, key));
+}
+
+/** Replace everything stored locally, e.g. with an opened workspace file. */
+export async function replaceWorkspace(imports: ImportRecord[], settings: StoredSettings): Promise<void> {
+  await clearImports();
+  await saveImports(imports);
+  await withStore(SETTINGS_STORE, "readwrite", (store) => {
+    for (const [key, value] of Object.entries(settings)) store.put(value, key);
+  });
+}
+
+/**
+ * Load all settings. Values still sitting in localStorage from older versions are moved over once.
+ */
+export async function loadSettings(): Promise<StoredSettings> {
+  const settings = defaultSettings();
+  const keys = Object.keys(settings) as (keyof StoredSettings)[];
+  const values = await Promise.all(
+    keys.map((key) => withStore<unknown>(SETTINGS_STORE, "readonly", (store) => store.get(key)))
+  );
+
+  const loaded: Record<string, unknown> = { ...settings };
+  for (const [i, key] of keys.entries()) {
+    const legacyKey = LEGACY_STORAGE_KEYS[key];
+    if (values[i] !== undefined) {
+      loaded[key] = values[i];
+    } else if (legacyKey && localStorage.getItem(legacyKey) !== null) {
+      try {
+        loaded[key] = JSON.parse(localStorage.getItem(legacyKey) ?? "null") ?? loaded[key];
+        await withStore(SETTINGS_STORE, "readwrite", (store) => store.put(loaded[key], key));
+        localStorage.removeItem(legacyKey);
+      } catch {
+        // Unreadable legacy value: keep the default.
+      }
+    }
+  }
+
+  // Before date ranges, the period was stored as a month/year switch plus a month.
+  if (values[keys.indexOf("period")] === undefined) {
+    const [mode, month] = await Promise.all(
+      ["breakdownMode", "selectedMonth"].map((key) => withStore<unknown>(SETTINGS_STORE, "readonly", (store) => store.get(key)))
+    );
+    if (mode !== undefined || month !== undefined) loaded.period = periodFromBreakdownMode(mode, month);
+  }
+  return loaded as StoredSettings;
+}
+
+// -------------------- Workspace file --------------------
+const WORKSPACE_FORMAT = "transaction-analyzer-workspace";
+const WORKSPACE_VERSION = 2;
+
+/** A complete analysis in one portable JSON file: the imports as parsed, plus every setting. */
+export type WorkspaceFile = {
+  format: typeof WORKSPACE_FORMAT;
+  version: number;
+  /** ISO timestamp of when the file was written. */
+  savedAt: string;
+  imports: ImportRecord[];
+  settings: StoredSettings;
+};
+
+/**
+ * Upgrade steps keyed by the version they upgrade from; each returns data of the next version.
+ * Bump `WORKSPACE_VERSION` and add a step here whenever the file layout changes.
+ */
+const WORKSPACE_MIGRATIONS: Record<number, (data: Record<string, unknown>) => Record<string, unknown>> = {
+  // v2 replaced `breakdownMode` + `selectedMonth` with a date-range `period`.
+  1: (data) => {
+    if (!isPlainObject(data.settings)) return { ...data, version: 2 };
+    const { breakdownMode, selectedMonth, ...settings } = data.settings;
+    return { ...data, version: 2, settings: { ...settings, period: periodFromBreakdownMode(breakdownMode, selectedMonth) } };
+  },
+};
+
+/** How many validation problems are listed before the rest are summarized. */
+const WORKSPACE_MAX_PROBLEMS = 8;
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+const isString = (v: unknown): v is string => typeof v === "string";
+const isStringArray = (v: unknown) => Array.isArray(v) && v.every(isString);
+const isStringRecord = (v: unknown) => isPlainObject(v) && Object.values(v).every(isString);
+const isObjectArray = (v: unknown) => Array.isArray(v) && v.every(isPlainObject);
+const isNumber = (v: unknown): v is number => typeof v === "number" && Number.isFinite(v);
+const isColumn = (v: unknown) => Number.isInteger(v) && (v as number) >= 0;
+const isOneOf = (values: readonly unknown[]) => (v: unknown) => values.includes(v);
+
+function isBankProfile(v: unknown): boolean {
+  return (
+    isPlainObject(v) &&
+    isString(v.id) &&
+    isString(v.name) &&
+    isOneOf([";", ",", "\t"])(v.delimiter) &&
+    isColumn(v.headerRowIndex) &&
+    isStringArray(v.header) &&
+    [v.dateColumn, v.amountColumn, v.counterpartyColumn, v.descriptionColumn].every(isColumn) &&
+    [v.currencyColumn, v.referenceColumn].every((c) => c === undefined || isColumn(c)) &&
+    (v.currency === undefined || isString(v.currency)) &&
+    isOneOf(["YYYY-MM-DD", "YYYY/MM/DD", "DD.MM.YYYY", "DD/MM/YYYY", "MM/DD/YYYY"])(v.dateFormat) &&
+    isOneOf([",", "."])(v.decimalSeparator) &&
+    isOneOf(["", ".", ",", " "])(v.thousandSeparator)
+  );
+}
+
+function isCategoryDefinition(v: unknown): boolean {
+  return (
+    isPlainObject(v) &&
+    isString(v.key) &&
+    isString(v.label) &&
+    (v.color === undefined || isString(v.color)) &&
+    (v.parent === undefined || isString(v.parent))
+  );
+}
+
+function isCategoryBudget(v: unknown): boolean {
+  return (
+    isPlainObject(v) &&
+    (v.monthly === null || isNumber(v.monthly)) &&
+    isPlainObject(v.months) &&
+    Object.values(v.months).every(isNumber)
+  );
+}
+
+function isPeriodSelection(v: unknown): boolean {
+  return (
+    isPlainObject(v) &&
+    PERIOD_PRESETS.some((p) => p.value === v.preset) &&
+    isString(v.anchor) &&
+    isString(v.from) &&
+    isString(v.to)
+  );
+}
+
+/** Shape checks per setting. Settings missing from older files fall back to their defaults. */
+const SETTINGS_CHECKS: { [K in keyof StoredSettings]: { check: (v: unknown) => boolean; expected: string } } = {
+  bankProfiles: {
+    check: (v) => Array.isArray(v) && v.every(isBankProfile),
+    expected: "a list of bank profiles with a header, column numbers, a delimiter and number formats",
+  },
+  categoryRules: {
+    check: (v) => isObjectArray(v) && (v as Record<string, unknown>[]).every((r) => isString(r.pattern) && isString(r.category)),
+    expected: "a list of rules with a pattern and a category",
+  },
+  categoryOverrides: { check: isStringRecord, expected: "a map of transaction id to category" },
+  taxonomy: {
+    check: (v) =>
+      isPlainObject(v) && Array.isArray(v.categories) && v.categories.every(isCategoryDefinition) && isStringRecord(v.merged),
+    expected: "categories with a key and a label, and merged categories",
+  },
+  period: { check: isPeriodSelection, expected: "a period with a preset, anchor month and custom range" },
+  comparePeriod: { check: (v) => v === null || isPeriodSelection(v), expected: "a period or null" },
+  transferDecisions: {
+    check: (v) => isPlainObject(v) && isStringArray(v.confirmed) && isStringArray(v.unlinked),
+    expected: "confirmed and unlinked transfer lists",
+  },
+  budgets: {
+    check: (v) => isPlainObject(v) && Object.values(v).every(isCategoryBudget),
+    expected: "a map of category budgets, each with a monthly amount (or null) and amounts per month",
+  },
+  reportingCurrency: { check: (v) => isString(v) && /^[A-Z]{3}$/.test(v), expected: "a currency code like EUR" },
+  exchangeRates: {
+    check: (v) =>
+      isObjectArray(v) &&
+      (v as Record<string, unknown>[]).every(
+        (r) => isString(r.date) && isString(r.base) && isString(r.quote) && typeof r.rate === "number"
+      ),
+    expected: "a list of exchange rates",
+  },
+  accountFilter: {
+    check: (v) => isPlainObject(v) && isString(v.account) && isString(v.owner),
+    expected: "an account and an owner",
+  },
+  householdSplit: {
+    check: (v) =>
+      isPlainObject(v) &&
+      isStringArray(v.sharedCategories) &&
+      isPlainObject(v.weights) &&
+      Object.values(v.weights).every((w) => typeof w === "number"),
+    expected: "shared categories and a weight per owner",
+  },
+  tagRules: {
+    check: (v) => isObjectArray(v) && (v as Record<string, unknown>[]).every((r) => isString(r.pattern) && isString(r.tag)),
+    expected: "a list of rules with a pattern and a tag",
+  },
+  annotations: {
+    check: (v) =>
+      isPlainObject(v) && Object.values(v).every((a) => isPlainObject(a) && isStringArray(a.tags) && isString(a.note)),
+    expected: "a map of transaction id to tags and note",
+  },
+  tagFilter: { check: isString, expected: "a tag" },
+  splits: {
+    check: (v) =>
+      isPlainObject(v) &&
+      Object.values(v).every(
+        (parts) =>
+          isObjectArray(parts) &&
+          (parts as Record<string, unknown>[]).every((p) => typeof p.amount === "number" && isString(p.category))
+      ),
+    expected: "a map of transaction id to split parts",
+  },
+  merchantAliases: {
+    check: (v) =>
+      isObjectArray(v) && (v as Record<string, unknown>[]).every((a) => isString(a.pattern) && isString(a.merchant)),
+    expected: "a list of aliases with a pattern and a merchant",
+  },
+};
+
+/** Check one transaction and copy over its known fields; fields the UI derives (transfer, account, tags) are dropped. */
+function readWorkspaceTransaction(value: unknown, path: string, problems: string[]): Transaction | null {
+  if (!isPlainObject(value)) {
+    problems.push(`${path}: expected a transaction object`);
+    return null;
+  }
+  const before = problems.length;
+  for (const field of ["id", "currency", "merchant", "description", "category", "sourceFile", "bank"] as const) {
+    if (!isString(value[field])) problems.push(`${path}.${field}: expected text`);
+  }
+  if (!isString(value.date) || !/^\d{4}-\d{2}-\d{2}$/.test(value.date)) problems.push(`${path}.date: expected YYYY-MM-DD`);
+  if (typeof value.amount !== "number" || !Number.isFinite(value.amount)) problems.push(`${path}.amount: expected a number`);
+  if (value.reference !== undefined && !isString(value.reference)) problems.push(`${path}.reference: expected text`);
+  if (problems.length > before) return null;
+
+  // Only the parsed fields are stored; anything the UI derives is computed again from the settings.
+  const t = value as Transaction;
+  return {
+    id: t.id,
+    date: t.date,
+    amount: t.amount,
+    currency: t.currency,
+    merchant: t.merchant,
+    description: t.description,
+    category: t.category,
+    sourceFile: t.sourceFile,
+    bank: t.bank,
+    ...(t.reference !== undefined ? { reference: t.reference } : {}),
+  };
+}
+
+function readWorkspaceImport(value: unknown, path: string, problems: string[]): ImportRecord | null {
+  if (!isPlainObject(value)) {
+    problems.push(`${path}: expected an import object`);
+    return null;
+  }
+  const before = problems.length;
+  for (const field of ["id", "fileName", "bank", "importedAt"] as const) {
+    if (!isString(value[field])) problems.push(`${path}.${field}: expected text`);
+  }
+  for (const field of ["account", "owner"] as const) {
+    if (value[field] !== undefined && !isString(value[field])) problems.push(`${path}.${field}: expected text`);
+  }
+  if (!Array.isArray(value.transactions)) {
+    problems.push(`${path}.transactions: expected a list`);
+    return null;
+  }
+  const transactions = value.transactions.map((t, i) => readWorkspaceTransaction(t, `${path}.transactions[${i}]`, problems));
+  if (problems.length > before) return null;
+  return {
+    id: value.id as string,
+    fileName: value.fileName as string,
+    bank: value.bank as string,
+    importedAt: value.importedAt as string,
+    transactions: transactions as Transaction[],
+    ...(value.account ? { account: value.account as string } : {}),
+    ...(value.owner ? { owner: value.owner as string } : {}),
+  };
+}
+
+/** Serialize the current workspace as pretty-printed JSON. */
+export function buildWorkspaceFile(imports: ImportRecord[], settings: StoredSettings): string {
+  const file: WorkspaceFile = {
+    format: WORKSPACE_FORMAT,
+    version: WORKSPACE_VERSION,
+    savedAt: new Date().toISOString(),
+    imports,
+    settings,
+  };
+  return JSON.stringify(file, null, 2);
+}
+
+/**
+ * Read a workspace file: check it is one, migrate older versions step by step and validate every
+ * import and setting. Throws an `Error` whose message lists what is wrong, with paths into the file.
+ */
+export function parseWorkspaceFile(text: string): WorkspaceFile {
+  let data: unknown;
+  try {
+    data = JSON.parse(text);
+  } catch (err) {
+    throw new Error(`The file is not valid JSON (${err instanceof Error ? err.message : String(err)}).`);
+  }
+  if (!isPlainObject(data) || data.format !== WORKSPACE_FORMAT) {
+    throw new Error("This is not a Transaction Analyzer workspace file.");
+  }
+  if (typeof data.version !== "number" || !Number.isInteger(data.version) || data.version < 1) {
+    throw new Error("The workspace file has no valid version number.");
+  }
+  if (data.version > WORKSPACE_VERSION) {
+    throw new Error(
+      `The workspace was saved by a newer version of the app (format v${data.version}); this app reads up to v${WORKSPACE_VERSION}.`
+    );
+  }
+  for (let version = data.version; version < WORKSPACE_VERSION; version++) {
+    const migrate = WORKSPACE_MIGRATIONS[version];
+    if (!migrate) throw new Error(`Workspace format v${version} can't be upgraded.`);
+    data = migrate(data as Record<string, unknown>);
+  }
+  const upgraded = data as Record<string, unknown>;
+
+  const problems: string[] = [];
+  const imports = Array.isArray(upgraded.imports)
+    ? upgraded.imports.map((imp, i) => readWorkspaceImport(imp, `imports[${i}]`, problems))
+    : (problems.push("imports: expected a list"), []);
+
+  const settings = defaultSettings();
+  if (upgraded.settings !== undefined && !isPlainObject(upgraded.settings)) problems.push("settings: expected an object");
+  const storedSettings = isPlainObject(upgraded.settings) ? upgraded.settings : {};
+  for (const key of Object.keys(SETTINGS_CHECKS) as (keyof StoredSettings)[]) {
+    const value = storedSettings[key];
+    if (value === undefined) continue;
+    if (SETTINGS_CHECKS[key].check(value)) (settings as Record<string, unknown>)[key] = value;
+    else problems.push(`settings.${key}: expected ${SETTINGS_CHECKS[key].expected}`);
+  }
+
+  const ids = new Set<string>();
+  for (const imp of imports) {
+    if (!imp) continue;
+    if (ids.has(imp.id)) problems.push(`imports: the import id "${imp.id}" appears twice`);
+    ids.add(imp.id);
+  }
+
+  if (problems.length) {
+    const listed = problems.slice(0, WORKSPACE_MAX_PROBLEMS).map((p) => `- ${p}`);
+    if (problems.length > WORKSPACE_MAX_PROBLEMS) listed.push(`- …and ${problems.length - WORKSPACE_MAX_PROBLEMS} more`);
+    throw new Error(`The workspace file is damaged or incomplete:\n${listed.join("\n")}`);
+  }
+  return {
+    format: WORKSPACE_FORMAT,
+    version: WORKSPACE_VERSION,
+    savedAt: isString(upgraded.savedAt) ? upgraded.savedAt : "",
+    imports: imports as ImportRecord[],
+    settings,
+  };
+}